@@ -1,13 +1,34 @@
 "use server"
 
-import { analyzeMonorepo } from "@/lib/github"
+import { createHash } from "crypto"
+import { analyzeComparison, analyzeMonorepo, analyzeSource, isAnalyzedFile } from "@/lib/analyzer"
+import { createArchiveSource, getRepoCacheKey, isLocalPath } from "@/lib/sources"
+import { getComparisonCacheKey, isComparisonUrl, resolveComparison } from "@/lib/sources/compare"
+import { MAX_ARCHIVE_SIZE } from "@/lib/sources/archive"
 import { redisCache } from "@/lib/redis-cache"
-import { AnalysisData, RepositoryAnalysisResponse } from "@/types"
+import { AnalysisData, AnalyzeOptions, RepositoryAnalysisResponse } from "@/types"
 
-export async function analyzeRepository(repoUrl: string): Promise<RepositoryAnalysisResponse> {
+// Deep analyses are cached separately from package.json-only ones
+const cacheKeySuffix = (options: AnalyzeOptions) => (options.deep ? ":deep" : "")
+
+export async function analyzeRepository(repoUrl: string, options: AnalyzeOptions = {}): Promise<RepositoryAnalysisResponse> {
   try {
+    // Local directories change on disk, always analyze them fresh
+    if (isLocalPath(repoUrl)) {
+      console.log(`[Action] Analyzing local repository: ${repoUrl}`)
+      return {
+        success: true,
+        data: await analyzeMonorepo(repoUrl, options),
+        fromCache: false,
+      }
+    }
+
+    // Pull request and compare URLs analyze two refs and diff them
+    const comparison = isComparisonUrl(repoUrl) ? await resolveComparison(repoUrl) : null
+
     // Generate a cache key based on the repository URL
-    const cacheKey = `repo:${repoUrl.toLowerCase().trim()}`
+    const cacheKey =
+      (comparison ? await getComparisonCacheKey(comparison) : await getRepoCacheKey(repoUrl)) + cacheKeySuffix(options)
     console.log(`[Action] Analyzing repository: ${repoUrl}, cache key: ${cacheKey}`)
 
     // Check if we have a cached version
@@ -25,7 +46,7 @@ export async function analyzeRepository(repoUrl: string): Promise<RepositoryAnal
 
     // If no cache, perform the analysis
     console.log(`[Action] Performing analysis for repository: ${repoUrl}`)
-    const result = await analyzeMonorepo(repoUrl)
+    const result = comparison ? await analyzeComparison(comparison, options) : await analyzeMonorepo(repoUrl, options)
 
     // Save to cache (24 hours)
     try {
@@ -51,3 +72,54 @@ export async function analyzeRepository(repoUrl: string): Promise<RepositoryAnal
     }
   }
 }
+
+export async function analyzeArchive(formData: FormData): Promise<RepositoryAnalysisResponse> {
+  try {
+    const file = formData.get("archive")
+    if (!(file instanceof File)) {
+      throw new Error("Please select a .tar.gz or .zip archive to upload")
+    }
+
+    if (file.size > MAX_ARCHIVE_SIZE) {
+      throw new Error(`Archive is larger than ${MAX_ARCHIVE_SIZE / 1024 / 1024} MB`)
+    }
+
+    const data = new Uint8Array(await file.arrayBuffer())
+    const options: AnalyzeOptions = { deep: formData.get("deep") === "true" }
+
+    // Identical uploads share a cache entry
+    const cacheKey = `archive:${createHash("sha256").update(data).digest("hex")}${cacheKeySuffix(options)}`
+    console.log(`[Action] Analyzing uploaded archive: ${file.name}, cache key: ${cacheKey}`)
+
+    const cachedResult = await redisCache.get(cacheKey)
+    if (cachedResult) {
+      console.log(`[Action] Using cached result for ${file.name}`)
+      return {
+        success: true,
+        data: cachedResult as AnalysisData,
+        fromCache: true,
+      }
+    }
+
+    const result = await analyzeSource(createArchiveSource(file.name, data, (path) => isAnalyzedFile(path, options.deep)), options)
+
+    try {
+      await redisCache.set(cacheKey, result)
+    } catch (cacheError) {
+      console.error(`[Action] Error saving to cache:`, cacheError)
+    }
+
+    return {
+      success: true,
+      data: result,
+      fromCache: false,
+    }
+  } catch (error: unknown) {
+    console.error("[Action] Error in analyzeArchive:", error)
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to analyze archive",
+    }
+  }
+}
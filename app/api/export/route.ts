@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server"
+import { analyzeRepository } from "@/app/actions"
+import { EXPORT_FORMATS, exportGraph, isExportFormat } from "@/lib/export"
+import { EDGE_KINDS } from "@/lib/graph"
+import { isLocalPath } from "@/lib/sources"
+
+// GET /api/export?repo=<url>&format=graphml[&deep=1][&kinds=dependency,peer]
+// Analyzes the repository (usually a cache hit) and downloads the graph in the requested format
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams
+    const repo = params.get("repo")?.trim()
+    const format = params.get("format") || "json"
+    const kinds = params.get("kinds")
+
+    if (!repo) {
+      return NextResponse.json({ error: "Repository URL is required" }, { status: 400 })
+    }
+    // Like the v1 API, this route can't read directories of the machine it runs on
+    if (isLocalPath(repo)) {
+      return NextResponse.json({ error: "Local paths can't be exported through the API" }, { status: 400 })
+    }
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `Unsupported export format: ${format}`, formats: EXPORT_FORMATS },
+        { status: 400 },
+      )
+    }
+
+    const result = await analyzeRepository(repo, { deep: params.get("deep") === "1" })
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 502 })
+    }
+
+    const edgeKinds = kinds === null ? EDGE_KINDS : EDGE_KINDS.filter((kind) => kinds.split(",").includes(kind))
+    const { content, mimeType, filename } = exportGraph(result.data, format, edgeKinds)
+
+    return new NextResponse(content, {
+      headers: {
+        "Content-Type": `${mimeType}; charset=utf-8`,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error exporting graph:", error)
+    return NextResponse.json({ error: "Failed to export graph" }, { status: 500 })
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server"
+import { analysisJobs, describeJob } from "@/app/api/v1/analyses/jobs"
+import { AnalysisJob } from "@/types"
+
+// GET /api/v1/analyses/:id/events
+// Server-sent events of an analysis job: "progress" while it waits and runs, with the packages
+// found so far now and then, then "succeeded" with the analysis or "failed" with the error
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const job = analysisJobs.get((await params).id)
+  if (!job) {
+    return NextResponse.json({ error: "Analysis not found, finished jobs expire after an hour" }, { status: 404 })
+  }
+
+  const encoder = new TextEncoder()
+  let unsubscribe = () => {}
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+
+      const update = (current: AnalysisJob) => {
+        if (current.status === "succeeded" || current.status === "failed") {
+          send(current.status, describeJob(current))
+          unsubscribe()
+          controller.close()
+        } else {
+          send("progress", {
+            status: current.status,
+            ...(current.status === "queued" ? { position: analysisJobs.position(current.id) } : {}),
+            progress: current.progress,
+          })
+        }
+      }
+
+      unsubscribe = analysisJobs.subscribe(job.id, update)
+      update(job)
+      // The browser went away, the job keeps running for anyone polling it
+      req.signal.addEventListener("abort", () => unsubscribe())
+    },
+    cancel() {
+      unsubscribe()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
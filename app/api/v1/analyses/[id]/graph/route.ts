@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { EXPORT_FORMATS, exportGraph, isExportFormat } from "@/lib/export"
+import { EDGE_KINDS } from "@/lib/graph"
+import { analysisJobs } from "@/app/api/v1/analyses/jobs"
+
+// GET /api/v1/analyses/:id/graph?format=graphml[&kinds=dependency,peerDependency]
+// The graph of a finished analysis in one of the export formats, JSON by default
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const job = analysisJobs.get((await params).id)
+    const searchParams = new URL(req.url).searchParams
+    const format = searchParams.get("format") || "json"
+    const kinds = searchParams.get("kinds")
+
+    if (!job) {
+      return NextResponse.json({ error: "Analysis not found, finished jobs expire after an hour" }, { status: 404 })
+    }
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `Unsupported export format: ${format}`, formats: EXPORT_FORMATS },
+        { status: 400 },
+      )
+    }
+    if (job.status === "failed") {
+      return NextResponse.json({ error: job.error, status: job.status }, { status: 422 })
+    }
+    if (!job.result) {
+      return NextResponse.json({ error: "The analysis hasn't finished yet", status: job.status }, { status: 409 })
+    }
+
+    const edgeKinds = kinds === null ? EDGE_KINDS : EDGE_KINDS.filter((kind) => kinds.split(",").includes(kind))
+    const { content, mimeType, filename } = exportGraph(job.result.data, format, edgeKinds)
+
+    return new NextResponse(content, {
+      headers: {
+        "Content-Type": `${mimeType}; charset=utf-8`,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error exporting analysis graph:", error)
+    return NextResponse.json({ error: "Failed to export graph" }, { status: 500 })
+  }
+}
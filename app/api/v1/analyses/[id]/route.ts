@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { analysisJobs, describeJob } from "@/app/api/v1/analyses/jobs"
+
+// GET /api/v1/analyses/:id
+// Status and progress of an analysis job, with the analysis once it succeeded
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const job = analysisJobs.get((await params).id)
+  if (!job) {
+    return NextResponse.json({ error: "Analysis not found, finished jobs expire after an hour" }, { status: 404 })
+  }
+  return NextResponse.json(describeJob(job))
+}
@@ -0,0 +1,40 @@
+"use server"
+
+import { headers } from "next/headers"
+import { analysisJobs } from "@/app/api/v1/analyses/jobs"
+import { isLocalPath } from "@/lib/sources"
+import { StartAnalysisResponse } from "@/types"
+
+// Landing page jobs need no API key, so visitors only get a share of the waiting slots the API
+// clients have, and a few unfinished jobs each
+const MAX_PENDING_PAGE_ANALYSES = 5
+const MAX_UNFINISHED_PER_CLIENT = 2
+
+// Address of the visitor as the proxy in front of the app reports it
+async function clientAddress() {
+  const requestHeaders = await headers()
+  return requestHeaders.get("x-forwarded-for")?.split(",")[0].trim() || requestHeaders.get("x-real-ip") || "unknown"
+}
+
+// Enqueue an analysis for the landing page, which then follows it through the events route.
+// The API key of the REST API stays with its clients, the browser never sees one.
+export async function startAnalysisJob(repo: string, deep: boolean): Promise<StartAnalysisResponse> {
+  const url = repo.trim()
+  if (!url) {
+    return { success: false, error: "Repository URL is required" }
+  }
+  if (isLocalPath(url)) {
+    return { success: false, error: "Local paths can't be analyzed as a job" }
+  }
+
+  const client = await clientAddress()
+  if (analysisJobs.count((job) => job.input.client === client && !job.finishedAt) >= MAX_UNFINISHED_PER_CLIENT) {
+    return { success: false, error: "Your other analyses are still running, wait for one to finish" }
+  }
+  const waiting = analysisJobs.count((job) => job.input.client !== undefined && job.status === "queued")
+  const job = waiting < MAX_PENDING_PAGE_ANALYSES ? analysisJobs.enqueue({ repo: url, deep, client }) : null
+  if (!job) {
+    return { success: false, error: "Too many analyses are waiting, try again in a minute" }
+  }
+  return { success: true, id: job.id }
+}
@@ -0,0 +1,55 @@
+import { analyzeRepository } from "@/app/actions"
+import { JobQueue, createJobQueue } from "@/lib/jobs"
+import { AnalysisJob, AnalysisJobInput, AnalysisJobResult, AnalysisProgress } from "@/types"
+
+// Analyses running at the same time, they share the providers' rate limits
+const ANALYSIS_CONCURRENCY = 2
+// Analyses waiting to run, more are turned away until some have started
+const MAX_PENDING_ANALYSES = 20
+
+type AnalysisJobQueue = JobQueue<AnalysisJobInput, AnalysisJobResult, AnalysisProgress>
+
+// Each route can be bundled with its own copy of this module, the queue has to be the same one
+const globalForJobs = globalThis as typeof globalThis & { analysisJobs?: AnalysisJobQueue }
+
+export const analysisJobs = (globalForJobs.analysisJobs ??= createJobQueue<AnalysisJobInput, AnalysisJobResult, AnalysisProgress>({
+  // Same cached analysis as the app, so a repository analyzed in the UI is ready right away
+  run: async ({ repo, deep }, report) => {
+    const response = await analyzeRepository(repo, { deep, onProgress: report })
+    if (!response.success) throw new Error(response.error)
+    return { data: response.data, fromCache: response.fromCache }
+  },
+  concurrency: ANALYSIS_CONCURRENCY,
+  maxPending: MAX_PENDING_ANALYSES,
+}))
+
+// Whether the request carries one of the keys in ANALYSIS_API_KEYS ("Authorization: Bearer <key>").
+// Without any keys configured nobody can enqueue through the API.
+export function isAuthorized(req: Request) {
+  const keys = (process.env.ANALYSIS_API_KEYS || "").split(",").map((key) => key.trim()).filter(Boolean)
+  const token = req.headers.get("authorization")?.match(/^Bearer\s+(.+)$/)?.[1]
+  return token !== undefined && keys.includes(token)
+}
+
+// A job as the API returns it, with the analysis once it succeeded
+export function describeJob(job: AnalysisJob) {
+  const { id, status, input, progress, result, error, createdAt, startedAt, finishedAt } = job
+  return {
+    id,
+    status,
+    repo: input.repo,
+    deep: input.deep,
+    // Partial graphs are only streamed, see the events route
+    progress: status === "succeeded" ? { percent: 100 } : progress && { ...progress, graph: undefined },
+    ...(status === "queued" ? { position: analysisJobs.position(id) } : {}),
+    ...(error ? { error } : {}),
+    createdAt,
+    ...(startedAt ? { startedAt } : {}),
+    ...(finishedAt ? { finishedAt } : {}),
+    links: {
+      self: `/api/v1/analyses/${id}`,
+      graph: `/api/v1/analyses/${id}/graph`,
+    },
+    ...(result ? { fromCache: result.fromCache, result: result.data } : {}),
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { isLocalPath } from "@/lib/sources"
+import { analysisJobs, describeJob, isAuthorized } from "@/app/api/v1/analyses/jobs"
+
+// POST /api/v1/analyses { "repo": "<url>", "deep": false }, with "Authorization: Bearer <key>"
+// Enqueues an analysis and answers right away with the job, poll its `links.self` for the result
+export async function POST(req: Request) {
+  try {
+    // Every job crawls the repository on the server's provider tokens
+    if (!isAuthorized(req)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await req.json().catch(() => null)
+    const repo = typeof body?.repo === "string" ? body.repo.trim() : ""
+
+    if (!repo) {
+      return NextResponse.json({ error: "Repository URL is required" }, { status: 400 })
+    }
+    // The app can analyze directories of the machine it runs on, the public API can't
+    if (isLocalPath(repo)) {
+      return NextResponse.json({ error: "Local paths can't be analyzed through the API" }, { status: 400 })
+    }
+
+    const job = analysisJobs.enqueue({ repo, deep: body.deep === true })
+    if (!job) {
+      return NextResponse.json(
+        { error: "Too many analyses are waiting, try again in a minute" },
+        { status: 429, headers: { "Retry-After": "60" } },
+      )
+    }
+    return NextResponse.json(describeJob(job), { status: 202, headers: { Location: `/api/v1/analyses/${job.id}` } })
+  } catch (error) {
+    console.error("Error enqueuing analysis:", error)
+    return NextResponse.json({ error: "Failed to enqueue analysis" }, { status: 500 })
+  }
+}
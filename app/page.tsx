@@ -9,7 +9,11 @@ import { InsightsPanel } from "@/components/insights-panel"
 import { Toaster } from "@/components/ui/sonner"
 import { useTheme } from "next-themes"
 import { useSearchParams, useRouter } from "next/navigation"
-import { AnalysisData } from "@/types"
+import { toast } from "sonner"
+import { analyzeRepository } from "@/app/actions"
+import { DEFAULT_GRAPH_VIEW_STATE, buildDeepLink, parseDeepLink } from "@/lib/deep-link"
+import { DEFAULT_EDGE_KINDS, EMPTY_GRAPH_FILTER } from "@/lib/graph"
+import { AnalysisData, AnalysisSource, EdgeKind, GraphViewState, InsightsTab } from "@/types"
 
 function MainContent() {
   const [analysisData, setAnalysisData] = useState<AnalysisData | null>(null)
@@ -17,10 +21,65 @@ function MainContent() {
   const [isPanelCollapsed, setIsPanelCollapsed] = useState<boolean>(false)
   const [windowHeight, setWindowHeight] = useState<number>(0)
   const [currentView, setCurrentView] = useState<"landing" | "visualization" | "details">("landing")
+  // Edge kinds shown in the graph and counted in the stats, shared so both always agree
+  const [edgeKinds, setEdgeKinds] = useState<EdgeKind[]>(DEFAULT_EDGE_KINDS)
+  // Everything else a link restores: what was analyzed, the graph view and the sidebar tab
+  const [source, setSource] = useState<AnalysisSource | null>(null)
+  const [graphViewState, setGraphViewState] = useState<GraphViewState>(DEFAULT_GRAPH_VIEW_STATE)
+  const [tab, setTab] = useState<InsightsTab>("ai")
+  const [restoredTab, setRestoredTab] = useState<InsightsTab | null>(null)
   const { theme } = useTheme()
   const isDark = theme === "dark"
   const searchParams = useSearchParams()
   const route = useRouter()
+  // Opening a link analyzes its repository again before anything is shown
+  const [isRestoring, setIsRestoring] = useState<boolean>(() => searchParams.has("repo"))
+
+  // Restore the view of a link: analyze the repository (usually a cache hit), then select its
+  // module and apply its tab, edge kinds, layout, filters and camera
+  useEffect(() => {
+    const link = parseDeepLink(new URLSearchParams(searchParams.toString()))
+    if (!link) return
+
+    const restore = async () => {
+      try {
+        const result = await analyzeRepository(link.source.url, { deep: link.source.deep })
+        if (!result.success) {
+          toast.error("Could not open link", { description: result.error })
+          return
+        }
+        setAnalysisData(result.data)
+        setSource(link.source)
+        setEdgeKinds(link.edgeKinds)
+        setGraphViewState(link.viewState)
+        setRestoredTab(link.tab)
+        setSelectedModule(link.module)
+        setCurrentView(link.module ? "details" : "visualization")
+      } catch (error: unknown) {
+        console.error("Error restoring link:", error)
+        toast.error("Could not open link", {
+          description: error instanceof Error ? error.message : "Failed to analyze repository",
+        })
+      } finally {
+        setIsRestoring(false)
+      }
+    }
+    restore()
+  }, [])
+
+  // Keep the address bar on a link to the current view. history.replaceState doesn't add an
+  // entry per camera move, and uploaded archives can't be linked to.
+  useEffect(() => {
+    if (isRestoring) return
+    const query =
+      currentView !== "landing" && source
+        ? buildDeepLink({ source, module: selectedModule, tab, edgeKinds, viewState: graphViewState }).toString()
+        : ""
+    const url = query ? `/?${query}` : "/"
+    if (url !== window.location.pathname + window.location.search) {
+      window.history.replaceState(null, "", url)
+    }
+  }, [isRestoring, currentView, source, selectedModule, tab, edgeKinds, graphViewState])
 
   // Sync state with URL parameters only when they change
   useEffect(() => {
@@ -42,9 +101,13 @@ function MainContent() {
     return () => window.removeEventListener("resize", updateHeight)
   }, [])
 
-  const handleAnalysisComplete = useCallback((data: AnalysisData) => {
+  const handleAnalysisComplete = useCallback((data: AnalysisData, analyzed?: AnalysisSource) => {
     setAnalysisData(data)
+    setSource(analyzed || null)
     setSelectedModule(null)
+    setRestoredTab(null)
+    // Filters and the camera belong to the previous repository, layout and view mode carry over
+    setGraphViewState((current) => ({ ...current, filter: EMPTY_GRAPH_FILTER, camera: null }))
     setCurrentView("visualization")
   }, [])
 
@@ -83,7 +146,24 @@ function MainContent() {
       {/* Main content area with adjusted top padding for the fixed navbar */}
       <main className="flex flex-1 flex-col pt-14 h-full w-full">
         <AnimatePresence mode="wait">
-          {currentView === "landing" && (
+          {isRestoring && (
+            <motion.div
+              key="restoring"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="flex flex-1 h-full items-center justify-center"
+            >
+              <div className="flex flex-col items-center space-y-4">
+                <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-500"></div>
+                <p className={`text-sm ${isDark ? "text-gray-400" : "text-gray-600"}`}>
+                  Opening {searchParams.get("repo")}…
+                </p>
+              </div>
+            </motion.div>
+          )}
+
+          {currentView === "landing" && !isRestoring && (
             <motion.div
               key="hero"
               initial={{ opacity: 0 }}
@@ -117,6 +197,10 @@ function MainContent() {
                   onSelectNode={handleSelectNode}
                   isDetailView={currentView === "details"}
                   selectedModule={selectedModule} // Explicitly pass the selected module
+                  edgeKinds={edgeKinds}
+                  onEdgeKindsChange={setEdgeKinds}
+                  viewState={graphViewState}
+                  onViewStateChange={setGraphViewState}
                 />
               </div>
 
@@ -139,6 +223,10 @@ function MainContent() {
                   onBackToVisualization={handleBackToVisualization}
                   isCollapsed={isPanelCollapsed}
                   onToggleCollapse={handleTogglePanel}
+                  edgeKinds={edgeKinds}
+                  onEdgeKindsChange={setEdgeKinds}
+                  initialTab={restoredTab}
+                  onTabChange={setTab}
                 />
               </div>
             </div>
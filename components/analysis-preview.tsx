@@ -0,0 +1,73 @@
+"use client"
+
+import { useMemo, useRef } from "react"
+import { Canvas, useFrame } from "@react-three/fiber"
+import * as THREE from "three"
+
+import { EdgeBatches, InstancedNodes } from "@/components/instanced-graph"
+import { ECOSYSTEM_COLORS } from "@/lib/graph"
+import { fibonacciSphere } from "@/lib/layout/sphere"
+import { AnalysisPreviewProps, BatchedEdge, InstancedNode } from "@/types"
+
+const PREVIEW_RADIUS = 20
+const PREVIEW_CUBE_SIZE = 1.2
+
+// The packages found so far on a slowly turning sphere, re-spread as more of them come in
+function PreviewCloud({ graph, isDark }: AnalysisPreviewProps) {
+  const group = useRef<THREE.Group>(null)
+  const glowColor = isDark ? "#00ffff" : "#60a5fa"
+  const edgeColor = isDark ? "#0077aa" : "#93c5fd"
+
+  useFrame((_, delta) => {
+    if (group.current) group.current.rotation.y += delta * 0.2
+  })
+
+  const positions = useMemo(() => {
+    const points = fibonacciSphere(graph.nodes.length, PREVIEW_RADIUS)
+    return new Map(graph.nodes.map((node, index) => [node.id, points[index]]))
+  }, [graph.nodes])
+
+  const nodes = useMemo(
+    () =>
+      graph.nodes.map(
+        (node): InstancedNode => ({
+          id: node.id,
+          position: positions.get(node.id)!,
+          scale: PREVIEW_CUBE_SIZE,
+          glowColor: node.ecosystem && node.ecosystem !== "npm" ? ECOSYSTEM_COLORS[node.ecosystem] : glowColor,
+        }),
+      ),
+    [graph.nodes, positions, glowColor],
+  )
+
+  const edges = useMemo(
+    () =>
+      graph.edges.flatMap((edge): BatchedEdge[] => {
+        const start = positions.get(edge.source)
+        const end = positions.get(edge.target)
+        if (!start || !end) return []
+        // Bowed outwards, so edges run over the sphere rather than through it
+        const mid = [0, 1, 2].map((axis) => (start[axis] + end[axis]) * 0.6) as [number, number, number]
+        return [{ start, mid, end, color: edgeColor, opacity: 0.5, dashed: false }]
+      }),
+    [graph.edges, positions, edgeColor],
+  )
+
+  return (
+    <group ref={group}>
+      <InstancedNodes nodes={nodes} color="#3b82f6" onSelectNode={() => {}} />
+      <EdgeBatches edges={edges} lineWidth={1} />
+    </group>
+  )
+}
+
+// Small 3D view of a running analysis, without controls
+export default function AnalysisPreview({ graph, isDark }: AnalysisPreviewProps) {
+  return (
+    <Canvas camera={{ position: [0, 0, 60], fov: 50 }} dpr={1} gl={{ alpha: true, antialias: true }}>
+      <ambientLight intensity={0.8} />
+      <directionalLight position={[5, 5, 5]} intensity={0.8} />
+      <PreviewCloud graph={graph} isDark={isDark} />
+    </Canvas>
+  )
+}
@@ -0,0 +1,47 @@
+"use client"
+
+import dynamic from "next/dynamic"
+
+import { AnalysisProgressPanelProps } from "@/types"
+
+const AnalysisPreview = dynamic(() => import("./analysis-preview"), { ssr: false })
+
+// Progress bar, log and the packages found so far of an analysis streamed from the server
+export function AnalysisProgressPanel({ progress, log, graph, isDark }: AnalysisProgressPanelProps) {
+  const percent = progress?.percent ?? 0
+
+  return (
+    <div
+      className={`w-full space-y-3 rounded-lg border p-4 text-xs ${
+        isDark ? "border-gray-800 bg-gray-950/80" : "border-gray-200 bg-white/80"
+      } backdrop-blur-sm`}
+    >
+      {graph && graph.nodes.length > 0 && (
+        <div className="relative h-48 w-full">
+          <AnalysisPreview graph={graph} isDark={isDark} />
+          <span className="absolute bottom-1 right-2 text-muted-foreground">
+            {graph.nodes.length} packages, {graph.edges.length} dependencies
+          </span>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between text-muted-foreground">
+        <span className="truncate">{progress?.message || "Waiting for the analysis to start…"}</span>
+        <span className="ml-2 tabular-nums">{percent}%</span>
+      </div>
+      <div className={`h-1.5 w-full overflow-hidden rounded-full ${isDark ? "bg-gray-800" : "bg-gray-200"}`}>
+        <div className="h-full rounded-full bg-blue-500 transition-[width] duration-300" style={{ width: `${percent}%` }} />
+      </div>
+
+      {log.length > 0 && (
+        <ol className="max-h-28 space-y-0.5 overflow-y-auto font-mono text-[11px] text-muted-foreground">
+          {log.map((line, index) => (
+            <li key={index} className={index === log.length - 1 ? (isDark ? "text-gray-200" : "text-gray-800") : undefined}>
+              {line}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
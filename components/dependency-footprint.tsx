@@ -0,0 +1,90 @@
+"use client"
+import { useMemo, useState } from "react"
+import semver from "semver"
+
+import { Input } from "@/components/ui/input"
+import { DependencyFootprintProps } from "@/types"
+
+// Number of packages listed by install footprint
+const FOOTPRINT_LIMIT = 10
+
+// "lodash" -> any version, "lodash@3" or "@types/node@>=20" -> versions in that range
+function parseQuery(query: string) {
+  const at = query.indexOf("@", 1)
+  return at === -1 ? { name: query.trim(), range: "" } : { name: query.slice(0, at).trim(), range: query.slice(at + 1).trim() }
+}
+
+// Per workspace install footprint from the lockfile, and which workspaces pull in a given package
+export function DependencyFootprint({ nodes, lockfile, isDark, onSelectPackage }: DependencyFootprintProps) {
+  const [query, setQuery] = useState("")
+  const cardClassName = `rounded-lg border border-input ${isDark ? "bg-gray-900/50" : "bg-gray-50"} p-3 shadow-sm`
+
+  const byFootprint = useMemo(
+    () =>
+      nodes
+        .filter((node) => node.data?.resolved)
+        .sort((a, b) => (b.data?.resolved?.footprint || 0) - (a.data?.resolved?.footprint || 0))
+        .slice(0, FOOTPRINT_LIMIT),
+    [nodes],
+  )
+
+  const matches = useMemo(() => {
+    const { name, range } = parseQuery(query)
+    if (!name) return []
+    return nodes.flatMap((node) => {
+      const versions = (node.data?.resolved?.installed[name] || []).filter(
+        (version) => !range || (semver.validRange(range) ? semver.satisfies(version, range) : version === range),
+      )
+      return versions.length > 0 ? [{ id: node.id, versions }] : []
+    })
+  }, [nodes, query])
+
+  return (
+    <>
+      <div className={cardClassName}>
+        <h3 className="font-medium">Install Footprint</h3>
+        <p className="text-xs text-muted-foreground">
+          {lockfile.packages} packages in {lockfile.file}
+        </p>
+        <ul className="mt-2 space-y-1 text-sm">
+          {byFootprint.map((node) => (
+            <li key={node.id} className="flex justify-between gap-2">
+              <button className="truncate text-left text-muted-foreground hover:underline" onClick={() => onSelectPackage?.(node.id)}>
+                {node.id}
+              </button>
+              <span className="shrink-0">
+                {Object.keys(node.data?.resolved?.direct || {}).length} direct, {node.data?.resolved?.footprint} total
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className={cardClassName}>
+        <h3 className="font-medium">Who Installs…</h3>
+        <Input
+          className="mt-2 h-8"
+          placeholder="lodash@3"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          aria-label="Package name and optional version range"
+        />
+        {query.trim() &&
+          (matches.length === 0 ? (
+            <p className="mt-2 text-sm text-muted-foreground">No package installs {query.trim()}.</p>
+          ) : (
+            <ul className="mt-2 space-y-1 text-sm">
+              {matches.map((match) => (
+                <li key={match.id} className="flex justify-between gap-2">
+                  <button className="truncate text-left text-muted-foreground hover:underline" onClick={() => onSelectPackage?.(match.id)}>
+                    {match.id}
+                  </button>
+                  <span className="shrink-0 font-mono text-xs">{match.versions.join(", ")}</span>
+                </li>
+              ))}
+            </ul>
+          ))}
+      </div>
+    </>
+  )
+}
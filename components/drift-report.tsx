@@ -0,0 +1,104 @@
+"use client"
+import { Check } from "lucide-react"
+
+import { DependencyDrift, DriftReportProps } from "@/types"
+
+// Package × declared range matrix for one drifting dependency
+function DriftMatrix({ drift, isDark, onSelectPackage }: { drift: DependencyDrift } & Omit<DriftReportProps, "report">) {
+  const packages = Array.from(new Set(drift.declarations.map((declaration) => declaration.package)))
+
+  return (
+    <div className={`rounded-lg border border-input ${isDark ? "bg-gray-900/50" : "bg-gray-50"} p-3 shadow-sm`}>
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-medium truncate">{drift.dependency}</h3>
+        <span
+          className={`shrink-0 rounded px-1.5 py-0.5 text-xs ${
+            drift.severity === "major"
+              ? "bg-red-500/15 text-red-600 dark:text-red-400"
+              : "bg-amber-500/15 text-amber-600 dark:text-amber-400"
+          }`}
+        >
+          {drift.severity === "major" ? `${drift.majors.length} majors` : `${drift.ranges.length} ranges`}
+        </span>
+      </div>
+      <div className="mt-2 overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="py-1 pr-2 text-left font-normal">Package</th>
+              {drift.ranges.map((range) => (
+                <th key={range} className="px-2 py-1 text-center font-mono font-normal whitespace-nowrap">
+                  {range}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {packages.map((pkg) => (
+              <tr key={pkg} className="border-t border-input">
+                <td className="py-1 pr-2">
+                  <button
+                    className="max-w-[10rem] truncate text-left hover:underline"
+                    onClick={() => onSelectPackage?.(pkg)}
+                    title={pkg}
+                  >
+                    {pkg}
+                  </button>
+                </td>
+                {drift.ranges.map((range) => {
+                  const declaration = drift.declarations.find((d) => d.package === pkg && d.range === range)
+                  return (
+                    <td key={range} className="px-2 py-1 text-center" title={declaration?.field}>
+                      {declaration && <Check className="mx-auto h-3 w-3" />}
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+// External dependencies declared at conflicting ranges across workspaces, and workspace
+// dependencies whose range excludes the package's own version
+export function DriftReport({ report, isDark, onSelectPackage }: DriftReportProps) {
+  const cardClassName = `rounded-lg border border-input ${isDark ? "bg-gray-900/50" : "bg-gray-50"} p-3 shadow-sm`
+
+  return (
+    <div className="space-y-4">
+      <div className={cardClassName}>
+        <h3 className="font-medium">Internal range mismatches</h3>
+        {report.internal.length === 0 ? (
+          <p className="mt-2 text-sm text-muted-foreground">Every workspace dependency accepts the current version.</p>
+        ) : (
+          <ul className="mt-2 space-y-1 text-sm">
+            {report.internal.map((mismatch) => (
+              <li key={`${mismatch.package}->${mismatch.dependency}`} className="flex justify-between gap-2">
+                <span className="truncate text-muted-foreground">
+                  {mismatch.package} → {mismatch.dependency}
+                </span>
+                <span className="shrink-0 font-mono text-xs">
+                  {mismatch.range} ∌ {mismatch.version}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {report.external.length === 0 ? (
+        <div className={cardClassName}>
+          <h3 className="font-medium">External dependencies</h3>
+          <p className="mt-2 text-sm text-muted-foreground">All workspaces agree on their external dependency ranges.</p>
+        </div>
+      ) : (
+        report.external.map((drift) => (
+          <DriftMatrix key={drift.dependency} drift={drift} isDark={isDark} onSelectPackage={onSelectPackage} />
+        ))
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+"use client"
+import { Filter } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { EDGE_KINDS, EDGE_KIND_LABELS } from "@/lib/graph"
+import { EdgeKindFilterProps } from "@/types"
+
+// Pick which kinds of edges are shown, with the number of edges of each kind in the current graph
+export function EdgeKindFilter({ edges, value, onChange, className }: EdgeKindFilterProps) {
+  const counts = new Map<string, number>()
+  for (const edge of edges) {
+    counts.set(edge.kind, (counts.get(edge.kind) || 0) + 1)
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className={className}>
+          <Filter className="mr-1 h-3 w-3" />
+          Edges ({value.length}/{EDGE_KINDS.length})
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Show edges</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {EDGE_KINDS.map((kind) => (
+          <DropdownMenuCheckboxItem
+            key={kind}
+            checked={value.includes(kind)}
+            // Keep the menu open while toggling several kinds
+            onSelect={(e) => e.preventDefault()}
+            onCheckedChange={(checked) =>
+              onChange(checked ? EDGE_KINDS.filter((k) => k === kind || value.includes(k)) : value.filter((k) => k !== kind))
+            }
+          >
+            <span className="flex-1">{EDGE_KIND_LABELS[kind]}</span>
+            <span className="ml-4 text-xs text-muted-foreground">{counts.get(kind) || 0}</span>
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,89 @@
+"use client"
+import { Download } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  EXPORT_FORMATS,
+  EXPORT_FORMAT_LABELS,
+  VIEW_EXPORT_FORMAT_LABELS,
+  VIEW_EXPORT_SUFFIXES,
+  exportFilename,
+  exportGraph,
+} from "@/lib/export"
+import { ExportFormat, ExportMenuProps, ViewExportFormat } from "@/types"
+
+// Save a file through a temporary link
+function download(content: Blob, filename: string) {
+  const url = URL.createObjectURL(content)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+const handleError = (error: unknown) => {
+  console.error("Error exporting graph:", error)
+  toast.error("Export Failed", { description: error instanceof Error ? error.message : undefined })
+}
+
+// Download the graph with its metrics for Gephi, Graphviz, Mermaid docs or spreadsheets, or the
+// current view as an image or a 3D scene
+export function ExportMenu({ analysisData, edgeKinds, viewExporter, className }: ExportMenuProps) {
+  const handleExport = (format: ExportFormat) => {
+    try {
+      const { content, mimeType, filename } = exportGraph(analysisData, format, edgeKinds)
+      download(new Blob([content], { type: mimeType }), filename)
+    } catch (error) {
+      handleError(error)
+    }
+  }
+
+  const handleViewExport = async (format: ViewExportFormat) => {
+    try {
+      download(await viewExporter!.exportView(format), exportFilename(analysisData, VIEW_EXPORT_SUFFIXES[format]))
+    } catch (error) {
+      handleError(error)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className={className}>
+          <Download className="mr-1 h-3 w-3" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export graph</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {EXPORT_FORMATS.map((format) => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {EXPORT_FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+        {viewExporter && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Export view</DropdownMenuLabel>
+            {viewExporter.formats.map((format) => (
+              <DropdownMenuItem key={format} onSelect={() => handleViewExport(format)}>
+                {VIEW_EXPORT_FORMAT_LABELS[format]}
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,356 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { flushSync } from "react-dom"
+
+import { GraphLegend } from "@/components/graph-legend"
+import { useGraphFilter } from "@/hooks/use-graph-filter"
+import { useGraphHighlights } from "@/hooks/use-graph-highlights"
+import { useGraphLayout } from "@/hooks/use-graph-layout"
+import { standaloneSvg, svgToPng } from "@/lib/export/image"
+import { DEFAULT_EDGE_KINDS, DIFF_COLORS, edgeStyle, filterEdgesByKind, nodeGlowColor } from "@/lib/graph"
+import { DEFAULT_GRAPH_LAYOUT } from "@/lib/layout"
+import { DiffStatus, Graph2DProps, GraphLayout, LayoutPositions, ThreeEdge, ThreeNode } from "@/types"
+
+// Pixels per layout unit at zoom 1
+const UNIT = 14
+const NODE_HEIGHT = 24
+const MIN_ZOOM = 0.05
+const MAX_ZOOM = 4
+// Below this zoom only the selected and hovered packages keep their names
+const LABEL_ZOOM = 0.45
+// Pointer moves shorter than this are clicks, not drags
+const DRAG_THRESHOLD = 3
+const MAX_LABEL_LENGTH = 28
+// Space around the graph in exported images
+const EXPORT_MARGIN = 24
+
+// Flat layouts, kept apart from the 3D ones and across remounts for a new analysis
+const layoutCache: Partial<Record<GraphLayout, LayoutPositions>> = {}
+
+const NO_NODES: ThreeNode[] = []
+const NO_EDGES: ThreeEdge[] = []
+
+const shorten = (label: string) => (label.length > MAX_LABEL_LENGTH ? label.slice(0, MAX_LABEL_LENGTH - 1) + "…" : label)
+
+// Rectangle around all boxes, in SVG coordinates
+function boxBounds(boxes: Array<{ x: number; y: number; width: number }>) {
+  const minX = Math.min(...boxes.map((box) => box.x - box.width / 2))
+  const maxX = Math.max(...boxes.map((box) => box.x + box.width / 2))
+  const minY = Math.min(...boxes.map((box) => box.y - NODE_HEIGHT / 2))
+  const maxY = Math.max(...boxes.map((box) => box.y + NODE_HEIGHT / 2))
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+}
+
+// Point where the line from the center of a box towards (dx, dy) leaves it
+function boxExit(box: { x: number; y: number; width: number }, dx: number, dy: number) {
+  const scale = Math.min(
+    dx === 0 ? Infinity : box.width / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : NODE_HEIGHT / 2 / Math.abs(dy),
+  )
+  return [box.x + dx * scale, box.y + dy * scale]
+}
+
+// The dependency graph as SVG, for machines without WebGL, screenshots and anyone who prefers a
+// flat map: drag to pan, scroll to zoom, click a package to select it
+export function Graph2D({
+  analysisData,
+  onSelectNode,
+  selectedModule = null,
+  theme,
+  edgeKinds = DEFAULT_EDGE_KINDS,
+  layout = DEFAULT_GRAPH_LAYOUT,
+  filter,
+  onExporterChange,
+}: Graph2DProps) {
+  const isDark = theme === "dark"
+  const containerRef = useRef<HTMLDivElement>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+  const [transform, setTransform] = useState({ x: 0, y: 0, k: 1 })
+  const [hoveredNode, setHoveredNode] = useState<string | null>(null)
+  const [selectedNode, setSelectedNode] = useState(selectedModule)
+  // Every package is named in exports, whatever the zoom
+  const [isExporting, setIsExporting] = useState(false)
+  const drag = useRef<{ pointerX: number; pointerY: number; x: number; y: number; moved: boolean } | null>(null)
+
+  const { graph, comparison, cycles, violations, ecosystems } = useGraphHighlights(analysisData, edgeKinds)
+  const { positions, isComputing } = useGraphLayout(
+    layout,
+    graph?.nodes || NO_NODES,
+    graph?.edges || NO_EDGES,
+    layoutCache,
+    true,
+  )
+  const visible = useGraphFilter(graph, edgeKinds, filter, selectedNode)
+
+  // Same palette as the 3D view
+  const primaryColor = "#3b82f6"
+  const edgeColor = isDark ? "#00b3ff" : "#3b82f6"
+  const dimmedEdgeColor = isDark ? "#0077aa" : "#93c5fd"
+  const glowColor = isDark ? "#00ffff" : "#60a5fa"
+
+  useEffect(() => {
+    setSelectedNode(selectedModule)
+  }, [selectedModule])
+
+  // Boxes in SVG coordinates, y flipped so layered layouts keep dependents above their dependencies
+  const boxes = useMemo(
+    () =>
+      new Map(
+        (graph?.nodes || [])
+          .filter((node) => positions[node.id] && (!visible || visible.has(node.id)))
+          .map((node: ThreeNode) => {
+            const label = shorten(node.label || node.id)
+            const [x, y] = positions[node.id]
+            return [node.id, { node, label, x: x * UNIT, y: -y * UNIT, width: Math.max(48, label.length * 6.5 + 16) }]
+          }),
+      ),
+    [graph, positions, visible],
+  )
+
+  const fit = useCallback(() => {
+    const container = containerRef.current
+    if (!container || boxes.size === 0) return
+    const { width, height } = container.getBoundingClientRect()
+    const bounds = boxBounds(Array.from(boxes.values()))
+    const k = Math.min(Math.max(Math.min((width - 80) / (bounds.width || 1), (height - 80) / (bounds.height || 1)), MIN_ZOOM), 1.5)
+    setTransform({ x: width / 2 - (bounds.x + bounds.width / 2) * k, y: height / 2 - (bounds.y + bounds.height / 2) * k, k })
+  }, [boxes])
+
+  // Fit the graph whenever a new layout is ready or filters change which packages are shown,
+  // not on every selection that recomputes the same set
+  const visibleKey = useMemo(() => (visible ? Array.from(visible).sort().join("\u0000") : ""), [visible])
+  useEffect(fit, [positions, visibleKey])
+
+  // Bring a package selected elsewhere, in the sidebar or the search, into view
+  useEffect(() => {
+    const box = selectedModule ? boxes.get(selectedModule) : undefined
+    const container = containerRef.current
+    if (!box || !container) return
+    const { width, height } = container.getBoundingClientRect()
+    setTransform((current) => {
+      const screenX = box.x * current.k + current.x
+      const screenY = box.y * current.k + current.y
+      if (screenX > 0 && screenX < width && screenY > 0 && screenY < height) return current
+      return { ...current, x: width / 2 - box.x * current.k, y: height / 2 - box.y * current.k }
+    })
+  }, [selectedModule])
+
+  // Zoom about the cursor. React's wheel listeners are passive, so the page would scroll too.
+  useEffect(() => {
+    const svg = svgRef.current
+    if (!svg) return
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      const rect = svg.getBoundingClientRect()
+      const pointerX = e.clientX - rect.left
+      const pointerY = e.clientY - rect.top
+      setTransform((current) => {
+        const k = Math.min(Math.max(current.k * Math.exp(-e.deltaY * 0.0015), MIN_ZOOM), MAX_ZOOM)
+        return {
+          k,
+          x: pointerX - ((pointerX - current.x) * k) / current.k,
+          y: pointerY - ((pointerY - current.y) * k) / current.k,
+        }
+      })
+    }
+    svg.addEventListener("wheel", handleWheel, { passive: false })
+    return () => svg.removeEventListener("wheel", handleWheel)
+  }, [])
+
+  const handleNodeClick = useCallback(
+    (nodeId: string) => {
+      // The end of a drag that started on a package isn't a click
+      if (drag.current?.moved) return
+      setSelectedNode(nodeId)
+      onSelectNode(nodeId)
+    },
+    [onSelectNode],
+  )
+
+  const showLabels = transform.k >= LABEL_ZOOM || isExporting
+
+  // The whole graph as SVG, or as PNG rasterized from it, in the colors of the theme
+  useEffect(() => {
+    if (!onExporterChange) return
+    onExporterChange({
+      formats: ["png", "png-transparent", "svg"],
+      exportView: async (format) => {
+        if (format === "glb") throw new Error("The 2D view can't be exported as a 3D scene, switch to 3D")
+        if (!svgRef.current || boxes.size === 0) throw new Error("Nothing to export yet")
+        const { x, y, width, height } = boxBounds(Array.from(boxes.values()))
+        const bounds = { x: x - EXPORT_MARGIN, y: y - EXPORT_MARGIN, width: width + 2 * EXPORT_MARGIN, height: height + 2 * EXPORT_MARGIN }
+        const background = format === "png-transparent" ? null : isDark ? "#000000" : "#f8fafc"
+
+        flushSync(() => setIsExporting(true))
+        try {
+          const svg = standaloneSvg(svgRef.current, bounds, background)
+          return format === "svg" ? new Blob([svg], { type: "image/svg+xml" }) : svgToPng(svg, bounds.width, bounds.height)
+        } finally {
+          setIsExporting(false)
+        }
+      },
+    })
+  }, [boxes, isDark, onExporterChange])
+  useEffect(() => () => onExporterChange?.(null), [onExporterChange])
+
+  // The graph itself only changes with the layout, styles and hover, not with every pan and zoom
+  const content = useMemo(() => {
+    const edges: ThreeEdge[] = graph?.edges || NO_EDGES
+    const styled = filterEdgesByKind(edges, edgeKinds).flatMap((edge) => {
+      const source = boxes.get(edge.source)
+      const target = boxes.get(edge.target)
+      if (!source || !target || edge.source === edge.target) return []
+
+      const dx = target.x - source.x
+      const dy = target.y - source.y
+      const [startX, startY] = boxExit(source, dx, dy)
+      const [endX, endY] = boxExit(target, -dx, -dy)
+      // Bend every edge a little to the same side, so edges in both directions don't overlap
+      const controlX = (startX + endX) / 2 - (endY - startY) * 0.12
+      const controlY = (startY + endY) / 2 + (endX - startX) * 0.12
+      const style = edgeStyle(edge, { selectedNode, cycles, violations, edgeColor, dimmedEdgeColor })
+      return [
+        {
+          key: `${edge.source}\u0000${edge.target}\u0000${edge.kind || ""}`,
+          path: `M${startX},${startY} Q${controlX},${controlY} ${endX},${endY}`,
+          ...style,
+        },
+      ]
+    })
+    const markerColors = Array.from(new Set(styled.map((edge) => edge.color)))
+
+    return (
+      <>
+        <defs>
+          {markerColors.map((color, index) => (
+            <marker
+              key={color}
+              id={`graph-2d-arrow-${index}`}
+              viewBox="0 0 10 10"
+              refX="9"
+              refY="5"
+              markerWidth="6"
+              markerHeight="6"
+              orient="auto-start-reverse"
+            >
+              <path d="M0,0 L10,5 L0,10 z" fill={color} />
+            </marker>
+          ))}
+        </defs>
+
+        {styled.map((edge) => (
+          <path
+            key={edge.key}
+            d={edge.path}
+            fill="none"
+            stroke={edge.color}
+            strokeOpacity={edge.opacity}
+            strokeWidth={1.5}
+            strokeDasharray={edge.dashed ? "6 4" : undefined}
+            markerEnd={`url(#graph-2d-arrow-${markerColors.indexOf(edge.color)})`}
+          />
+        ))}
+
+        {Array.from(boxes.entries(), ([id, { node, label, x, y, width }]) => {
+          const isRemoved = node.diffStatus === "removed"
+          const isSelected = id === selectedNode && !isRemoved
+          const stroke = node.diffStatus ? DIFF_COLORS[node.diffStatus as DiffStatus] : nodeGlowColor(node, cycles, glowColor)
+          return (
+            <g
+              key={id}
+              transform={`translate(${x},${y})`}
+              opacity={isRemoved ? 0.4 : 1}
+              className={isRemoved ? undefined : "cursor-pointer"}
+              onClick={isRemoved ? undefined : () => handleNodeClick(id)}
+              onPointerEnter={() => setHoveredNode(id)}
+              onPointerLeave={() => setHoveredNode(null)}
+            >
+              <title>{node.label || id}</title>
+              <rect
+                x={-width / 2}
+                y={-NODE_HEIGHT / 2}
+                width={width}
+                height={NODE_HEIGHT}
+                rx={5}
+                fill={isSelected ? primaryColor : isDark ? "#0f172a" : "#ffffff"}
+                stroke={isSelected ? glowColor : stroke}
+                strokeWidth={isSelected || id === hoveredNode ? 2.5 : 1.5}
+                strokeDasharray={isRemoved ? "4 3" : undefined}
+              />
+              {(showLabels || isSelected || id === hoveredNode) && (
+                <text
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  fontSize={11}
+                  fill={isSelected ? "#ffffff" : isDark ? "#e2e8f0" : "#0f172a"}
+                  className="pointer-events-none select-none"
+                >
+                  {label}
+                </text>
+              )}
+            </g>
+          )
+        })}
+      </>
+    )
+  }, [graph, edgeKinds, boxes, selectedNode, hoveredNode, showLabels, cycles, violations, edgeColor, dimmedEdgeColor, glowColor, isDark, handleNodeClick])
+
+  return (
+    <div ref={containerRef} className={`relative h-full w-full ${isDark ? "bg-black" : "bg-slate-50"}`}>
+      <svg
+        ref={svgRef}
+        className="h-full w-full touch-none cursor-grab active:cursor-grabbing"
+        onPointerDown={(e) => {
+          drag.current = { pointerX: e.clientX, pointerY: e.clientY, x: transform.x, y: transform.y, moved: false }
+        }}
+        onPointerMove={(e) => {
+          const current = drag.current
+          if (!current || e.buttons === 0) return
+          const dx = e.clientX - current.pointerX
+          const dy = e.clientY - current.pointerY
+          if (!current.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return
+          current.moved = true
+          setTransform((previous) => ({ ...previous, x: current.x + dx, y: current.y + dy }))
+        }}
+        onPointerUp={() => {
+          // Cleared after the click that follows, which has to know whether this was a drag
+          setTimeout(() => (drag.current = null))
+        }}
+        onDoubleClick={fit}
+      >
+        <g transform={`translate(${transform.x},${transform.y}) scale(${transform.k})`}>{content}</g>
+      </svg>
+
+      {/* Instructions */}
+      <div
+        className={`absolute bottom-4 left-4 p-3 ${
+          isDark ? "bg-gray-900/70 text-white" : "bg-white/70 text-gray-900 border border-gray-200"
+        } text-xs rounded-lg backdrop-blur-sm pointer-events-none`}
+      >
+        <p>
+          🖱️ <strong>Controls:</strong> Drag to pan, scroll to zoom, double-click to fit
+        </p>
+      </div>
+
+      {isComputing && (
+        <div
+          className={`absolute top-16 left-1/2 -translate-x-1/2 p-3 ${
+            isDark ? "bg-gray-900/70 text-white" : "bg-white/70 text-gray-900 border border-gray-200"
+          } text-xs rounded-lg backdrop-blur-sm pointer-events-none`}
+        >
+          Laying out {graph?.nodes.length} packages…
+        </div>
+      )}
+
+      <GraphLegend
+        comparison={comparison}
+        ecosystems={ecosystems}
+        cycles={cycles}
+        violations={violations}
+        glowColor={glowColor}
+        isDark={isDark}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+"use client"
+import { SlidersHorizontal } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Input } from "@/components/ui/input"
+import { EMPTY_GRAPH_FILTER, FOCUS_HOPS, activeFilterCount, nodeGroup, nodeTags } from "@/lib/graph"
+import { GraphFilterMenuProps } from "@/types"
+
+const hopsLabel = (hops: number) => (hops === Infinity ? "Whole closure" : hops === 1 ? "1 hop" : `${hops} hops`)
+
+// Toggle a value in a list of picked values
+const toggle = (values: string[], value: string, checked: boolean) =>
+  checked ? [...values, value] : values.filter((other) => other !== value)
+
+// Narrow the graph down by directory glob, scope and tag, or to the neighborhood of the selected package
+export function GraphFilterMenu({ nodes, value, onChange, canFocus, className }: GraphFilterMenuProps) {
+  const count = (values: string[]) => {
+    const counts = new Map<string, number>()
+    for (const key of values) counts.set(key, (counts.get(key) || 0) + 1)
+    return Array.from(counts).sort(([a], [b]) => a.localeCompare(b))
+  }
+  const scopes = count(nodes.map(nodeGroup))
+  const tags = count(nodes.flatMap(nodeTags))
+  const active = activeFilterCount(value, canFocus)
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className={className}>
+          <SlidersHorizontal className="mr-1 h-3 w-3" />
+          Filters{active > 0 ? ` (${active})` : ""}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="max-h-[70vh] w-64 overflow-y-auto">
+        <DropdownMenuLabel>Directory</DropdownMenuLabel>
+        <div className="px-2 pb-2">
+          <Input
+            value={value.directory}
+            placeholder="packages/ui-*"
+            className="h-8 text-xs"
+            onChange={(e) => onChange({ ...value, directory: e.target.value })}
+            // The menu would jump to items starting with the typed letter
+            onKeyDown={(e) => e.stopPropagation()}
+          />
+        </div>
+
+        {scopes.length > 1 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Scope</DropdownMenuLabel>
+            {scopes.map(([scope, size]) => (
+              <DropdownMenuCheckboxItem
+                key={scope}
+                checked={value.scopes.includes(scope)}
+                onSelect={(e) => e.preventDefault()}
+                onCheckedChange={(checked) => onChange({ ...value, scopes: toggle(value.scopes, scope, checked) })}
+              >
+                <span className="flex-1 truncate">{scope}</span>
+                <span className="ml-4 text-xs text-muted-foreground">{size}</span>
+              </DropdownMenuCheckboxItem>
+            ))}
+          </>
+        )}
+
+        {tags.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Tag</DropdownMenuLabel>
+            {tags.map(([tag, size]) => (
+              <DropdownMenuCheckboxItem
+                key={tag}
+                checked={value.tags.includes(tag)}
+                onSelect={(e) => e.preventDefault()}
+                onCheckedChange={(checked) => onChange({ ...value, tags: toggle(value.tags, tag, checked) })}
+              >
+                <span className="flex-1 truncate">{tag}</span>
+                <span className="ml-4 text-xs text-muted-foreground">{size}</span>
+              </DropdownMenuCheckboxItem>
+            ))}
+          </>
+        )}
+
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>
+          Focus on selected package
+          {!canFocus && <span className="block text-xs font-normal text-muted-foreground">Select a package first</span>}
+        </DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={value.focusHops === null ? "off" : String(value.focusHops)}
+          onValueChange={(hops) => onChange({ ...value, focusHops: hops === "off" ? null : Number(hops) })}
+        >
+          <DropdownMenuRadioItem value="off" onSelect={(e) => e.preventDefault()}>
+            Off
+          </DropdownMenuRadioItem>
+          {FOCUS_HOPS.map((hops) => (
+            <DropdownMenuRadioItem key={hops} value={String(hops)} onSelect={(e) => e.preventDefault()}>
+              {hopsLabel(hops)}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+
+        <DropdownMenuSeparator />
+        <DropdownMenuItem disabled={activeFilterCount(value, true) === 0} onSelect={() => onChange(EMPTY_GRAPH_FILTER)}>
+          Clear filters
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,68 @@
+"use client"
+
+import { CYCLE_COLOR, DIFF_COLORS, ECOSYSTEM_COLORS, ECOSYSTEM_LABELS, RULE_VIOLATION_COLOR } from "@/lib/graph"
+import { GraphLegendProps } from "@/types"
+
+// What the colors of the graph mean: the changes of a comparison, or the ecosystems, circular
+// dependencies and rule violations of a single analysis
+export function GraphLegend({ comparison, ecosystems, cycles, violations, glowColor, isDark }: GraphLegendProps) {
+  return (
+    <>
+      {/* Legend for comparisons */}
+      {comparison && (
+        <div
+          className={`absolute top-4 left-4 p-3 ${
+            isDark ? "bg-gray-900/70 text-white" : "bg-white/70 text-gray-900 border border-gray-200"
+          } text-xs rounded-lg backdrop-blur-sm pointer-events-none space-y-1`}
+        >
+          <p className="font-medium">
+            {comparison.pullRequest
+              ? `#${comparison.pullRequest.number} ${comparison.pullRequest.title || ""}`
+              : `${comparison.base.ref}...${comparison.head.ref}`}
+          </p>
+          <p style={{ color: DIFF_COLORS.added }}>
+            + {comparison.diff.addedPackages.length} packages, {comparison.diff.addedEdges.length} dependencies
+          </p>
+          <p style={{ color: DIFF_COLORS.removed }}>
+            − {comparison.diff.removedPackages.length} packages, {comparison.diff.removedEdges.length} dependencies
+          </p>
+          {comparison.diff.newCycles.length > 0 && (
+            <p style={{ color: DIFF_COLORS.removed }}>{comparison.diff.newCycles.length} new circular dependencies</p>
+          )}
+        </div>
+      )}
+
+      {/* Legend of ecosystems for mixed-language repositories, and of circular dependencies */}
+      {!comparison && (ecosystems.length > 1 || cycles.members.size > 0 || violations.size > 0) && (
+        <div
+          className={`absolute top-4 left-4 p-3 ${
+            isDark ? "bg-gray-900/70 text-white" : "bg-white/70 text-gray-900 border border-gray-200"
+          } text-xs rounded-lg backdrop-blur-sm pointer-events-none space-y-1`}
+        >
+          {ecosystems.length > 1 &&
+            ecosystems.map((ecosystem) => (
+              <p key={ecosystem} className="flex items-center gap-2">
+                <span
+                  className="inline-block h-2 w-2 rounded-full"
+                  style={{ backgroundColor: ecosystem === "npm" ? glowColor : ECOSYSTEM_COLORS[ecosystem] }}
+                />
+                {ECOSYSTEM_LABELS[ecosystem]}
+              </p>
+            ))}
+          {cycles.members.size > 0 && (
+            <p className="flex items-center gap-2">
+              <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: CYCLE_COLOR }} />
+              {cycles.members.size} packages in circular dependencies, dashed edges break them
+            </p>
+          )}
+          {violations.size > 0 && (
+            <p className="flex items-center gap-2">
+              <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: RULE_VIOLATION_COLOR }} />
+              {violations.size} dependencies break architecture rules
+            </p>
+          )}
+        </div>
+      )}
+    </>
+  )
+}
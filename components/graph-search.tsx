@@ -0,0 +1,89 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Package, Search } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { CommandDialog, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandShortcut } from "@/components/ui/command"
+import { GraphSearchProps } from "@/types"
+
+// Results shown at a time, big monorepos have thousands of packages
+const MAX_RESULTS = 50
+
+// Command palette over the package names and directories, opened with the button or Ctrl/⌘+K.
+// Picking a package selects it, which moves the camera to it.
+export function GraphSearch({ nodes, onSelect, className }: GraphSearchProps) {
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState("")
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault()
+        setOpen((current) => !current)
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  // Names starting with the query first, then names containing it, then matching directories
+  const results = useMemo(() => {
+    const search = query.trim().toLowerCase()
+    const rank = (id: string, directory: string) => {
+      const name = id.toLowerCase()
+      if (!search) return 0
+      if (name.startsWith(search) || name.split("/").pop()!.startsWith(search)) return 0
+      if (name.includes(search)) return 1
+      if (directory.toLowerCase().includes(search)) return 2
+      return -1
+    }
+    return nodes
+      .map((node) => ({ node, directory: node.data?.directory || "", rank: rank(node.id, node.data?.directory || "") }))
+      .filter((result) => result.rank >= 0)
+      .sort((a, b) => a.rank - b.rank || a.node.id.length - b.node.id.length || a.node.id.localeCompare(b.node.id))
+      .slice(0, MAX_RESULTS)
+  }, [nodes, query])
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className={className} onClick={() => setOpen(true)}>
+        <Search className="mr-1 h-3 w-3" />
+        Search
+        <kbd className="ml-2 rounded border px-1 text-[10px] text-muted-foreground">⌘K</kbd>
+      </Button>
+      <CommandDialog
+        open={open}
+        onOpenChange={(next) => {
+          setOpen(next)
+          if (!next) setQuery("")
+        }}
+        label="Search packages"
+        // Results are already filtered and capped above
+        shouldFilter={false}
+      >
+        <CommandInput placeholder="Search packages…" value={query} onValueChange={setQuery} />
+        <CommandList>
+          <CommandEmpty>No packages found.</CommandEmpty>
+          <CommandGroup heading={`Packages (${nodes.length})`}>
+            {results.map(({ node, directory }) => (
+              <CommandItem
+                key={node.id}
+                value={node.id}
+                onSelect={() => {
+                  onSelect(node.id)
+                  setOpen(false)
+                  setQuery("")
+                }}
+              >
+                <Package />
+                <span className="truncate">{node.id}</span>
+                {directory && directory !== node.id && <CommandShortcut className="tracking-normal">{directory}</CommandShortcut>}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+      </CommandDialog>
+    </>
+  )
+}
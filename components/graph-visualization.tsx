@@ -2,28 +2,27 @@
 
 import { useEffect, useState, useRef, useMemo } from "react"
 import dynamic from "next/dynamic"
-import { AlertTriangle } from "lucide-react"
+import { AlertTriangle, Box, Square } from "lucide-react"
 import { toast } from "sonner"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
 import { useTheme } from "next-themes"
-import { GraphVisualizationProps, AnalysisData, Dimensions } from "@/types"
-
-// Create a fallback visualization component
-function FallbackVisualization() {
-  const { theme } = useTheme()
-  const isDark = theme === "dark"
-
-  return (
-    <div className={`flex h-full w-full items-center justify-center ${isDark ? "bg-black" : "bg-gray-100"}`}>
-      <div className="max-w-md p-6 text-center">
-        <div className="mb-4 text-4xl">📊</div>
-        <h3 className={`mb-2 text-lg font-medium ${isDark ? "text-white" : "text-gray-900"}`}>Static Visualization</h3>
-        <p className={`text-sm ${isDark ? "text-gray-400" : "text-gray-600"}`}>
-          3D visualization could not be loaded. Enter a GitHub repository URL to analyze its structure.
-        </p>
-      </div>
-    </div>
-  )
+import { EdgeKindFilter } from "@/components/edge-kind-filter"
+import { ExportMenu } from "@/components/export-menu"
+import { Graph2D } from "@/components/graph-2d"
+import { GraphFilterMenu } from "@/components/graph-filter-menu"
+import { GraphSearch } from "@/components/graph-search"
+import { LayoutPicker } from "@/components/layout-picker"
+import { GraphVisualizationProps, AnalysisData, Dimensions, GraphViewState, ViewExporter } from "@/types"
+
+// Whether the browser can create a WebGL context at all, the 3D view is useless without one
+function supportsWebGL() {
+  try {
+    const canvas = document.createElement("canvas")
+    return Boolean(canvas.getContext("webgl2") || canvas.getContext("webgl"))
+  } catch {
+    return false
+  }
 }
 
 // Loading component that respects theme
@@ -52,10 +51,21 @@ export function GraphVisualization({
   onSelectNode,
   isDetailView = false,
   selectedModule = null, // Explicitly receive the selected module
+  edgeKinds,
+  onEdgeKindsChange,
+  viewState,
+  onViewStateChange,
 }: GraphVisualizationProps) {
   const [error, setError] = useState<string | null>(null)
   const containerRef = useRef<HTMLDivElement | null>(null)
   const [dimensions, setDimensions] = useState<Dimensions>({ width: 0, height: 0 })
+  const [webGLAvailable, setWebGLAvailable] = useState(true)
+  // Image and scene exports of whichever view is shown
+  const [viewExporter, setViewExporter] = useState<ViewExporter | null>(null)
+  // Layout, view, filters and camera are kept by the page, so they survive the visualization
+  // remounting for a new analysis and end up in the link
+  const { layout, view, filter } = viewState
+  const updateViewState = (changes: Partial<GraphViewState>) => onViewStateChange({ ...viewState, ...changes })
   const { theme } = useTheme()
   const isDark = theme === "dark"
 
@@ -83,6 +93,14 @@ export function GraphVisualization({
   }, []);
 
 
+  // Without WebGL the 2D view is the only one
+  useEffect(() => {
+    if (!supportsWebGL()) {
+      setWebGLAvailable(false)
+      updateViewState({ view: "2d" })
+    }
+  }, [])
+
   // Detect WebGL context lost globally and set error only if 3D was rendered and not already in error
   useEffect(() => {
     function handleContextLost(e: Event) {
@@ -103,12 +121,18 @@ export function GraphVisualization({
     const base =
       (analysisData.owner || "") +
       (analysisData.repo || "") +
+      (analysisData.revision?.commit || "") +
+      (analysisData.revision?.path || "") +
+      (analysisData.comparison?.base.commit || "") +
       (analysisData.graph?.nodes?.length || 0) +
       (analysisData.graph?.edges?.length || 0);
     return "three-visualization-" + base;
   }, [
     analysisData?.owner,
     analysisData?.repo,
+    analysisData?.revision?.commit,
+    analysisData?.revision?.path,
+    analysisData?.comparison?.base.commit,
     analysisData?.graph?.nodes?.length,
     analysisData?.graph?.edges?.length,
   ]);
@@ -131,6 +155,15 @@ export function GraphVisualization({
                 >
                   Retry Visualization
                 </button>
+                <button
+                  className="mt-4 ml-2 px-4 py-2 rounded border border-current text-xs"
+                  onClick={() => {
+                    setError(null)
+                    updateViewState({ view: "2d" })
+                  }}
+                >
+                  Switch to 2D
+                </button>
               </AlertDescription>
             </Alert>
           </div>
@@ -138,7 +171,20 @@ export function GraphVisualization({
       )
     }
 
-    // console.log({analysisData})
+    if (view === "2d") {
+      return (
+        <Graph2D
+          analysisData={analysisData}
+          onSelectNode={onSelectNode}
+          selectedModule={selectedModule}
+          theme={theme}
+          edgeKinds={edgeKinds}
+          layout={layout}
+          filter={filter}
+          onExporterChange={setViewExporter}
+        />
+      )
+    }
 
     return (
       <div className="h-full w-full">
@@ -150,6 +196,12 @@ export function GraphVisualization({
           selectedModule={selectedModule}
           dimensions={dimensions}
           theme={theme}
+          edgeKinds={edgeKinds}
+          layout={layout}
+          filter={filter}
+          camera={viewState.camera}
+          onCameraChange={(camera) => updateViewState({ camera })}
+          onExporterChange={setViewExporter}
         />
       </div>
     )
@@ -161,6 +213,8 @@ export function GraphVisualization({
     isDetailView,
     selectedModule,
     threeVisKey,
+    edgeKinds,
+    viewState,
   ]);
 
   return (
@@ -170,6 +224,31 @@ export function GraphVisualization({
       style={{ minHeight: "500px" }} // Ensure minimum height
     >
       {visualizationComponent}
+
+      {analysisData && (
+        <div className="absolute top-4 right-4 z-10 flex gap-2">
+          <GraphSearch nodes={analysisData.graph.nodes} onSelect={onSelectNode} />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!webGLAvailable}
+            title={webGLAvailable ? undefined : "WebGL is not available in this browser"}
+            onClick={() => updateViewState({ view: view === "3d" ? "2d" : "3d" })}
+          >
+            {view === "3d" ? <Square className="mr-1 h-3 w-3" /> : <Box className="mr-1 h-3 w-3" />}
+            {view === "3d" ? "2D" : "3D"}
+          </Button>
+          <LayoutPicker value={layout} onChange={(layout) => updateViewState({ layout })} />
+          <EdgeKindFilter edges={analysisData.graph.edges} value={edgeKinds} onChange={onEdgeKindsChange} />
+          <GraphFilterMenu
+            nodes={analysisData.graph.nodes}
+            value={filter}
+            onChange={(filter) => updateViewState({ filter })}
+            canFocus={Boolean(selectedModule)}
+          />
+          <ExportMenu analysisData={analysisData} edgeKinds={edgeKinds} viewExporter={viewExporter} />
+        </div>
+      )}
     </div>
   )
 }
@@ -1,14 +1,20 @@
 "use client"
 
-import { useState } from "react"
+import { useRef, useState } from "react"
 import { motion } from "framer-motion"
-import { Search, AlertTriangle, Database, Waypoints } from "lucide-react"
+import { Search, AlertTriangle, Database, Waypoints, Upload } from "lucide-react"
 import { toast } from "sonner"
 import { Input } from "@/components/ui/input"
-import { analyzeRepository } from "@/app/actions"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { analyzeArchive, analyzeRepository } from "@/app/actions"
+import { startAnalysisJob } from "@/app/api/v1/analyses/actions"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { useTheme } from "next-themes"
-import {  HeroProps } from "@/types"
+import { AnalysisProgressPanel } from "@/components/analysis-progress"
+import { followAnalysisJob } from "@/lib/analysis-stream"
+import { isLocalPath } from "@/lib/sources/paths"
+import { AnalysisProgress, AnalysisSource, Graph, HeroProps, RepositoryAnalysisResponse } from "@/types"
 import { ShimmerButton } from "@/components/magicui/shimmer-button"
 import { InteractiveGridPattern } from "@/components/magicui/interactive-grid-pattern"
 import { cn } from "@/lib/utils"
@@ -16,46 +22,96 @@ import { AuroraText } from "@/components/magicui/aurora-text";
 
 const EXAMPLE_REPOS = ["vercel/next.js", "facebook/react", "microsoft/vscode", "angular/angular"]
 
+// The file counter a progress line ticks ("package.json 37/180 read" -> "packages package.json"),
+// null for milestones like "Tree fetched"
+const counterOf = ({ stage, message, total }: AnalysisProgress) =>
+  total === undefined ? null : `${stage} ${message.replace(/ \d+\/\d+ read$/, "")}`
+
 export function Hero({ onAnalysisComplete }: HeroProps) {
   const [repoUrl, setRepoUrl] = useState<string>("")
   const [isLoading, setIsLoading] = useState<boolean>(false)
   const [error, setError] = useState<string | null>(null)
+  // Also parse the sources for imports, slower but finds undeclared and unused dependencies
+  const [deep, setDeep] = useState<boolean>(false)
+  // Progress of a remote analysis streamed from the job API, with the packages found so far
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null)
+  const [log, setLog] = useState<string[]>([])
+  const [preview, setPreview] = useState<Graph | null>(null)
+  // Counter of the last log line, the next tick of it replaces the line
+  const counterRef = useRef<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
   const { theme } = useTheme()
   const isDark = theme === "dark"
 
+  // `source` is what a link needs to analyze the repository again, uploads don't have one
+  const handleAnalysisResult = (result: RepositoryAnalysisResponse, source?: AnalysisSource) => {
+    if (result.success) {
+      onAnalysisComplete(result.data, source)
+
+      // e.g. "owner/repo@release-2.x/packages", or "owner/repo#42" for a pull request
+      const { revision, comparison } = result.data
+      const name =
+        `${result.data.owner}/${result.data.repo}` +
+        (comparison
+          ? comparison.pullRequest
+            ? `#${comparison.pullRequest.number}`
+            : ` ${comparison.base.ref}...${comparison.head.ref}`
+          : (revision?.ref ? `@${revision.ref}` : "") + (revision?.path ? `${revision.ref ? "" : ":"}/${revision.path}` : ""))
+
+      if (result.fromCache) {
+        toast.success("Analysis Complete (Cached)", {
+          description: `Using cached analysis for ${name}`,
+          icon: <Database className="h-4 w-4" />,
+        })
+      } else {
+        toast.success("Analysis Complete", {
+          description: `Successfully analyzed ${name}`,
+        })
+      }
+    } else {
+      setError(result.error)
+      toast.error("Analysis Failed", {
+        description: result.error,
+      })
+    }
+  }
+
+  // One log line per stage, the counters of a stage update its line in place
+  const handleProgress = (next: AnalysisProgress) => {
+    const counter = counterOf(next)
+    const ticking = counter !== null && counterRef.current === counter
+    counterRef.current = counter
+    setProgress(next)
+    setLog((lines) => (ticking ? [...lines.slice(0, -1), next.message] : [...lines, next.message]))
+    if (next.graph) setPreview(next.graph)
+  }
+
+  // Local paths can't run as jobs, they are analyzed in one request without progress
+  const analyze = async (url: string): Promise<RepositoryAnalysisResponse> => {
+    counterRef.current = null
+    setProgress(null)
+    setLog([])
+    setPreview(null)
+    if (isLocalPath(url)) return analyzeRepository(url, { deep })
+    const job = await startAnalysisJob(url, deep)
+    return job.success ? followAnalysisJob(job.id, handleProgress) : job
+  }
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     setError(null)
 
     if (!repoUrl) {
-      setError("Please enter a GitHub repository URL")
+      setError("Please enter a repository URL or local path")
       return
     }
 
     setIsLoading(true)
 
     try {
-      const result = await analyzeRepository(repoUrl)
-
-      if (result.success) {
-        onAnalysisComplete(result.data)
-
-        if (result.fromCache) {
-          toast.success("Analysis Complete (Cached)", {
-            description: `Using cached analysis for ${result.data.owner}/${result.data.repo}`,
-            icon: <Database className="h-4 w-4" />,
-          })
-        } else {
-          toast.success("Analysis Complete", {
-            description: `Successfully analyzed ${result.data.owner}/${result.data.repo}`,
-          })
-        }
-      } else {
-        setError(result.error)
-        toast.error("Analysis Failed", {
-          description: result.error,
-        })
-      }
+      const result = await analyze(repoUrl.trim())
+
+      handleAnalysisResult(result, { url: repoUrl.trim(), deep })
     } catch (error: unknown) {
       console.error("Error in handleSubmit:", error)
       const errorMessage = error instanceof Error ? error.message : "Failed to analyze repository"
@@ -74,27 +130,9 @@ export function Hero({ onAnalysisComplete }: HeroProps) {
     setIsLoading(true)
 
     try {
-      const result = await analyzeRepository(`https://github.com/${repo}`)
-
-      if (result.success) {
-        onAnalysisComplete(result.data)
-
-        if (result.fromCache) {
-          toast.success("Analysis Complete (Cached)", {
-            description: `Using cached analysis for ${result.data.owner}/${result.data.repo}`,
-            icon: <Database className="h-4 w-4" />,
-          })
-        } else {
-          toast.success("Analysis Complete", {
-            description: `Successfully analyzed ${result.data.owner}/${result.data.repo}`,
-          })
-        }
-      } else {
-        setError(result.error)
-        toast.error("Analysis Failed", {
-          description: result.error,
-        })
-      }
+      const result = await analyze(`https://github.com/${repo}`)
+
+      handleAnalysisResult(result, { url: `https://github.com/${repo}`, deep })
     } catch (error: unknown) {
       console.error("Error in handleExampleClick:", error)
       const errorMessage = error instanceof Error ? error.message : "Failed to analyze repository"
@@ -107,6 +145,32 @@ export function Hero({ onAnalysisComplete }: HeroProps) {
     }
   }
 
+  const handleArchiveChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Allow selecting the same file again later
+    e.target.value = ""
+    if (!file) return
+
+    setError(null)
+    setIsLoading(true)
+
+    try {
+      const formData = new FormData()
+      formData.append("archive", file)
+      formData.append("deep", String(deep))
+      handleAnalysisResult(await analyzeArchive(formData))
+    } catch (error: unknown) {
+      console.error("Error in handleArchiveChange:", error)
+      const errorMessage = error instanceof Error ? error.message : "Failed to analyze archive"
+      setError(errorMessage)
+      toast.error("Error", {
+        description: errorMessage,
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   return (
     <section
       className={`relative flex items-center justify-center min-h-[calc(100vh-3.5rem)] w-full ${isDark ? "bg-black" : "bg-gray-50"}`}
@@ -179,7 +243,7 @@ export function Hero({ onAnalysisComplete }: HeroProps) {
               <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
               <Input
                 type="text"
-                placeholder="Paste GitHub repo URL"
+                placeholder="Paste a GitHub, GitLab, Bitbucket or Gitea URL"
                 className={`pl-8 ${
                   isDark ? "bg-gray-950 border-gray-800" : "bg-white border-gray-300"
                 } focus:border-blue-500`}
@@ -198,6 +262,17 @@ export function Hero({ onAnalysisComplete }: HeroProps) {
               </ShimmerButton>
           </form>
 
+          {isLoading && progress && (
+            <AnalysisProgressPanel progress={progress} log={log} graph={preview} isDark={isDark} />
+          )}
+
+          <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <Switch id="deep-analysis" checked={deep} onCheckedChange={setDeep} disabled={isLoading} />
+            <Label htmlFor="deep-analysis" className="font-normal">
+              Deep analysis (parse source imports)
+            </Label>
+          </div>
+
           <div className="flex flex-wrap justify-center gap-2 text-sm text-muted-foreground">
             <span>Try:</span>
             {EXAMPLE_REPOS.map((repo) => (
@@ -211,6 +286,25 @@ export function Hero({ onAnalysisComplete }: HeroProps) {
               </button>
             ))}
           </div>
+
+          <div className="flex justify-center text-sm text-muted-foreground">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".tar.gz,.tgz,.tar,.zip"
+              className="hidden"
+              onChange={handleArchiveChange}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 hover:text-foreground"
+              disabled={isLoading}
+            >
+              <Upload className="h-3 w-3" />
+              or upload a .tar.gz / .zip archive
+            </button>
+          </div>
         </motion.div>
       </div>
     </section>
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect, useCallback, useRef } from "react"
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
 import {
   ChevronLeft,
   ChevronRight,
@@ -23,11 +23,18 @@ import { useTextToSpeech } from "@/hooks/use-text-to-speech"
 import { useNarration } from "@/context/narration-context"
 import { 
   InsightsPanelProps, 
-  Graph, 
+  InsightsTab,
   InsightItem, 
   StatsData, 
 } from "@/types"
 import { AudioPlayerButton } from "@/components/ui/audio-player-button"
+import { EdgeKindFilter } from "@/components/edge-kind-filter"
+import { DriftReport } from "@/components/drift-report"
+import { DependencyFootprint } from "@/components/dependency-footprint"
+import { PackageMetrics } from "@/components/package-metrics"
+import { isTabShown } from "@/lib/deep-link"
+import { analyzeDrift } from "@/lib/drift"
+import { analyzeCycles, computeMetrics, filterEdgesByKind, isDependencyEdge } from "@/lib/graph"
 
 // Add export keyword to the beginning of the function declaration
 export function InsightsPanel({
@@ -38,6 +45,10 @@ export function InsightsPanel({
   onBackToVisualization = () => {},
   isCollapsed = false,
   onToggleCollapse = () => {},
+  edgeKinds,
+  onEdgeKindsChange,
+  initialTab = null,
+  onTabChange,
 }: InsightsPanelProps) {
   // Define all hooks at the beginning to avoid "Rendered fewer hooks than expected" errors
   const [insights, setInsights] = useState<InsightItem[]>([])
@@ -53,9 +64,9 @@ export function InsightsPanel({
   const [isAnalyzingModule, setIsAnalyzingModule] = useState<boolean>(false)
   const [error, setError] = useState<string | null>(null)
   const [fromCache, setFromCache] = useState<boolean>(false)
-  const [activeTab, setActiveTab] = useState<"ai" | "stats" | "modules">("ai")
-  const [circularDeps, setCircularDeps] = useState<Array<string[]>>([])
-  const [importCounts, setImportCounts] = useState<Record<string, number>>({})
+  const [activeTab, setActiveTab] = useState<InsightsTab>(initialTab || "ai")
+  // Module the AI tab was last opened for, a link's tab stays open for its module
+  const tabModuleRef = useRef<string | null>(initialTab ? selectedModule : null)
   const [isModuleAnalysisEnabled, setIsModuleAnalysisEnabled] = useState<boolean>(false)
   const [repoDescription, setRepoDescription] = useState<string>("")
   const [isGeneratingDescription, setIsGeneratingDescription] = useState<boolean>(false)
@@ -193,6 +204,11 @@ export function InsightsPanel({
     }
   }, [isCollapsed, onToggleCollapse])
 
+  // The page keeps the tab in the link
+  useEffect(() => {
+    onTabChange?.(activeTab)
+  }, [activeTab])
+
   // Update the isModuleAnalysisEnabled state based on analysisData
   useEffect(() => {
     if (isMountedRef.current) {
@@ -202,10 +218,10 @@ export function InsightsPanel({
     }
   }, [analysisData])
 
-  // Update active tab when isDetailView changes
+  // A tab the new view doesn't show falls back to the AI tab
   useEffect(() => {
     if (!initialRenderRef.current && isMountedRef.current) {
-      setActiveTab("ai")
+      setActiveTab((tab) => (isTabShown(tab, isDetailView) ? tab : "ai"))
     }
     initialRenderRef.current = false
   }, [isDetailView])
@@ -503,8 +519,11 @@ export function InsightsPanel({
   // Update active module when selectedModule changes
   useEffect(() => {
     if (selectedModule && analysisData) {
-      // Ensure the AI tab is active in the details view
-      setActiveTab("ai")
+      // Ensure the AI tab is active in the details view, once per selected module
+      if (tabModuleRef.current !== selectedModule) {
+        tabModuleRef.current = selectedModule
+        setActiveTab("ai")
+      }
 
       const analyze = async () => {
         await analyzeModuleWithAI(selectedModule, false)
@@ -529,36 +548,31 @@ export function InsightsPanel({
     }
   }, [analysisData, isDetailView, generateRepoDescription, isInitialDescription])
 
-  // Generate insights and stats when analysis data changes
-  useEffect(() => {
-    if (!analysisData || !analysisData.graph || !analysisData.graph.nodes) {
-      // Reset insights and stats if no valid data
-      setInsights([])
-      setStats({
-        packages: 0,
-        dependencies: 0,
-        circularDeps: 0,
-        avgDepth: 0,
-        mostConnected: [],
-      })
-      setCircularDeps([])
-      setImportCounts({})
-      return
-    }
+  // Stats and cycles only count the edge kinds picked in the filter
+  const filteredGraph = useMemo(
+    () => (analysisData?.graph ? { ...analysisData.graph, edges: filterEdgesByKind(analysisData.graph.edges, edgeKinds) } : null),
+    [analysisData, edgeKinds],
+  )
 
-    try {
-      // Check for circular dependencies
-      const newCircularDeps = findCircularDependencies(analysisData.graph)
-      setCircularDeps(newCircularDeps)
-
-      // Count imports
-      const newImportCounts = countImports(analysisData.graph)
-      setImportCounts(newImportCounts)
-    } catch (error) {
-      console.error("Error generating insights:", error)
-      // Don't update insights or stats if there's an error
-    }
-  }, [analysisData])
+  // Circular dependencies among the edges picked in the filter
+  const cycleReport = useMemo(() => (filteredGraph ? analyzeCycles(filteredGraph) : null), [filteredGraph])
+  const circularDeps = useMemo(
+    () => (cycleReport ? cycleReport.components.flatMap((component) => component.cycles) : []),
+    [cycleReport],
+  )
+
+  // Results cached before the drift pass existed don't carry a report, compute it here for them
+  const drift = useMemo(
+    () => (analysisData?.graph ? analysisData.drift ?? analyzeDrift(analysisData.graph) : null),
+    [analysisData],
+  )
+
+  // Layers, coupling and centrality of every package, over the same edges
+  const metrics = useMemo(() => (filteredGraph ? computeMetrics(filteredGraph) : null), [filteredGraph])
+  const importCounts = useMemo(
+    () => Object.fromEntries((metrics?.packages || []).map((pkg) => [pkg.id, pkg.afferent])),
+    [metrics],
+  )
 
   useEffect(() => {
     if (!analysisData || !analysisData.graph || !analysisData.graph.nodes) {
@@ -568,15 +582,37 @@ export function InsightsPanel({
 
     const newInsights: InsightItem[] = []
 
-    if (circularDeps.length > 0) {
+    if (cycleReport && cycleReport.components.length > 0) {
+      const breakEdges = cycleReport.components.flatMap((component) => component.breakEdges)
+      const minimal = cycleReport.components.every((component) => component.minimal)
       newInsights.push({
         id: 1,
         title: "Circular Dependencies",
-        description: `We detected ${circularDeps.length} circular dependencies. Consider refactoring to improve build performance.`,
+        description: `${cycleReport.components.length} ${
+          cycleReport.components.length === 1 ? "group" : "groups"
+        } of packages depend on each other in a circle (${cycleReport.components
+          .map((component) => component.nodes.length)
+          .join(", ")} packages, ${circularDeps.length}${cycleReport.truncated ? "+" : ""} cycles), highlighted in the graph. Removing ${
+          minimal ? "these" : "at most these"
+        } ${breakEdges.length} ${breakEdges.length === 1 ? "dependency" : "dependencies"} would break every cycle: ${breakEdges
+          .slice(0, 10)
+          .map((edge) => `${edge.source} → ${edge.target}`)
+          .join("; ")}${breakEdges.length > 10 ? `; and ${breakEdges.length - 10} more` : ""}.`,
         type: "warning",
       })
     }
 
+    if (analysisData.graph.nodes.length > 1 && analysisData.graph.edges.length === 0) {
+      newInsights.push({
+        id: 10,
+        title: "No Internal Dependencies",
+        description: `None of the ${analysisData.graph.nodes.length} packages depend on each other through package.json${
+          analysisData.deep ? " or source imports" : ""
+        }. They are independent, so the graph groups them by scope or directory instead of drawing edges.`,
+        type: "info",
+      })
+    }
+
     const highlyImported = Object.entries(importCounts)
       .filter(([_, count]) => count > 2)
       .sort(([_, countA], [__, countB]) => countB - countA)
@@ -593,136 +629,194 @@ export function InsightsPanel({
       })
     }
 
-    setInsights(newInsights)
-  }, [circularDeps, importCounts, analysisData])
-
-  useEffect(() => {
-    if (!analysisData || !analysisData.graph || !analysisData.graph.nodes) {
-      setStats({
-        packages: 0,
-        dependencies: 0,
-        circularDeps: 0,
-        avgDepth: 0,
-        mostConnected: [],
+    const conflicts = analysisData.graph.conflicts || []
+    if (conflicts.length > 0) {
+      newInsights.push({
+        id: 3,
+        title: "Duplicate Package Names",
+        description: `${conflicts.length} package name${conflicts.length === 1 ? " is" : "s are"} declared by more than one package.json: ${conflicts
+          .map((conflict) => `${conflict.name} (${conflict.paths.join(", ")})`)
+          .join("; ")}. Only the first occurrence is shown in the graph.`,
+        type: "warning",
       })
-      return
     }
 
-    const highlyImported = Object.entries(importCounts)
-      .filter(([_, count]) => count > 2)
-      .sort(([_, countA], [__, countB]) => countB - countA)
-
-    const newStats = {
-      packages: analysisData.graph.nodes.length,
-      dependencies: analysisData.graph.edges.length,
-      circularDeps: circularDeps.length,
-      avgDepth: calculateAverageDepth(analysisData.graph),
-      mostConnected: highlyImported.slice(0, 3).map(([name, count]) => ({ name, count })),
-    }
-
-    setStats(newStats)
-  }, [circularDeps, importCounts, analysisData])
-
-  // Helper function to find circular dependencies
-  function findCircularDependencies(graph: Graph): Array<string[]> {
-    if (!graph || !graph.nodes || !graph.edges) {
-      return []
+    const skipped = analysisData.skipped || []
+    if (skipped.length > 0) {
+      const reasons = Array.from(new Set(skipped.map((file) => file.reason)))
+      newInsights.push({
+        id: 4,
+        title: "Incomplete Analysis",
+        description: `${skipped.length} file${skipped.length === 1 ? " was" : "s were"} skipped: ${reasons.join("; ")}. Affected: ${skipped
+          .slice(0, 5)
+          .map((file) => file.path)
+          .join(", ")}${skipped.length > 5 ? ", ..." : ""}`,
+        type: "info",
+      })
     }
 
-    const circularDeps: Array<string[]> = []
-    const visited = new Set<string>()
-    const path: string[] = []
-
-    function dfs(node: string) {
-      if (path.includes(node)) {
-        const cycle = path.slice(path.indexOf(node))
-        circularDeps.push(cycle)
-        return
+    if (analysisData.deep) {
+      const undeclared = analysisData.graph.edges.flatMap((edge) => (edge.kind === "undeclared-import" ? [edge] : []))
+      const unused = analysisData.graph.edges.filter((edge) => isDependencyEdge(edge) && edge.unused)
+
+      if (undeclared.length > 0) {
+        newInsights.push({
+          id: 8,
+          title: "Undeclared Imports",
+          description: `${undeclared.length} package${undeclared.length === 1 ? " imports" : "s import"} workspace packages missing from their package.json: ${undeclared
+            .map((edge) => `${edge.source} → ${edge.target} (${edge.count} import${edge.count === 1 ? "" : "s"})`)
+            .join("; ")}. These builds only work because of hoisting or relative paths.`,
+          type: "warning",
+        })
       }
 
-      if (visited.has(node)) return
-
-      visited.add(node)
-      path.push(node)
-
-      const edges = graph.edges.filter((edge) => edge.source === node)
-      for (const edge of edges) {
-        dfs(edge.target)
+      if (unused.length > 0) {
+        newInsights.push({
+          id: 9,
+          title: "Unused Dependencies",
+          description: `${unused.length} declared workspace ${unused.length === 1 ? "dependency is" : "dependencies are"} never imported from source: ${unused
+            .map((edge) => `${edge.source} → ${edge.target}`)
+            .join("; ")}. Config and tooling packages (eslint, tsconfig) are expected here.`,
+          type: "suggestion",
+        })
       }
-
-      path.pop()
     }
 
-    for (const node of graph.nodes) {
-      dfs(node.id)
+    const majorDrift = drift?.external.filter((entry) => entry.severity === "major") || []
+    if (majorDrift.length > 0 || (drift?.internal.length || 0) > 0) {
+      newInsights.push({
+        id: 11,
+        title: "Version Drift",
+        description: [
+          majorDrift.length > 0 &&
+            `Workspaces disagree on the major version of ${majorDrift.length} external ${
+              majorDrift.length === 1 ? "dependency" : "dependencies"
+            }: ${majorDrift
+              .slice(0, 5)
+              .map((entry) => `${entry.dependency} (${entry.ranges.join(", ")})`)
+              .join("; ")}${majorDrift.length > 5 ? `; and ${majorDrift.length - 5} more` : ""}.`,
+          drift && drift.internal.length > 0 &&
+            `${drift.internal.length} workspace ${drift.internal.length === 1 ? "dependency excludes" : "dependencies exclude"} the current version of the package: ${drift.internal
+              .map((mismatch) => `${mismatch.package} → ${mismatch.dependency}@${mismatch.range} (is ${mismatch.version})`)
+              .join("; ")}.`,
+          "See the Drift tab for every package and range.",
+        ]
+          .filter(Boolean)
+          .join(" "),
+        type: "warning",
+      })
     }
 
-    return circularDeps
-  }
-
-  // Helper function to count imports
-  function countImports(graph: Graph): Record<string, number> {
-    if (!graph || !graph.nodes || !graph.edges) {
-      return {}
+    // One insight per broken architecture rule, ids from 20 on follow the order of the rules
+    const architecture = analysisData.architecture
+    architecture?.rules.forEach((rule, index) => {
+      const violations = architecture.violations.filter((violation) => violation.rule === index)
+      if (violations.length === 0) return
+      newInsights.push({
+        id: 20 + index,
+        title: "Architecture Rule Violated",
+        description: `${rule.description} (${rule.file}). ${violations.length} ${
+          violations.length === 1 ? "dependency breaks" : "dependencies break"
+        } it, drawn in red in the graph: ${violations
+          .slice(0, 10)
+          .map((violation) => `${violation.source} → ${violation.target}`)
+          .join("; ")}${violations.length > 10 ? `; and ${violations.length - 10} more` : ""}.`,
+        type: "warning",
+      })
+    })
+    if (architecture && architecture.violations.length === 0) {
+      newInsights.push({
+        id: 13,
+        title: "Architecture Rules Pass",
+        description: `All ${architecture.rules.length} architecture ${
+          architecture.rules.length === 1 ? "rule holds" : "rules hold"
+        }: ${architecture.rules.map((rule) => rule.description).join("; ")}.`,
+        type: "info",
+      })
     }
 
-    const counts: Record<string, number> = {}
-
-    for (const node of graph.nodes) {
-      counts[node.id] = 0
+    const duplicates = analysisData.lockfile?.duplicates || []
+    if (duplicates.length > 0) {
+      newInsights.push({
+        id: 12,
+        title: "Duplicate Dependencies",
+        description: `${analysisData.lockfile?.file} installs ${duplicates.length} external ${
+          duplicates.length === 1 ? "package" : "packages"
+        } at more than one version: ${duplicates
+          .slice(0, 5)
+          .map((duplicate) => `${duplicate.name} (${duplicate.versions.map((entry) => entry.version).join(", ")})`)
+          .join("; ")}${duplicates.length > 5 ? `; and ${duplicates.length - 5} more` : ""}.`,
+        type: "suggestion",
+      })
     }
 
-    for (const edge of graph.edges) {
-      counts[edge.target] = (counts[edge.target] || 0) + 1
-    }
+    const diff = analysisData.comparison?.diff
+    if (diff) {
+      const list = (items: string[]) => (items.length > 0 ? items.join(", ") : "none")
+      newInsights.push({
+        id: 5,
+        title: "Architectural Changes",
+        description: `Packages added: ${list(diff.addedPackages.map((node) => node.id))}. Removed: ${list(
+          diff.removedPackages.map((node) => node.id),
+        )}. Internal dependencies added: ${list(diff.addedEdges.map((edge) => `${edge.source} → ${edge.target}`))}. Removed: ${list(
+          diff.removedEdges.map((edge) => `${edge.source} → ${edge.target}`),
+        )}.`,
+        type: "info",
+      })
 
-    return counts
-  }
+      if (diff.newCycles.length > 0) {
+        newInsights.push({
+          id: 6,
+          title: "New Circular Dependencies",
+          description: `This change introduces ${diff.newCycles.length} circular ${diff.newCycles.length === 1 ? "dependency" : "dependencies"}: ${diff.newCycles
+            .map((cycle) => [...cycle, cycle[0]].join(" → "))
+            .join("; ")}`,
+          type: "warning",
+        })
+      }
 
-  // Helper function to calculate average depth
-  function calculateAverageDepth(graph: Graph): number {
-    if (!graph || !graph.nodes || !graph.edges) {
-      return 0
+      if (diff.versionChanges.length > 0) {
+        newInsights.push({
+          id: 7,
+          title: "External Dependency Changes",
+          description: diff.versionChanges
+            .slice(0, 10)
+            .map((change) => `${change.package}: ${change.dependency} ${change.from ?? "(new)"} → ${change.to ?? "(removed)"}`)
+            .join("; ") + (diff.versionChanges.length > 10 ? `; and ${diff.versionChanges.length - 10} more` : ""),
+          type: "info",
+        })
+      }
     }
 
-    // Find root nodes (nodes with no incoming edges)
-    const incomingEdges: Record<string, number> = {}
+    setInsights(newInsights)
+  }, [cycleReport, circularDeps, importCounts, analysisData, drift])
 
-    for (const edge of graph.edges) {
-      incomingEdges[edge.target] = (incomingEdges[edge.target] || 0) + 1
+  useEffect(() => {
+    if (!analysisData || !analysisData.graph || !analysisData.graph.nodes) {
+      setStats({
+        packages: 0,
+        dependencies: 0,
+        circularDeps: 0,
+        avgDepth: 0,
+        mostConnected: [],
+      })
+      return
     }
 
-    const rootNodes = graph.nodes.filter((node) => !incomingEdges[node.id]).map((node) => node.id)
-
-    if (rootNodes.length === 0) return 0
-
-    // Calculate max depth from each root node
-    const depths: number[] = []
-
-    for (const root of rootNodes) {
-      const visited = new Set<string>()
-      const queue: Array<{ node: string; depth: number }> = [{ node: root, depth: 0 }]
-      let maxDepth = 0
-
-      while (queue.length > 0) {
-        const { node, depth } = queue.shift()!
-
-        if (visited.has(node)) continue
-        visited.add(node)
-
-        maxDepth = Math.max(maxDepth, depth)
-
-        const outgoingEdges = graph.edges.filter((edge) => edge.source === node)
-        for (const edge of outgoingEdges) {
-          queue.push({ node: edge.target, depth: depth + 1 })
-        }
-      }
+    const highlyImported = Object.entries(importCounts)
+      .filter(([_, count]) => count > 2)
+      .sort(([_, countA], [__, countB]) => countB - countA)
 
-      depths.push(maxDepth)
+    const newStats = {
+      packages: analysisData.graph.nodes.length,
+      dependencies: (filteredGraph || analysisData.graph).edges.length,
+      circularDeps: circularDeps.length,
+      avgDepth: metrics?.averageDepth ?? 0,
+      mostConnected: highlyImported.slice(0, 3).map(([name, count]) => ({ name, count })),
     }
 
-    return depths.reduce((sum, depth) => sum + depth, 0) / depths.length
-  }
+    setStats(newStats)
+  }, [circularDeps, importCounts, metrics, analysisData, filteredGraph])
 
   const isValidAnalysisData =
     analysisData && analysisData.graph && analysisData.graph.nodes && analysisData.graph.nodes.length > 0
@@ -731,7 +825,7 @@ export function InsightsPanel({
   const handleTabChange = (value: string) => {
     if (isMountedRef.current) {
       console.log("Tab changed to:", value, "narration enabled:", narrationEnabled)
-      setActiveTab(value as "ai" | "stats" | "modules")
+      setActiveTab(value as InsightsTab)
     }
   }
 
@@ -785,6 +879,14 @@ export function InsightsPanel({
             <TabsTrigger value="stats" className={`flex-1 data-[state=active]:${isDark ? "bg-gray-800" : "bg-white"}`}>
               Stats
             </TabsTrigger>
+            {!isDetailView && (
+              <TabsTrigger
+                value="metrics"
+                className={`flex-1 data-[state=active]:${isDark ? "bg-gray-800" : "bg-white"}`}
+              >
+                Metrics
+              </TabsTrigger>
+            )}
             {!isDetailView && (
               <TabsTrigger
                 value="modules"
@@ -793,6 +895,14 @@ export function InsightsPanel({
                 Modules
               </TabsTrigger>
             )}
+            {!isDetailView && (
+              <TabsTrigger
+                value="drift"
+                className={`flex-1 data-[state=active]:${isDark ? "bg-gray-800" : "bg-white"}`}
+              >
+                Drift
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="ai" className="px-4 py-4 space-y-4">
@@ -1029,6 +1139,11 @@ export function InsightsPanel({
 
           <TabsContent value="stats" className="px-4 py-4">
             <div className="space-y-4">
+              {isValidAnalysisData && analysisData && (
+                <div className="flex justify-end">
+                  <EdgeKindFilter edges={analysisData.graph.edges} value={edgeKinds} onChange={onEdgeKindsChange} />
+                </div>
+              )}
               <div
                 className={`rounded-lg border border-input ${isDark ? "bg-gray-900/50" : "bg-gray-50"} p-3 shadow-sm`}
               >
@@ -1076,9 +1191,35 @@ export function InsightsPanel({
                   <p className="mt-2 text-sm text-muted-foreground">No connections found.</p>
                 )}
               </div>
+
+              {isValidAnalysisData && analysisData?.lockfile && (
+                <DependencyFootprint
+                  nodes={analysisData.graph.nodes}
+                  lockfile={analysisData.lockfile}
+                  isDark={isDark}
+                  onSelectPackage={setSelectedModule}
+                />
+              )}
             </div>
           </TabsContent>
 
+          <TabsContent value="metrics" className="px-4 py-4">
+            {!isValidAnalysisData || !metrics ? (
+              <div
+                className={`rounded-lg border border-input ${isDark ? "bg-gray-900/50" : "bg-gray-50"} p-3 shadow-sm`}
+              >
+                <p className="text-sm text-muted-foreground">Enter a GitHub repository URL to see package metrics.</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex justify-end">
+                  <EdgeKindFilter edges={analysisData.graph.edges} value={edgeKinds} onChange={onEdgeKindsChange} />
+                </div>
+                <PackageMetrics metrics={metrics} isDark={isDark} onSelectPackage={setSelectedModule} />
+              </div>
+            )}
+          </TabsContent>
+
           <TabsContent value="modules" className="px-4 py-4">
             <div className="space-y-2">
               {!isValidAnalysisData ? (
@@ -1117,13 +1258,25 @@ export function InsightsPanel({
                       }, 50)
                     }}
                   >
-                    <h3 className="font-medium">{node.id}</h3>
+                    <h3 className="font-medium">{node.label || node.id}</h3>
                     <p className="text-xs text-muted-foreground truncate">{node.data?.path || ""}</p>
                   </div>
                 ))
               )}
             </div>
           </TabsContent>
+
+          <TabsContent value="drift" className="px-4 py-4">
+            {!isValidAnalysisData || !drift ? (
+              <div
+                className={`rounded-lg border border-input ${isDark ? "bg-gray-900/50" : "bg-gray-50"} p-3 shadow-sm`}
+              >
+                <p className="text-sm text-muted-foreground">Enter a GitHub repository URL to see version drift.</p>
+              </div>
+            ) : (
+              <DriftReport report={drift} isDark={isDark} onSelectPackage={setSelectedModule} />
+            )}
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,355 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { useFrame, useThree } from "@react-three/fiber"
+import { MeshTransmissionMaterial, Text } from "@react-three/drei"
+import * as THREE from "three"
+import { LineMaterial } from "three/examples/jsm/lines/LineMaterial.js"
+import { LineSegments2 } from "three/examples/jsm/lines/LineSegments2.js"
+import { LineSegmentsGeometry } from "three/examples/jsm/lines/LineSegmentsGeometry.js"
+
+import { BatchedEdge, EdgeBatchesProps, FaceTextProps, InstancedNodesProps, NodeLabelsProps } from "@/types"
+
+// Frames between visibility checks while the camera moves
+const CULL_INTERVAL = 4
+const LABEL_INTERVAL = 10
+// Labels show up closer than this many cube sizes to the camera, at most MAX_LABELS at a time
+const LABEL_DISTANCE = 25
+const MAX_LABELS = 60
+// Edges are curves of this many segments, or straight lines once there are too many of them
+const CURVE_SEGMENTS = 8
+const CURVED_EDGE_LIMIT = 2000
+// Served with the app, without a font troika looks glyphs up on a public CDN
+const FACE_FONT = "/fonts/Inter_Bold.woff"
+
+// Scratch objects of the per frame checks, so they don't allocate
+const matrix = new THREE.Matrix4()
+const rotation = new THREE.Quaternion()
+const scale = new THREE.Vector3()
+const point = new THREE.Vector3()
+const cameraPosition = new THREE.Vector3()
+const sphere = new THREE.Sphere()
+
+const frustumOf = (camera: THREE.Camera) =>
+  new THREE.Frustum().setFromProjectionMatrix(
+    new THREE.Matrix4().multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse),
+  )
+
+// Break a package name into at most 4 lines of about 12 characters, at hyphens, slashes and dots
+function formatFaceText(text: string) {
+  const charLimit = 12
+  const maxLines = 4
+
+  try {
+    const segments = text.split(/[-/.]/)
+    const lines: string[] = []
+    let currentLine = ""
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i]
+      const delimiter = i > 0 ? text.charAt(text.indexOf(segments[i - 1]) + segments[i - 1].length) : ""
+
+      if ((currentLine + delimiter + segment).length > charLimit) {
+        if (currentLine) {
+          lines.push(currentLine)
+        }
+        // Out of lines, cut this segment and stop
+        if (lines.length >= maxLines - 1) {
+          lines.push(segment.substring(0, charLimit - 3) + "...")
+          break
+        }
+        currentLine = segment
+      } else {
+        if (i > 0) {
+          currentLine += delimiter
+        }
+        currentLine += segment
+      }
+    }
+
+    if (currentLine && lines.length < maxLines) {
+      lines.push(currentLine)
+    }
+
+    // More segments than lines, end the last line with an ellipsis
+    if (lines.length === maxLines && segments.length > lines.length) {
+      const lastLine = lines[lines.length - 1]
+      lines[lines.length - 1] =
+        lastLine.length > charLimit - 3 ? lastLine.substring(0, charLimit - 3) + "..." : lastLine + "..."
+    }
+
+    return lines.join("\n")
+  } catch (err) {
+    console.error("Error formatting text:", err)
+    return text.substring(0, 20) + (text.length > 20 ? "..." : "")
+  }
+}
+
+// Package name on the front face of its cube, as SDF text: one quad per glyph instead of extruded geometry
+export function FaceText({
+  text,
+  size = 1,
+  position = [0, 0, 0.501],
+  rotation = [0, 0, 0],
+  isDark = true,
+  isSelected = false,
+}: FaceTextProps) {
+  const formattedText = useMemo(() => formatFaceText(text || ""), [text])
+
+  return (
+    <Text
+      font={FACE_FONT}
+      position={position}
+      rotation={rotation}
+      fontSize={size * 0.11}
+      lineHeight={1.1}
+      letterSpacing={-0.03}
+      maxWidth={size * 0.9}
+      anchorX="center"
+      anchorY="middle"
+      textAlign="center"
+      color={isSelected ? "#000000" : "#ffffff"}
+      outlineWidth={isSelected ? 0 : "4%"}
+      outlineColor={isDark ? "#1e3a8a" : "#1d4ed8"}
+    >
+      {formattedText}
+    </Text>
+  )
+}
+
+// Every package cube in one instanced mesh, with its inner glow in a second one. Only the packages
+// inside the camera frustum become instances, checked again whenever the camera moves.
+export function InstancedNodes({ nodes, color, glass = false, onSelectNode, onHoverNode }: InstancedNodesProps) {
+  const cubes = useRef<THREE.InstancedMesh>(null)
+  const glows = useRef<THREE.InstancedMesh>(null)
+  // Index in `nodes` of every instance
+  const visible = useRef<number[]>([])
+  const lastCamera = useRef(new THREE.Matrix4())
+  const frame = useRef(0)
+  const dirty = useRef(true)
+  const { camera } = useThree()
+
+  const cubeColor = useMemo(() => new THREE.Color(color), [color])
+  const glowColors = useMemo(() => nodes.map((node) => new THREE.Color(node.glowColor)), [nodes])
+
+  useEffect(() => {
+    dirty.current = true
+  }, [nodes, cubeColor])
+
+  useFrame(() => {
+    if (!cubes.current || !glows.current) return
+    if (!dirty.current && (++frame.current % CULL_INTERVAL !== 0 || lastCamera.current.equals(camera.matrixWorld))) return
+    dirty.current = false
+    lastCamera.current.copy(camera.matrixWorld)
+
+    const frustum = frustumOf(camera)
+    const world = cubes.current.matrixWorld
+    let count = 0
+    nodes.forEach((node, index) => {
+      point.set(...node.position)
+      // Half the diagonal of the cube, so cubes partly in view stay
+      sphere.set(sphere.center.copy(point).applyMatrix4(world), node.scale * 0.87)
+      if (!frustum.intersectsSphere(sphere)) return
+
+      cubes.current!.setMatrixAt(count, matrix.compose(point, rotation, scale.setScalar(node.scale)))
+      cubes.current!.setColorAt(count, cubeColor)
+      glows.current!.setMatrixAt(count, matrix.compose(point, rotation, scale.setScalar(node.scale * 0.95)))
+      glows.current!.setColorAt(count, glowColors[index])
+      visible.current[count++] = index
+    })
+    visible.current.length = count
+
+    for (const mesh of [cubes.current, glows.current]) {
+      mesh.count = count
+      mesh.instanceMatrix.needsUpdate = true
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true
+      // Raycasting tests the bounding sphere first, it's recomputed from the new instances
+      mesh.boundingSphere = null
+    }
+  })
+
+  const nodeAt = (instanceId: number | undefined) =>
+    instanceId === undefined ? undefined : nodes[visible.current[instanceId]]
+  const capacity = Math.max(nodes.length, 1)
+
+  return (
+    <>
+      <instancedMesh
+        ref={cubes}
+        args={[undefined, undefined, capacity]}
+        frustumCulled={false}
+        onClick={(e) => {
+          e.stopPropagation()
+          const node = nodeAt(e.instanceId)
+          if (node) onSelectNode(node.id, node.position)
+        }}
+        onPointerMove={(e) => {
+          e.stopPropagation()
+          onHoverNode?.(nodeAt(e.instanceId)?.id ?? null)
+        }}
+        onPointerOut={() => onHoverNode?.(null)}
+      >
+        <boxGeometry />
+        {glass ? (
+          <MeshTransmissionMaterial
+            roughness={0.2}
+            metalness={0.4}
+            transparent
+            opacity={0.9}
+            reflectivity={0.5}
+            clearcoat={0.8}
+            clearcoatRoughness={0.5}
+            side={THREE.FrontSide}
+          />
+        ) : (
+          <meshStandardMaterial roughness={0.2} metalness={0.4} transparent opacity={0.9} side={THREE.FrontSide} />
+        )}
+      </instancedMesh>
+      <instancedMesh ref={glows} args={[undefined, undefined, capacity]} frustumCulled={false} raycast={() => null}>
+        <boxGeometry />
+        <meshBasicMaterial transparent opacity={0.5} side={THREE.BackSide} />
+      </instancedMesh>
+    </>
+  )
+}
+
+// All edges in a few draw calls: one batch of line segments per opacity and dash style, curves
+// sampled into segments on the CPU once, colors per vertex
+export function EdgeBatches({ edges, lineWidth }: EdgeBatchesProps) {
+  const size = useThree((state) => state.size)
+
+  const batches = useMemo(() => {
+    const segments = edges.length > CURVED_EDGE_LIMIT ? 1 : CURVE_SEGMENTS
+    const groups = new Map<string, BatchedEdge[]>()
+    for (const edge of edges) {
+      const key = `${edge.opacity}|${edge.dashed}`
+      if (!groups.has(key)) groups.set(key, [])
+      groups.get(key)!.push(edge)
+    }
+
+    return Array.from(groups.values(), (group) => {
+      const positions = new Float32Array(group.length * segments * 6)
+      const colors = new Float32Array(group.length * segments * 6)
+      const color = new THREE.Color()
+      let offset = 0
+
+      for (const edge of group) {
+        color.set(edge.color)
+        for (let i = 0; i < segments; i++) {
+          for (const t of [i / segments, (i + 1) / segments]) {
+            // Quadratic Bézier from start to end, pulled towards mid
+            for (let axis = 0; axis < 3; axis++) {
+              positions[offset + axis] =
+                (1 - t) * (1 - t) * edge.start[axis] + 2 * (1 - t) * t * edge.mid[axis] + t * t * edge.end[axis]
+            }
+            colors[offset] = color.r
+            colors[offset + 1] = color.g
+            colors[offset + 2] = color.b
+            offset += 3
+          }
+        }
+      }
+
+      const geometry = new LineSegmentsGeometry()
+      geometry.setPositions(positions)
+      geometry.setColors(colors)
+      const material = new LineMaterial({
+        vertexColors: true,
+        linewidth: lineWidth,
+        transparent: true,
+        opacity: group[0].opacity,
+        depthWrite: false,
+        dashed: group[0].dashed,
+        dashSize: 1,
+        gapSize: 0.6,
+      })
+      const line = new LineSegments2(geometry, material)
+      if (group[0].dashed) line.computeLineDistances()
+      return line
+    })
+  }, [edges, lineWidth])
+
+  // Line widths are in pixels, the material needs the size of the canvas
+  useEffect(() => {
+    for (const line of batches) line.material.resolution.set(size.width, size.height)
+  }, [batches, size])
+
+  useEffect(
+    () => () => {
+      for (const line of batches) {
+        line.geometry.dispose()
+        line.material.dispose()
+      }
+    },
+    [batches],
+  )
+
+  return (
+    <>
+      {batches.map((line, index) => (
+        <primitive key={index} object={line} />
+      ))}
+    </>
+  )
+}
+
+// Names of the packages close to the camera and in view, nearest first, plus the pinned ones.
+// Far away text is unreadable anyway, and hundreds of labels would cost more than the cubes.
+export function NodeLabels({ nodes, pinned, isDark }: NodeLabelsProps) {
+  const group = useRef<THREE.Group>(null)
+  const [shown, setShown] = useState<string[]>([])
+  const lastCamera = useRef(new THREE.Matrix4())
+  const frame = useRef(0)
+  const dirty = useRef(true)
+  const { camera } = useThree()
+
+  useEffect(() => {
+    dirty.current = true
+  }, [nodes])
+
+  useFrame(() => {
+    if (!group.current) return
+    if (!dirty.current && (++frame.current % LABEL_INTERVAL !== 0 || lastCamera.current.equals(camera.matrixWorld))) return
+    dirty.current = false
+    lastCamera.current.copy(camera.matrixWorld)
+
+    const frustum = frustumOf(camera)
+    const world = group.current.matrixWorld
+    camera.getWorldPosition(cameraPosition)
+
+    const candidates: Array<{ id: string; distance: number }> = []
+    for (const node of nodes) {
+      point.set(...node.position).applyMatrix4(world)
+      const distance = point.distanceTo(cameraPosition)
+      if (distance > node.scale * LABEL_DISTANCE || !frustum.intersectsSphere(sphere.set(point, node.scale))) continue
+      candidates.push({ id: node.id, distance })
+    }
+
+    const next = candidates
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, MAX_LABELS)
+      .map((candidate) => candidate.id)
+      .sort()
+    setShown((current) => (current.join("\u0000") === next.join("\u0000") ? current : next))
+  })
+
+  const byId = useMemo(() => new Map(nodes.map((node) => [node.id, node])), [nodes])
+  const ids = Array.from(new Set([...shown, ...pinned])).filter((id) => byId.has(id))
+
+  return (
+    <group ref={group}>
+      {ids.map((id) => {
+        const node = byId.get(id)!
+        return (
+          <FaceText
+            key={id}
+            text={node.label}
+            size={node.scale}
+            position={[node.position[0], node.position[1], node.position[2] + node.scale * 0.51]}
+            isDark={isDark}
+          />
+        )
+      })}
+    </group>
+  )
+}
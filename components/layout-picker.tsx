@@ -0,0 +1,40 @@
+"use client"
+import { Network } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { GRAPH_LAYOUTS, GRAPH_LAYOUT_LABELS } from "@/lib/layout"
+import { GraphLayout, LayoutPickerProps } from "@/types"
+
+// Pick the layout engine that places the packages in the 2D and 3D views
+export function LayoutPicker({ value, onChange, className }: LayoutPickerProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className={className}>
+          <Network className="mr-1 h-3 w-3" />
+          {GRAPH_LAYOUT_LABELS[value]}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Layout</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={value} onValueChange={(layout) => onChange(layout as GraphLayout)}>
+          {GRAPH_LAYOUTS.map((layout) => (
+            <DropdownMenuRadioItem key={layout} value={layout}>
+              {GRAPH_LAYOUT_LABELS[layout]}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
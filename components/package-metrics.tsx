@@ -0,0 +1,174 @@
+"use client"
+import { useMemo, useState } from "react"
+import { ArrowDown, ArrowUp } from "lucide-react"
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+  ZAxis,
+} from "recharts"
+
+import { PackageMetrics as PackageMetricsRow, PackageMetricsProps } from "@/types"
+
+type SortKey = keyof PackageMetricsRow
+
+const COLUMNS: Array<{ key: SortKey; label: string; title: string }> = [
+  { key: "id", label: "Package", title: "Package name" },
+  { key: "layer", label: "Layer", title: "Longest chain of dependencies below the package" },
+  { key: "depth", label: "Depth", title: "Longest chain of dependents above the package" },
+  { key: "afferent", label: "Ca", title: "Afferent coupling: packages that depend on this one" },
+  { key: "efferent", label: "Ce", title: "Efferent coupling: packages this one depends on" },
+  { key: "instability", label: "I", title: "Instability Ce / (Ca + Ce): 0 is stable, 1 is unstable" },
+  { key: "betweenness", label: "Btw", title: "Betweenness centrality: share of shortest paths through the package" },
+]
+
+const formatValue = (key: SortKey, value: PackageMetricsRow[SortKey]) => {
+  if (value === null) return "–"
+  if (key === "instability" || key === "betweenness") return (value as number).toFixed(2)
+  return String(value)
+}
+
+// Sortable per package metrics with charts of the layering and the coupling of the packages
+export function PackageMetrics({ metrics, isDark, onSelectPackage }: PackageMetricsProps) {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: "betweenness", descending: true })
+  const cardClassName = `rounded-lg border border-input ${isDark ? "bg-gray-900/50" : "bg-gray-50"} p-3 shadow-sm`
+  const axisColor = isDark ? "#9ca3af" : "#6b7280"
+  const tooltipStyle = {
+    backgroundColor: isDark ? "#111827" : "#ffffff",
+    borderColor: isDark ? "#374151" : "#e5e7eb",
+    fontSize: 12,
+  }
+
+  const rows = useMemo(() => {
+    const direction = sort.descending ? -1 : 1
+    return [...metrics.packages].sort((a, b) => {
+      const left = a[sort.key]
+      const right = b[sort.key]
+      // Packages without a value sort last in both directions
+      if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1
+      if (typeof left === "string") return direction * left.localeCompare(right as string)
+      return direction * ((left as number) - (right as number)) || a.id.localeCompare(b.id)
+    })
+  }, [metrics, sort])
+
+  const perLayer = useMemo(
+    () =>
+      Array.from({ length: metrics.layers }, (_, layer) => ({
+        layer,
+        packages: metrics.packages.filter((pkg) => pkg.layer === layer).length,
+      })),
+    [metrics],
+  )
+
+  const handleSort = (key: SortKey) =>
+    setSort((current) => ({ key, descending: current.key === key ? !current.descending : key !== "id" }))
+
+  return (
+    <div className="space-y-4">
+      <div className={cardClassName}>
+        <h3 className="font-medium">Layers</h3>
+        <p className="text-xs text-muted-foreground">
+          {metrics.layers} {metrics.layers === 1 ? "layer" : "layers"}, packages that depend on nothing are layer 0
+        </p>
+        <div className="mt-2 h-40">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={perLayer} margin={{ top: 4, right: 4, bottom: 0, left: -24 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke={axisColor} strokeOpacity={0.2} />
+              <XAxis dataKey="layer" stroke={axisColor} fontSize={11} />
+              <YAxis allowDecimals={false} stroke={axisColor} fontSize={11} />
+              <Tooltip contentStyle={tooltipStyle} cursor={{ fillOpacity: 0.1 }} />
+              <Bar dataKey="packages" fill="#3b82f6" radius={[2, 2, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        {metrics.longestChain.length > 1 && (
+          <p className="mt-2 text-xs text-muted-foreground">
+            Longest chain:{" "}
+            <span className="text-foreground">
+              {metrics.longestChain.map((step) => (step.length > 1 ? `{${step.join(", ")}}` : step[0])).join(" → ")}
+            </span>
+          </p>
+        )}
+      </div>
+
+      <div className={cardClassName}>
+        <h3 className="font-medium">Fan-in / Fan-out</h3>
+        <p className="text-xs text-muted-foreground">
+          Packages on the right are depended on a lot, packages at the top depend on a lot
+        </p>
+        <div className="mt-2 h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart margin={{ top: 4, right: 4, bottom: 0, left: -24 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke={axisColor} strokeOpacity={0.2} />
+              <XAxis type="number" dataKey="afferent" name="Ca" allowDecimals={false} stroke={axisColor} fontSize={11} />
+              <YAxis type="number" dataKey="efferent" name="Ce" allowDecimals={false} stroke={axisColor} fontSize={11} />
+              <ZAxis type="category" dataKey="id" name="Package" range={[40, 40]} />
+              <Tooltip contentStyle={tooltipStyle} cursor={{ strokeDasharray: "3 3" }} />
+              <Scatter
+                data={metrics.packages}
+                fill="#8b5cf6"
+                fillOpacity={0.7}
+                onClick={(point: { id?: string }) => point.id && onSelectPackage?.(point.id)}
+              />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className={cardClassName}>
+        <h3 className="font-medium">Package Metrics</h3>
+        <div className="mt-2 max-h-96 overflow-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-muted-foreground">
+                {COLUMNS.map((column) => (
+                  <th
+                    key={column.key}
+                    className={`py-1 font-normal ${column.key === "id" ? "pr-2 text-left" : "px-1 text-right"}`}
+                    title={column.title}
+                    aria-sort={sort.key === column.key ? (sort.descending ? "descending" : "ascending") : "none"}
+                  >
+                    <button className="inline-flex items-center gap-0.5 hover:text-foreground" onClick={() => handleSort(column.key)}>
+                      {column.label}
+                      {sort.key === column.key &&
+                        (sort.descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.id} className="border-t border-input">
+                  {COLUMNS.map((column) =>
+                    column.key === "id" ? (
+                      <td key={column.key} className="py-1 pr-2">
+                        <button
+                          className="max-w-[9rem] truncate text-left hover:underline"
+                          onClick={() => onSelectPackage?.(row.id)}
+                          title={row.id}
+                        >
+                          {row.id}
+                        </button>
+                      </td>
+                    ) : (
+                      <td key={column.key} className="px-1 py-1 text-right tabular-nums">
+                        {formatValue(column.key, row[column.key])}
+                      </td>
+                    ),
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -4,30 +4,58 @@ import React, { useEffect, useState, useMemo, useRef, useCallback } from "react"
 import { Canvas, useFrame, useThree } from "@react-three/fiber"
 import {
   OrbitControls,
-  createInstances,
   MeshTransmissionMaterial,
-  Text3D,
-  QuadraticBezierLine,
+  Html,
 } from "@react-three/drei"
 import { CustomCloudControls } from "./custom-cloud-controls"
+import { EdgeBatches, FaceText, InstancedNodes, NodeLabels } from "./instanced-graph"
+import { GraphLegend } from "./graph-legend"
 import * as THREE from "three"
+import { DEFAULT_EDGE_KINDS, DIFF_COLORS, edgeStyle, filterEdgesByKind, groupIsolatedNodes, nodeGlowColor, nodeGroup } from "@/lib/graph"
+import { renderPng } from "@/lib/export/image"
+import { exportGlb } from "@/lib/export/scene"
+import { DEFAULT_GRAPH_LAYOUT } from "@/lib/layout"
+import { useGraphFilter } from "@/hooks/use-graph-filter"
+import { useGraphHighlights } from "@/hooks/use-graph-highlights"
+import { useGraphLayout } from "@/hooks/use-graph-layout"
 import { 
+  DiffStatus,
+  EdgeKind,
+  GraphLayout,
+  LayoutPositions,
   ThreeGlobalState,
   ThreeNode, 
   ThreeEdge, 
-  FaceTextProps,
+  BatchedEdge,
+  CycleHighlights,
+  InstancedNode,
   PulsingLightProps,
   CameraFocusProps,
+  CameraPose,
+  CameraSyncProps,
   InternalGlowProps,
+  SceneExportNode,
+  SceneExportProps,
   ThreeVisualizationProps,
 } from "@/types"
 
+// Above this many cubes the glass material, which renders the scene once more per frame, is too slow
+const GLASS_NODE_LIMIT = 150
+// Above this many edges lines get thinner so the graph stays readable
+const THIN_EDGE_LIMIT = 500
+
+// Stable empty graph while there's no analysis, so the layout hook doesn't recompute every render
+const NO_NODES: ThreeNode[] = []
+const NO_EDGES: ThreeEdge[] = []
+
+// Frames between checks whether the camera settled, to report its pose
+const CAMERA_SYNC_INTERVAL = 30
+
 // Global state to persist across re-renders
 const globalState: ThreeGlobalState = {
-  positions: {} as Record<string, [number, number, number]>,
+  positions: {},
   selectedNode: null,
   selectedNodePosition: null,  
-  initialized: false,
 }
 
 // Enhanced pulsing light with more dynamic effects
@@ -133,6 +161,64 @@ function CameraFocus({ target, enabled, controlsRef, graphRef }: CameraFocusProp
   return null
 }
 
+// Puts the camera at the pose of a link once, then reports the pose whenever the camera stops
+// moving, so the link always has the current view
+function CameraSync({ pose, onChange, controlsRef }: CameraSyncProps) {
+  const { camera } = useThree()
+  const frame = useRef(0)
+  const sampled = useRef("")
+  const reported = useRef(pose ? JSON.stringify(pose) : "")
+
+  useEffect(() => {
+    if (!pose || !controlsRef.current) return
+    camera.position.set(...pose.position)
+    controlsRef.current.target.set(...pose.target)
+    controlsRef.current.update()
+  }, [])
+
+  useFrame(() => {
+    if (!onChange || !controlsRef.current || ++frame.current % CAMERA_SYNC_INTERVAL !== 0) return
+    const round = (vector: THREE.Vector3): [number, number, number] => [
+      Math.round(vector.x * 100) / 100,
+      Math.round(vector.y * 100) / 100,
+      Math.round(vector.z * 100) / 100,
+    ]
+    const next: CameraPose = { position: round(camera.position), target: round(controlsRef.current.target) }
+    const key = JSON.stringify(next)
+    // Same pose as the last check: the camera settled
+    if (key === sampled.current && key !== reported.current) {
+      reported.current = key
+      onChange(next)
+    }
+    sampled.current = key
+  })
+
+  return null
+}
+
+// Offers a PNG of what the camera sees and a glTF scene of the whole graph, with the latest
+// packages and edges whenever they are exported
+function SceneExport({ nodes, edges, onChange }: SceneExportProps) {
+  const { gl, scene, camera } = useThree()
+  const latest = useRef({ nodes, edges })
+  latest.current = { nodes, edges }
+
+  useEffect(() => {
+    if (!onChange) return
+    onChange({
+      formats: ["png", "png-transparent", "glb"],
+      exportView: async (format) => {
+        if (format === "glb") return exportGlb(latest.current.nodes, latest.current.edges)
+        if (format === "svg") throw new Error("The 3D view can't be exported as SVG, switch to 2D")
+        return renderPng(gl, scene, camera, format === "png-transparent")
+      },
+    })
+    return () => onChange(null)
+  }, [gl, scene, camera, onChange])
+
+  return null
+}
+
 // Enhanced internal glow effect
 function InternalGlow({ scale, color, intensity = 1.5 }: InternalGlowProps) {
   const glowMaterial = useMemo(() => {
@@ -152,113 +238,51 @@ function InternalGlow({ scale, color, intensity = 1.5 }: InternalGlowProps) {
   )
 }
 
-// Component to render 3D text on the cube face with error handling and fallbacks
-function FaceText({
-  text,
-  size = 1,
-  position = [0, 0, 0.501] as [number, number, number],
-  rotation = [0, 0, 0] as [number, number, number],
-  isDark = true,
-  isSelected = false,
-}: FaceTextProps) {
-  
-  // Pre-format text to avoid doing this work during rendering
-  const formattedText = useMemo(() => {
-    if (!text) return "";
-
-    // Character limit per line - increased to fit more text
-    const charLimit = 12;
-    // Maximum number of lines - increased to use more vertical space
-    const maxLines = 4;
-
-    try {
-      // Split text by hyphens, slashes, and dots first to better handle paths and module names
-      const segments = text.split(/[-/.]/);
-      const lines = [];
-      let currentLine = "";
-
-      // Process each segment
-      for (let i = 0; i < segments.length; i++) {
-        const segment = segments[i];
-        const delimiter = i > 0 ? text.charAt(text.indexOf(segments[i - 1]) + segments[i - 1].length) : "";
-
-        // If adding this segment would exceed the line limit
-        if ((currentLine + delimiter + segment).length > charLimit) {
-          // Save current line if not empty
-          if (currentLine) {
-            lines.push(currentLine);
-          }
-
-          // If we've reached max lines, add ellipsis and break
-          if (lines.length >= maxLines - 1) {
-            lines.push(segment.substring(0, charLimit - 3) + "...");
-            break;
-          }
-
-          // Start new line with this segment
-          currentLine = segment;
-        } else {
-          // Add delimiter if not the first segment
-          if (i > 0) {
-            currentLine += delimiter;
-          }
-          currentLine += segment;
-        }
-      }
-
-      // Add the last line if it's not empty and we haven't reached max lines
-      if (currentLine && lines.length < maxLines) {
-        lines.push(currentLine);
-      }
-
-      // If we have more segments but reached max lines, add ellipsis to last line
-      if (lines.length === maxLines && segments.length > lines.length) {
-        const lastLine = lines[lines.length - 1];
-        if (lastLine.length > charLimit - 3) {
-          lines[lines.length - 1] = lastLine.substring(0, charLimit - 3) + "...";
-        } else {
-          lines[lines.length - 1] = lastLine + "...";
-        }
-      }
-
-      return lines.join("\n");
-    } catch (err) {
-      console.error("Error formatting text:", err);
-      return text.substring(0, 20) + (text.length > 20 ? "..." : "");
-    }
-  }, [text]);
+// Node added or removed by a comparison. Removed nodes are translucent ghosts that can't be selected.
+function DiffNode({
+  node,
+  position,
+  scale,
+  isDark,
+  onSelectNode,
+}: {
+  node: ThreeNode
+  position: [number, number, number]
+  scale: number
+  isDark: boolean
+  onSelectNode: (nodeId: string, position: [number, number, number]) => void
+}) {
+  const status = node.diffStatus as DiffStatus
+  const isRemoved = status === "removed"
+  const outline = useMemo(() => new THREE.EdgesGeometry(new THREE.BoxGeometry()), [])
 
-  // Calculate offset to position text within the cube face
-  const textOffset = size * 0.4;
-  
-  // Adjust the text position to slightly protrude from the cube
-  const textZPosition = 0;
-  
   return (
-    <group position={position} rotation={rotation}>
-      {/* Use Text3D for all text */}
-      <Text3D
-        font="/fonts/Inter_Bold.json"
-        size={size * 0.09} // Reduced font size
-        height={0.06} // Reduced height for less extrusion
-        curveSegments={3} // Reduced for better performance
-        bevelEnabled={false}
-        letterSpacing={-0.03} // Tighter letter spacing
-        position={[-textOffset, size * 0.2, textZPosition]} // Adjusted to protrude from the cube
-      >
-        {formattedText || ""}
+    <group
+      position={position}
+      onClick={(e) => {
+        e.stopPropagation()
+        if (!isRemoved) onSelectNode(node.id, position)
+      }}
+    >
+      <mesh scale={[scale, scale, scale]} userData={{ id: node.id, type: "node" }}>
+        <boxGeometry />
         <meshStandardMaterial
-          color={isSelected ? "#000000" : isDark ? "#ffffff" : "#ffffff"}
-          emissive={isSelected ? "#000000" : isDark ? "#4080ff" : "#3b82f6"}
-          emissiveIntensity={isSelected ? 0 : 0.3}
-          metalness={0.5}
-          roughness={0.2}
-          // castShadow={true}
-          // receiveShadow={false}
+          color={DIFF_COLORS[status]}
+          emissive={DIFF_COLORS[status]}
+          emissiveIntensity={isRemoved ? 0.2 : 0.5}
+          transparent
+          opacity={isRemoved ? 0.25 : 0.85}
+          depthWrite={!isRemoved}
         />
-      </Text3D>
+      </mesh>
+      <FaceText text={node.label || node.id} size={scale} position={[0, 0, scale * 0.51]} isDark={isDark} />
+      {isRemoved && (
+        <lineSegments scale={[scale, scale, scale]} geometry={outline}>
+          <lineBasicMaterial color={DIFF_COLORS.removed} transparent opacity={0.6} />
+        </lineSegments>
+      )}
     </group>
-  );
+  )
 }
 
 // Main component
@@ -269,25 +293,48 @@ function ThreeVisualization({
   selectedModule = null, // Explicitly receive the selected module
   dimensions = { width: 0, height: 0 },
   theme = "dark",
+  edgeKinds = DEFAULT_EDGE_KINDS,
+  layout = DEFAULT_GRAPH_LAYOUT,
+  filter,
+  camera,
+  onCameraChange,
+  onExporterChange,
 }: ThreeVisualizationProps) {
   // Use local state for selection, but always sync with prop
   const [localSelectedNode, setLocalSelectedNode] = useState(selectedModule)
-  const [selectedNodePosition, setSelectedNodePosition] = useState(globalState.selectedNodePosition)
+  const [selectedNodePosition, setSelectedNodePosition] = useState(camera ? null : globalState.selectedNodePosition)
+  // A camera pose from a link wins over framing the graph and flying to the selected package,
+  // until the user picks another package or layout
+  const keepCamera = useRef(Boolean(camera))
+  const initialLayout = useRef(layout)
   const isDark = theme === "dark"
   const controlsRef = useRef<any>(null)
   const graphRef = useRef(null)
 
+  // A comparison draws the head graph plus ghosts of removed packages and edges
+  const { graph, comparison, cycles, violations, ecosystems } = useGraphHighlights(analysisData, edgeKinds)
+
+  // Layouts are based on all edges, so switching the edge filter doesn't move the packages
+  const { positions, isComputing } = useGraphLayout(layout, graph?.nodes || NO_NODES, graph?.edges || NO_EDGES, globalState.positions)
+
+  // Filters and focus mode hide packages without moving the others
+  const visible = useGraphFilter(graph, edgeKinds, filter, localSelectedNode)
+
   // Create color constants to avoid invalid hex with alpha
   const primaryColor = isDark ? "#3b82f6" : "#3b82f6"
   const edgeColor = isDark ? "#00b3ff" : "#3b82f6"
   const dimmedEdgeColor = isDark ? "#0077aa" : "#93c5fd"
   const glowColor = isDark ? "#00ffff" : "#60a5fa"
 
-
   // Sync selectedNodePosition with global state
   useEffect(() => {
     if (localSelectedNode !== selectedModule) {
+      keepCamera.current = false
       setLocalSelectedNode(selectedModule)
+      // Fly to a package picked elsewhere, in the search or the sidebar
+      if (selectedModule && positions[selectedModule]) {
+        setSelectedNodePosition(positions[selectedModule])
+      }
     }
   }, [selectedModule])
   useEffect(() => {
@@ -295,11 +342,21 @@ function ThreeVisualization({
       globalState.selectedNodePosition = selectedNodePosition
     }
   }, [selectedNodePosition])
+  // The selected package moves with the layout, keep the camera on it
+  useEffect(() => {
+    if (localSelectedNode && positions[localSelectedNode] && !keepCamera.current) {
+      setSelectedNodePosition(positions[localSelectedNode])
+    }
+  }, [positions])
+  useEffect(() => {
+    if (layout !== initialLayout.current) keepCamera.current = false
+  }, [layout])
 
 
   const handleNodeClick = useCallback(
     (nodeId: string, position: [number, number, number]) => {
       console.log("Node clicked:", nodeId, position)
+      keepCamera.current = false
       setLocalSelectedNode(nodeId)
       setSelectedNodePosition(position)
       globalState.selectedNode = nodeId
@@ -320,7 +377,8 @@ function ThreeVisualization({
         camera={{ position: [0, 0, 50], fov: 50 }} 
         dpr={1}
         gl={{
-          alpha: false,
+          // For PNG exports with a transparent background, the scene background covers it otherwise
+          alpha: true,
           antialias: true,
           stencil: false,
           depth: true,
@@ -336,10 +394,16 @@ function ThreeVisualization({
         <pointLight position={[0, 0, 0]} intensity={0.7} color="#3b82f6" />
           
 
-        {analysisData ? (
+        {graph ? (
           <RepositoryGraph
-            nodes={analysisData.graph.nodes}
-            edges={analysisData.graph.edges}
+            nodes={graph.nodes}
+            edges={graph.edges}
+            positions={positions}
+            layout={layout}
+            edgeKinds={edgeKinds}
+            cycles={cycles}
+            violations={violations}
+            visible={visible}
             onSelectNode={handleNodeClick}
             selectedNode={localSelectedNode}
             isDetailView={isDetailView}
@@ -350,6 +414,8 @@ function ThreeVisualization({
             glowColor={glowColor}
             controlsRef={controlsRef}
             graphRef={graphRef}
+            keepCamera={keepCamera}
+            onExporterChange={onExporterChange}
           />
         ) : null}
 
@@ -362,6 +428,7 @@ function ThreeVisualization({
           zoomSpeed={0.5}
           enabled={true} // Disable default controls
         />
+        <CameraSync pose={camera || null} onChange={onCameraChange} controlsRef={controlsRef} />
 
         {selectedNodePosition && localSelectedNode && (
           <CameraFocus target={selectedNodePosition} enabled={true} controlsRef={controlsRef} graphRef={graphRef} />
@@ -382,6 +449,37 @@ function ThreeVisualization({
       </p>
     </div>
 
+    {isComputing && (
+      <div
+        className={`absolute top-16 left-1/2 -translate-x-1/2 p-3 ${
+          isDark ? "bg-gray-900/70 text-white" : "bg-white/70 text-gray-900 border border-gray-200"
+        } text-xs rounded-lg backdrop-blur-sm pointer-events-none`}
+      >
+        Laying out {graph?.nodes.length} packages…
+      </div>
+    )}
+
+    {/* Honest empty state instead of made up edges */}
+    {graph && graph.nodes.length > 1 && graph.edges.length === 0 && (
+      <div
+        className={`absolute top-4 left-1/2 -translate-x-1/2 p-3 ${
+          isDark ? "bg-gray-900/70 text-white" : "bg-white/70 text-gray-900 border border-gray-200"
+        } text-xs rounded-lg backdrop-blur-sm pointer-events-none text-center`}
+      >
+        <p className="font-medium">No internal dependencies</p>
+        <p className="text-muted-foreground">None of these packages depend on each other. They are grouped by scope or directory.</p>
+      </div>
+    )}
+
+    <GraphLegend
+      comparison={comparison}
+      ecosystems={ecosystems}
+      cycles={cycles}
+      violations={violations}
+      glowColor={glowColor}
+      isDark={isDark}
+    />
+
     {localSelectedNode && !isDetailView && (
       <div
         className={`absolute bottom-4 left-1/2 transform -translate-x-1/2 p-4 ${
@@ -402,6 +500,12 @@ function ThreeVisualization({
 function RepositoryGraph({
   nodes,
   edges,
+  positions,
+  layout,
+  edgeKinds,
+  cycles,
+  violations,
+  visible,
   onSelectNode,
   selectedNode,
   isDetailView,
@@ -412,9 +516,17 @@ function RepositoryGraph({
   glowColor,
   controlsRef,
   graphRef,
+  keepCamera,
+  onExporterChange,
 }: {
   nodes: ThreeNode[],
   edges: ThreeEdge[],
+  positions: LayoutPositions,
+  layout: GraphLayout,
+  edgeKinds: EdgeKind[],
+  cycles: CycleHighlights,
+  violations: Set<string>,
+  visible: Set<string> | null,
   onSelectNode: (nodeId: string, position: [number, number, number]) => void,
   selectedNode: string | null,
   isDetailView: boolean,
@@ -425,76 +537,148 @@ function RepositoryGraph({
   glowColor: string,
   controlsRef: React.RefObject<any>,
   graphRef: React.RefObject<any>,
+  keepCamera: React.RefObject<boolean>,
+  onExporterChange?: SceneExportProps["onChange"],
 }) {
-  const [positions, setPositions] = useState(globalState.positions)
-  const [NodeInstances, Node] = createInstances()
-  const [GlowingNodeInstances, GlowingNode] = createInstances()
+  const [hoveredNode, setHoveredNode] = useState<string | null>(null)
   const { camera } = useThree()
 
+  // Far enough to see the whole layout, force and layered layouts of big graphs spread wide
+  const extent = useMemo(
+    () => Math.max(0, ...Object.values(positions).map(([x, y]) => Math.max(Math.abs(x), Math.abs(y)))),
+    [positions],
+  )
+
   // Adjust initial camera position to better view titles
   useEffect(() => {
     // Only adjust camera if no node is selected
-    if (!selectedNode && controlsRef.current) {
+    if (!selectedNode && controlsRef.current && !keepCamera.current) {
       // Improved initial position for better front view of titles
-      camera.position.set(0, 0, 50)
+      camera.position.set(0, 0, Math.max(50, extent * 2.2))
       camera.lookAt(0, 0, 0)
       controlsRef.current.update()
     }
-  }, [camera, selectedNode, controlsRef])
-
-  // Calculate node positions only once
-  useEffect(() => {
-    // Only calculate positions if they haven't been calculated yet or if nodes have changed
-    if (
-      !globalState.initialized ||
-      Object.keys(globalState.positions).length === 0 ||
-      nodes.some((node) => !globalState.positions[node.id])
-    ) {
-      console.log("Calculating node positions")
-      const newPositions: Record<string, [number, number, number]> = {}
-      const nodeCount = nodes.length
-
-      nodes.forEach((node, index) => {
-        // If we already have a position for this node, keep it
-        if (globalState.positions[node.id]) {
-          newPositions[node.id] = globalState.positions[node.id]
-          return
-        }
-
-        // Calculate position on a sphere
-        const phi = Math.acos(-1 + (2 * (index + 1)) / (nodeCount + 1))
-        const theta = Math.sqrt(nodeCount * Math.PI) * phi
-
-        // Fixed radius of 20 for better visibility
-        const x = 20 * Math.cos(theta) * Math.sin(phi)
-        const y = 20 * Math.sin(theta) * Math.sin(phi)
-        const z = 20 * Math.cos(phi)
-
-        newPositions[node.id] = [x, y, z]
-      })
-
-      // Update both the state and the global state
-      globalState.positions = newPositions
-      globalState.initialized = true
-      setPositions(newPositions)
+  }, [camera, selectedNode, controlsRef, extent])
+
+  // Every group is a cluster in the clustered layout, only the unconnected packages in the others.
+  // Labels go above the highest package of their cluster.
+  const groupLabels = useMemo(() => {
+    const groups = layout === "clustered" ? new Map<string, string[]>() : groupIsolatedNodes(nodes, edges)
+    if (layout === "clustered") {
+      for (const node of nodes) groups.set(nodeGroup(node), [...(groups.get(nodeGroup(node)) || []), node.id])
     }
-  }, [nodes])
+    return Array.from(groups).flatMap(([name, ids]) => {
+      const placed = ids.map((id) => positions[id]).filter(Boolean)
+      if (placed.length === 0) return []
+      const mean = (axis: number) => placed.reduce((sum, position) => sum + position[axis], 0) / placed.length
+      const top = Math.max(...placed.map((position) => position[1]))
+      return [{ name, size: ids.length, position: [mean(0), top + 5, mean(2)] as [number, number, number] }]
+    })
+  }, [layout, nodes, edges, positions])
 
   // Instead of early return, use a variable to control rendering
   const hasPositions = Object.keys(positions).length > 0
 
-  // Filter valid nodes and connections
-  const validNodes = nodes.filter((node) => node && node.id && positions[node.id])
-  const validEdges = edges.filter(
-    (edge) => edge && edge.source && edge.target && positions[edge.source] && positions[edge.target],
-  )
-
   // Base cube size (increased)
   const baseCubeSize = 4
 
+  // Filter valid nodes, cubes are scaled with the length of their label
+  const validNodes = useMemo(
+    () =>
+      nodes
+        .filter((node) => node && node.id && positions[node.id] && (!visible || visible.has(node.id)))
+        .map((node) => {
+          const label = node.label || node.id
+          return { node, label, position: positions[node.id], scale: Math.min(1 + label.length / 20, 1.5) * baseCubeSize }
+        }),
+    [nodes, positions, visible],
+  )
+  const scaleOf = useMemo(() => new Map(validNodes.map(({ node, scale }) => [node.id, scale])), [validNodes])
+
+  // Unchanged packages other than the selected one, the bulk of the graph, are instanced
+  const instancedNodes = useMemo(
+    () =>
+      validNodes
+        .filter(({ node }) => node.id !== selectedNode && !node.diffStatus)
+        .map(({ node, position, scale }): InstancedNode => ({
+          id: node.id,
+          position,
+          scale,
+          // Inner glow colored by cycle membership, then ecosystem
+          glowColor: nodeGlowColor(node, cycles, glowColor),
+        })),
+    [validNodes, selectedNode, cycles, glowColor],
+  )
+  const labeledNodes = useMemo(() => {
+    const labels = new Map(validNodes.map(({ node, label }) => [node.id, label]))
+    return instancedNodes.map(({ id, position, scale }) => ({ id, position, scale, label: labels.get(id)! }))
+  }, [instancedNodes, validNodes])
+
+  // Only the edge kinds picked in the filter, clusters above are still based on all edges
+  const batchedEdges = useMemo(
+    () =>
+      filterEdgesByKind(edges, edgeKinds).flatMap((edge): BatchedEdge[] => {
+        const sourcePos = positions[edge.source]
+        const targetPos = positions[edge.target]
+        if (!sourcePos || !targetPos || !scaleOf.has(edge.source) || !scaleOf.has(edge.target)) return []
+
+        // Compute direction vector from source to target
+        const dir = [targetPos[0] - sourcePos[0], targetPos[1] - sourcePos[1], targetPos[2] - sourcePos[2]]
+        const len = Math.sqrt(dir[0] ** 2 + dir[1] ** 2 + dir[2] ** 2)
+        const norm = len === 0 ? [0, 0, 1] : [dir[0] / len, dir[1] / len, dir[2] / len]
+
+        // Offset from center to face (half cube size + small margin)
+        const margin = 0.15
+        const sourceOffset = (scaleOf.get(edge.source) || baseCubeSize) / 2 + margin
+        const targetOffset = (scaleOf.get(edge.target) || baseCubeSize) / 2 + margin
+        const start: [number, number, number] = [
+          sourcePos[0] + norm[0] * sourceOffset,
+          sourcePos[1] + norm[1] * sourceOffset,
+          sourcePos[2] + norm[2] * sourceOffset,
+        ]
+        const end: [number, number, number] = [
+          targetPos[0] - norm[0] * targetOffset,
+          targetPos[1] - norm[1] * targetOffset,
+          targetPos[2] - norm[2] * targetOffset,
+        ]
+        // Midpoint with a fixed offset to curve the line
+        const mid: [number, number, number] = [
+          (start[0] + end[0]) / 2 + 1.5,
+          (start[1] + end[1]) / 2 + 1.5,
+          (start[2] + end[2]) / 2 + 1.5,
+        ]
+
+        const { color, opacity, dashed } = edgeStyle(edge, { selectedNode, cycles, violations, edgeColor, dimmedEdgeColor })
+        return [{ start, mid, end, color, opacity, dashed }]
+      }),
+    [edges, edgeKinds, positions, scaleOf, selectedNode, cycles, violations, edgeColor, dimmedEdgeColor],
+  )
+
+  // Packages added by a comparison too, the DiffNode list below leaves the selected one out
+  const selected = validNodes.find(({ node }) => node.id === selectedNode)
+
+  // Packages colored like the cubes above for glTF exports
+  const sceneNodes = useMemo(
+    () =>
+      validNodes.map(({ node, label, position, scale }): SceneExportNode => {
+        const status = node.diffStatus as DiffStatus | undefined
+        return {
+          id: node.id,
+          label,
+          position,
+          scale,
+          color: status ? DIFF_COLORS[status] : node.id === selectedNode ? "#ffffff" : primaryColor,
+          glowColor: status ? DIFF_COLORS[status] : node.id === selectedNode ? glowColor : nodeGlowColor(node, cycles, glowColor),
+          opacity: status === "removed" ? 0.25 : 0.85,
+        }
+      }),
+    [validNodes, selectedNode, cycles, primaryColor, glowColor],
+  )
+
   return (
     <group ref={graphRef}>
       <CustomCloudControls cloudRef={graphRef} enabled={false} rotationSpeed={1.5} panSpeed={1.2} />
+      <SceneExport nodes={sceneNodes} edges={batchedEdges} onChange={onExporterChange} />
 
       <ambientLight intensity={0.5} />
       <directionalLight position={[10, 10, 5]} intensity={1} />
@@ -502,192 +686,105 @@ function RepositoryGraph({
 
       {hasPositions && (
         <>
-          {/* Normal node instances - Using basic materials instead of MeshTransmissionMaterial */}
-          <NodeInstances>
-            <boxGeometry />
-            <MeshTransmissionMaterial
-              color={primaryColor}
-              roughness={0.2}
-              metalness={0.4}
-              transparent
-              opacity={0.9}
-              reflectivity={0.5}
-              clearcoat={0.8}
-              clearcoatRoughness={0.5}
-              side={THREE.FrontSide}
-            />
-
-            {/* Render only non-selected nodes here */}
-            {validNodes
-              .filter((node) => node.id !== selectedNode)
-              .map((node) => {
-                const position = positions[node.id]
-
-                // Scale the cube based on text length
-                const textLength = node.id ? node.id.length : 0
-                const cubeScale = Math.min(1 + textLength / 20, 1.5) * baseCubeSize
-
-                return (
-                  <group
-                    key={node.id}
-                    position={position}
-                    onClick={(e) => {
-                      e.stopPropagation()
-                      onSelectNode(node.id, position)
-                    }}
-                  >
-                    <Node scale={[cubeScale, cubeScale, cubeScale]} userData={{ id: node.id, type: "node" }} />
-                    <FaceText text={node.id} size={cubeScale} position={[0, 0, cubeScale * 0.51]} isDark={isDark} />
-                     {/* Enhanced internal glow effect */}
-                    <InternalGlow scale={cubeScale} color={glowColor} intensity={1.8} />
-                   
-                  </group>
-                )
-              })}
-          </NodeInstances>
-
-          {/* Glowing node instances for selected nodes */}
-          <GlowingNodeInstances>
-            <boxGeometry />
-            <MeshTransmissionMaterial
-              color="#ffffff"
-              roughness={0.5}
-              metalness={0.9}
-              transparent
-              opacity={0.95}
-              reflectivity={0.7}
-              clearcoat={1}
-              clearcoatRoughness={0.5}
-              emissive={glowColor}
-              emissiveIntensity={0.9}
-              side={THREE.FrontSide}
-            />
-
-            {/* Render only the selected node here */}
-            {validNodes
-              .filter((node) => node.id === selectedNode)
-              .map((node) => {
-                const position = positions[node.id]
-
-                // Scale the cube based on text length
-                const textLength = node.id ? node.id.length : 0
-                const cubeScale = Math.min(1 + textLength / 20, 1.5) * baseCubeSize * 1
-
-                return (
-                  <group
-                    key={node.id}
-                    position={position}
-                    onClick={(e) => {
-                      e.stopPropagation()
-                      onSelectNode(node.id, position)
-                    }}
-                  >
-                    <GlowingNode scale={[cubeScale, cubeScale, cubeScale]} userData={{ id: node.id, type: "node" }} />
-
-                    {/* Text on the front face of the cube with adjusted position */}
-                    <FaceText
-                      text={node.id}
-                      size={cubeScale}
-                      position={[0, 0, cubeScale * 0.51]}
-                      isDark={isDark}
-                      isSelected={true}
-                    />
-
-                    {/* Enhanced internal glow effect */}
-                    <InternalGlow scale={cubeScale} color={glowColor} intensity={1.8} />
-
-                    {/* Enhanced internal lighting effect */}
-                    <PulsingLight
-                      position={[0, 0, 0]}
-                      color={glowColor}
-                      baseIntensity={3}
-                      pulseAmount={1.2}
-                      speed={2}
-                      distance={cubeScale * 2.5}
-                    />
-
-                    {/* Additional lights for a more volumetric effect - reduced number for performance */}
-                    <pointLight
-                      position={[0, cubeScale * 0.3, 0]}
-                      intensity={1.5}
-                      color={glowColor}
-                      distance={cubeScale * 2}
-                    />
-
-                    {/* Outer glowing layer */}
-                    <mesh scale={[cubeScale * 1.05, cubeScale * 1.05, cubeScale * 1.05]}>
-                      <boxGeometry />
-                      <meshBasicMaterial color={glowColor} transparent opacity={0.15} />
-                    </mesh>
-                  </group>
-                )
-              })}
-          </GlowingNodeInstances>
-
-          {/* Connections between nodes - only show if not too many to prevent performance issues */}
-          {validEdges.length < 100 && validEdges.map((edge, index) => {
-            const sourcePos = positions[edge.source]
-            const targetPos = positions[edge.target]
-
-            if (!sourcePos || !targetPos) return null
-
-            // Get node sizes (assuming same logic as for cubes)
-            const sourceNode = validNodes.find(n => n.id === edge.source)
-            const targetNode = validNodes.find(n => n.id === edge.target)
-            const baseCubeSize = 4
-            const sourceTextLength = sourceNode?.id ? sourceNode.id.length : 0
-            const targetTextLength = targetNode?.id ? targetNode.id.length : 0
-            const sourceCubeScale = Math.min(1 + sourceTextLength / 20, 1.5) * baseCubeSize
-            const targetCubeScale = Math.min(1 + targetTextLength / 20, 1.5) * baseCubeSize
-
-            // Compute direction vector from source to target
-            const dir = [
-              targetPos[0] - sourcePos[0],
-              targetPos[1] - sourcePos[1],
-              targetPos[2] - sourcePos[2],
-            ]
-            const len = Math.sqrt(dir[0] ** 2 + dir[1] ** 2 + dir[2] ** 2)
-            const norm = len === 0 ? [0, 0, 1] : [dir[0] / len, dir[1] / len, dir[2] / len]
-
-            // Offset from center to face (half cube size + small margin)
-            const margin = 0.15
-            const sourceOffset: [number, number, number] = [
-              sourcePos[0] + norm[0] * (sourceCubeScale / 2 + margin),
-              sourcePos[1] + norm[1] * (sourceCubeScale / 2 + margin),
-              sourcePos[2] + norm[2] * (sourceCubeScale / 2 + margin),
-            ]
-            const targetOffset: [number, number, number] = [
-              targetPos[0] - norm[0] * (targetCubeScale / 2 + margin),
-              targetPos[1] - norm[1] * (targetCubeScale / 2 + margin),
-              targetPos[2] - norm[2] * (targetCubeScale / 2 + margin),
-            ]
-
-            // Calculate midpoint with random offset to curve the line
-            const midPoint: [number, number, number] = [
-              (sourceOffset[0] + targetOffset[0]) / 2 + (0.5) * 3,
-              (sourceOffset[1] + targetOffset[1]) / 2 + (0.5) * 3,
-              (sourceOffset[2] + targetOffset[2]) / 2 + (0.5) * 3,
-            ]
-
-            // Highlight connections related to the selected node
-            const isRelated = edge.source === selectedNode || edge.target === selectedNode
-            const lineColor = isRelated ? edgeColor : dimmedEdgeColor
-            const edgeOpacity = isRelated ? 0.9 : 0.4
-            const edgeWidth = 5
-
-            return (
-              <QuadraticBezierLine
-                key={`${edge.source}-${edge.target}-${index}`}
-                start={sourceOffset}
-                end={targetOffset}
-                mid={midPoint}
-                color={lineColor}
-                lineWidth={edgeWidth}
-                transparent
-                opacity={edgeOpacity}
+          {/* Every other package in two draw calls, the glass material only while the graph is small */}
+          <InstancedNodes
+            nodes={instancedNodes}
+            color={primaryColor}
+            glass={instancedNodes.length <= GLASS_NODE_LIMIT}
+            onSelectNode={onSelectNode}
+            onHoverNode={setHoveredNode}
+          />
+          <NodeLabels nodes={labeledNodes} pinned={hoveredNode ? [hoveredNode] : []} isDark={isDark} />
+
+          {/* The selected package, glowing */}
+          {selected && (
+            <group
+              position={selected.position}
+              onClick={(e) => {
+                e.stopPropagation()
+                onSelectNode(selected.node.id, selected.position)
+              }}
+            >
+              <mesh scale={[selected.scale, selected.scale, selected.scale]} userData={{ id: selected.node.id, type: "node" }}>
+                <boxGeometry />
+                <MeshTransmissionMaterial
+                  color="#ffffff"
+                  roughness={0.5}
+                  metalness={0.9}
+                  transparent
+                  opacity={0.95}
+                  reflectivity={0.7}
+                  clearcoat={1}
+                  clearcoatRoughness={0.5}
+                  emissive={glowColor}
+                  emissiveIntensity={0.9}
+                  side={THREE.FrontSide}
+                />
+              </mesh>
+
+              {/* Text on the front face of the cube with adjusted position */}
+              <FaceText
+                text={selected.label}
+                size={selected.scale}
+                position={[0, 0, selected.scale * 0.51]}
+                isDark={isDark}
+                isSelected={true}
+              />
+
+              {/* Enhanced internal glow effect */}
+              <InternalGlow scale={selected.scale} color={glowColor} intensity={1.8} />
+
+              {/* Enhanced internal lighting effect */}
+              <PulsingLight
+                position={[0, 0, 0]}
+                color={glowColor}
+                baseIntensity={3}
+                pulseAmount={1.2}
+                speed={2}
+                distance={selected.scale * 2.5}
               />
-            )
-          })}
+
+              {/* Additional lights for a more volumetric effect - reduced number for performance */}
+              <pointLight
+                position={[0, selected.scale * 0.3, 0]}
+                intensity={1.5}
+                color={glowColor}
+                distance={selected.scale * 2}
+              />
+
+              {/* Outer glowing layer */}
+              <mesh scale={[selected.scale * 1.05, selected.scale * 1.05, selected.scale * 1.05]}>
+                <boxGeometry />
+                <meshBasicMaterial color={glowColor} transparent opacity={0.15} />
+              </mesh>
+            </group>
+          )}
+
+          {/* Labels of the clusters of packages */}
+          {groupLabels.map(({ name, size, position }) => (
+            <Html key={name} position={position} center>
+              <div className={`text-xs whitespace-nowrap pointer-events-none ${isDark ? "text-gray-400" : "text-gray-600"}`}>
+                {name} ({size})
+              </div>
+            </Html>
+          ))}
+
+          {/* Added and removed nodes of a comparison */}
+          {validNodes
+            .filter(({ node }) => node.diffStatus && node.id !== selectedNode)
+            .map(({ node, position, scale }) => (
+              <DiffNode
+                key={node.id}
+                node={node}
+                position={position}
+                scale={scale}
+                isDark={isDark}
+                onSelectNode={onSelectNode}
+              />
+            ))}
+
+          {/* Connections between nodes, batched so big graphs keep all of them */}
+          <EdgeBatches edges={batchedEdges} lineWidth={batchedEdges.length > THIN_EDGE_LIMIT ? 1.5 : 4} />
         </>
       )}
     </group>
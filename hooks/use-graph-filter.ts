@@ -0,0 +1,19 @@
+import { useMemo } from "react"
+
+import { EMPTY_GRAPH_FILTER, filterEdgesByKind, filterGraphNodes } from "@/lib/graph"
+import { EdgeKind, GraphFilter, ThreeEdge, ThreeNode } from "@/types"
+
+// Ids of the packages a view shows, null for all of them. Focus mode follows the shown edge
+// kinds, without the ghosts of removed dependencies.
+export function useGraphFilter(
+  graph: { nodes: ThreeNode[]; edges: ThreeEdge[] } | null,
+  edgeKinds: EdgeKind[],
+  filter: GraphFilter = EMPTY_GRAPH_FILTER,
+  selectedNode: string | null,
+) {
+  return useMemo(() => {
+    if (!graph) return null
+    const edges = filterEdgesByKind(graph.edges, edgeKinds).filter((edge) => edge.diffStatus !== "removed")
+    return filterGraphNodes(graph.nodes, edges, filter, selectedNode)
+  }, [graph, edgeKinds, filter, selectedNode])
+}
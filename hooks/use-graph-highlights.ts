@@ -0,0 +1,47 @@
+import { useMemo } from "react"
+
+import { analyzeCycles, filterEdgesByKind, mergeDiffGraph } from "@/lib/graph"
+import { AnalysisData, CycleHighlights, Ecosystem, EdgeKind, ThreeEdge } from "@/types"
+
+// The graph a view draws, a comparison's head plus ghosts of what it removed, and what both views
+// highlight in it: circular dependencies among the shown edges, rule violations and ecosystems
+export function useGraphHighlights(analysisData: AnalysisData | null, edgeKinds: EdgeKind[]) {
+  const comparison = analysisData?.comparison
+  const graph = useMemo(() => {
+    if (!analysisData) return null
+    return comparison ? mergeDiffGraph(analysisData.graph, comparison.diff) : analysisData.graph
+  }, [analysisData, comparison])
+
+  const cycles = useMemo((): CycleHighlights => {
+    const members = new Set<string>()
+    const edges = new Set<string>()
+    const breaks = new Set<string>()
+    if (!graph) return { members, edges, breaks }
+
+    const graphEdges: ThreeEdge[] = graph.edges
+    const shown = filterEdgesByKind(graphEdges, edgeKinds).filter((edge) => edge.diffStatus !== "removed")
+    for (const component of analyzeCycles({ nodes: graph.nodes, edges: shown }).components) {
+      const inComponent = new Set(component.nodes)
+      component.nodes.forEach((id) => members.add(id))
+      shown
+        .filter((edge) => inComponent.has(edge.source) && inComponent.has(edge.target))
+        .forEach((edge) => edges.add(`${edge.source}\u0000${edge.target}`))
+      component.breakEdges.forEach((edge) => breaks.add(`${edge.source}\u0000${edge.target}`))
+    }
+    return { members, edges, breaks }
+  }, [graph, edgeKinds])
+
+  // Dependencies that break an architecture rule
+  const violations = useMemo(
+    () => new Set((analysisData?.architecture?.violations || []).map((violation) => `${violation.source}\u0000${violation.target}`)),
+    [analysisData],
+  )
+
+  // Mixed-language repositories get a legend of the ecosystem colors
+  const ecosystems = useMemo(
+    () => Array.from(new Set((graph?.nodes || []).map((node): Ecosystem => node.ecosystem || "npm"))).sort(),
+    [graph],
+  )
+
+  return { graph, comparison, cycles, violations, ecosystems }
+}
@@ -0,0 +1,73 @@
+import { useEffect, useMemo, useState } from "react"
+
+import { nodeGroup } from "@/lib/graph"
+import { computeLayout } from "@/lib/layout"
+import { GraphLayout, GraphNode, LayoutPositions, LayoutRequest } from "@/types"
+
+// Graphs from this size on are laid out in a Web Worker, the force layout takes seconds on them
+const WORKER_THRESHOLD = 500
+
+// Positions of the packages in the picked layout, flat ones for the 2D view. Results are kept in
+// `cache` per layout and reused while they cover every package; until a new layout is ready the
+// previous one stays.
+export function useGraphLayout(
+  layout: GraphLayout,
+  nodes: GraphNode[],
+  edges: Array<{ source: string; target: string }>,
+  cache: Partial<Record<GraphLayout, LayoutPositions>>,
+  flat = false,
+) {
+  const [positions, setPositions] = useState<LayoutPositions>(cache[layout] || {})
+  const [isComputing, setIsComputing] = useState(false)
+
+  const request = useMemo(
+    (): Omit<LayoutRequest, "layout" | "seeds"> => ({
+      nodes: nodes.map((node) => ({ id: node.id, group: nodeGroup(node) })),
+      edges: edges.map(({ source, target }) => ({ source, target })),
+    }),
+    [nodes, edges],
+  )
+
+  useEffect(() => {
+    const cached = cache[layout]
+    if (cached && request.nodes.every((node) => cached[node.id])) {
+      setPositions(cached)
+      return
+    }
+
+    const message: LayoutRequest = { ...request, layout, seeds: cached || {}, flat }
+    const done = (result: LayoutPositions) => {
+      cache[layout] = result
+      setPositions(result)
+      setIsComputing(false)
+    }
+
+    if (request.nodes.length < WORKER_THRESHOLD || typeof Worker === "undefined") {
+      console.log(`Calculating ${layout} layout`)
+      done(computeLayout(message))
+      return
+    }
+
+    console.log(`Calculating ${layout} layout of ${request.nodes.length} packages in a worker`)
+    setIsComputing(true)
+    const worker = new Worker(new URL("../lib/layout/worker.ts", import.meta.url))
+    worker.onmessage = (event: MessageEvent<LayoutPositions>) => {
+      done(event.data)
+      worker.terminate()
+    }
+    worker.onerror = (error) => {
+      console.error("Layout worker failed, calculating on the main thread:", error)
+      worker.terminate()
+      done(computeLayout(message))
+    }
+    worker.postMessage(message)
+
+    // A newer layout or graph replaces this one, its result would be stale
+    return () => {
+      worker.terminate()
+      setIsComputing(false)
+    }
+  }, [layout, request, cache, flat])
+
+  return { positions, isComputing }
+}
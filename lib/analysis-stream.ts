@@ -0,0 +1,32 @@
+import { AnalysisProgress, RepositoryAnalysisResponse } from "@/types"
+
+// Follow an analysis job of the REST API (see app/api/v1/analyses) over server-sent events, so
+// long analyses show their progress instead of a bare spinner
+export function followAnalysisJob(
+  id: string,
+  onProgress: (progress: AnalysisProgress) => void,
+): Promise<RepositoryAnalysisResponse> {
+  return new Promise((resolve) => {
+    const events = new EventSource(`/api/v1/analyses/${id}/events`)
+    const finish = (result: RepositoryAnalysisResponse) => {
+      events.close()
+      resolve(result)
+    }
+
+    events.addEventListener("progress", (e) => {
+      const { progress } = JSON.parse(e.data)
+      if (progress) onProgress(progress)
+    })
+    events.addEventListener("succeeded", (e) => {
+      const { result, fromCache } = JSON.parse(e.data)
+      finish({ success: true, data: result, fromCache })
+    })
+    events.addEventListener("failed", (e) => finish({ success: false, error: JSON.parse(e.data).error }))
+    // EventSource reconnects by itself after a dropped connection, it only gives up when the job is gone
+    events.onerror = () => {
+      if (events.readyState === EventSource.CLOSED) {
+        finish({ success: false, error: "Lost the connection to the analysis, the server may have restarted" })
+      }
+    }
+  })
+}
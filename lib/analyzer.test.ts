@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest"
+
+import { analyzeRepoGraph } from "@/lib/analyzer"
+import { RepoSource } from "@/types"
+
+// A repository held in memory, keyed by path
+const memorySource = (files: Record<string, string>): RepoSource => ({
+  provider: "memory",
+  owner: "test",
+  repo: "repo",
+  listFiles: async () => ({ files: Object.keys(files).map((path) => ({ path })) }),
+  readFiles: async (requested, onFileRead) => {
+    const contents = new Map(requested.map((file) => [file.path, files[file.path]]))
+    requested.forEach(() => onFileRead?.())
+    return { contents, skipped: [] }
+  },
+})
+
+const json = (value: unknown) => JSON.stringify(value)
+
+describe("analyzeRepoGraph", () => {
+  const nxRepo = {
+    "package.json": json({ name: "acme", private: true }),
+    "nx.json": json({ workspaceLayout: { appsDir: "apps", libsDir: "libs" } }),
+    "apps/web/package.json": json({ name: "@acme/web" }),
+    "apps/web/src/main.ts": `import { login } from "@acme/auth"`,
+    "libs/auth/project.json": json({ name: "@acme/auth", tags: ["scope:shared"] }),
+    "libs/auth/src/index.ts": "export const login = () => {}",
+    "libs/util/project.json": json({}),
+  }
+
+  it("adds Nx projects that only have a project.json", async () => {
+    const { nodes } = await analyzeRepoGraph(memorySource(nxRepo))
+
+    expect(nodes.map((node) => node.id)).toEqual(["@acme/web", "@acme/auth", "libs/util"])
+    expect(nodes[1].data).toMatchObject({ path: "libs/auth/project.json", directory: "libs/auth" })
+  })
+
+  it("resolves imports of Nx projects in deep mode", async () => {
+    const { edges } = await analyzeRepoGraph(memorySource(nxRepo), { deep: true })
+
+    expect(edges).toEqual([expect.objectContaining({ source: "@acme/web", target: "@acme/auth", kind: "undeclared-import" })])
+  })
+
+  it("resolves tsconfig path aliases to the package that owns the file", async () => {
+    const repo = {
+      "package.json": json({ workspaces: ["packages/*"] }),
+      "tsconfig.base.json": json({ compilerOptions: { paths: { "@acme/ui/*": ["packages/ui/src/*"] } } }),
+      "packages/app/package.json": json({ name: "app" }),
+      "packages/app/index.ts": `import { Button } from "@acme/ui/button"`,
+      "packages/ui/package.json": json({ name: "ui" }),
+      "packages/ui/src/button.tsx": "export const Button = () => null",
+    }
+    const { edges } = await analyzeRepoGraph(memorySource(repo), { deep: true })
+
+    expect(edges).toEqual([expect.objectContaining({ source: "app", target: "ui", kind: "undeclared-import" })])
+  })
+
+  describe("unused dependencies", () => {
+    // app declares ui but none of its sources import it
+    const repo = (sourceFiles: number) => ({
+      "package.json": json({ workspaces: ["packages/*"] }),
+      "packages/app/package.json": json({ name: "app", dependencies: { ui: "*" } }),
+      "packages/ui/package.json": json({ name: "ui" }),
+      ...Object.fromEntries(Array.from({ length: sourceFiles }, (_, i) => [`packages/app/src/file${i}.ts`, "export {}"])),
+    })
+
+    it("marks declared dependencies no source imports", async () => {
+      const { edges } = await analyzeRepoGraph(memorySource(repo(3)), { deep: true })
+      expect(edges).toEqual([expect.objectContaining({ source: "app", target: "ui", unused: true })])
+    })
+
+    it("doesn't mark them when deep mode stopped at the source file limit", async () => {
+      const { edges, skipped } = await analyzeRepoGraph(memorySource(repo(2001)), { deep: true })
+
+      expect(skipped).toEqual([expect.objectContaining({ path: "/" })])
+      expect(edges).toHaveLength(1)
+      expect(edges[0]).not.toHaveProperty("unused")
+    })
+  })
+})
@@ -0,0 +1,660 @@
+import { WORKSPACE_CONFIG_FILES, dirname, joinPath, resolveWorkspaceDependency, resolveWorkspacePackages } from "@/lib/workspaces"
+import {
+  TSCONFIG_FILES,
+  isSourceFile,
+  owningPackage,
+  packageNameOf,
+  parseImports,
+  parseTsconfigPaths,
+  resolvePathAlias,
+  resolveRelativeImport,
+} from "@/lib/imports"
+import {
+  ARCHITECTURE_CONFIG_FILE,
+  NX_LINT_CONFIG_FILE,
+  collectTags,
+  evaluateRules,
+  parseArchitectureConfig,
+  parseNxDepConstraints,
+} from "@/lib/architecture"
+import { analyzeDrift } from "@/lib/drift"
+import { diffGraphs, isDependencyEdge } from "@/lib/graph"
+import { LOCKFILE_NAMES, parseLockfile, resolveLockfile } from "@/lib/lockfiles"
+import { MANIFEST_PARSERS, isManifestIgnored, parseManifests } from "@/lib/manifests"
+import { resolveRepoSource } from "@/lib/sources"
+import { RepoComparison } from "@/lib/sources/compare"
+import { satisfiesRange } from "@/lib/versions"
+import {
+  AnalysisData,
+  AnalysisStage,
+  AnalyzeOptions,
+  ArchitectureRule,
+  DependencyKind,
+  Graph,
+  GraphEdge,
+  GraphNode,
+  RepoFile,
+  RepoSource,
+  SkippedFile,
+} from "@/types"
+
+// Most source files read in deep mode; every file is one API request on hosted providers
+const MAX_SOURCE_FILES = 2000
+
+// Files an analysis may read, by name since they can sit in any package. Uploaded archives only
+// extract these.
+export function isAnalyzedFile(path: string, deep = false) {
+  const name = path.split("/").pop() || ""
+  return (
+    [...WORKSPACE_CONFIG_FILES, ...LOCKFILE_NAMES, "project.json", ARCHITECTURE_CONFIG_FILE, NX_LINT_CONFIG_FILE].includes(name) ||
+    MANIFEST_PARSERS.some((parser) => parser.matches(path)) ||
+    (deep && (isSourceFile(path) || TSCONFIG_FILES.includes(name)))
+  )
+}
+
+// Stages reported through AnalyzeOptions.onProgress, in order. "imports" only runs in deep mode.
+export const ANALYSIS_STAGES: AnalysisStage[] = ["listing", "packages", "imports", "lockfile", "manifests", "architecture"]
+
+// Packages found so far without their manifests, small enough to send to the browser mid-analysis
+const previewGraph = ({ nodes, edges }: Graph): Graph => ({
+  nodes: nodes.map(({ id, label, ecosystem, data }) => ({ id, label, ecosystem, data: { directory: data?.directory } })),
+  edges,
+})
+
+// Tell the caller how far the analysis is. Within a stage that reads files the percentage grows
+// with the files read, and a graph is sent along whenever packages or dependencies were found.
+function reportProgress(
+  options: AnalyzeOptions,
+  stage: AnalysisStage,
+  message: string,
+  { done, total, graph }: { done?: number; total?: number; graph?: Graph } = {},
+) {
+  if (!options.onProgress) return
+  const share = total ? (done || 0) / total : 0
+  options.onProgress({
+    stage,
+    message,
+    percent: Math.round(((ANALYSIS_STAGES.indexOf(stage) + share) / ANALYSIS_STAGES.length) * 100),
+    ...(total !== undefined ? { done: done || 0, total } : {}),
+    ...(graph ? { graph: previewGraph(graph) } : {}),
+  })
+}
+
+// Reports every file of a readFiles call, e.g. "package.json 37/180 read"
+function fileProgress(options: AnalyzeOptions, stage: AnalysisStage, label: string, total: number) {
+  let done = 0
+  reportProgress(options, stage, `${label} 0/${total} read`, { done, total })
+  return () => {
+    done++
+    reportProgress(options, stage, `${label} ${done}/${total} read`, { done, total })
+  }
+}
+
+// package.json fields with a name -> range map, and the edge kind each one produces
+const DEPENDENCY_FIELDS: Array<[string, DependencyKind]> = [
+  ["dependencies", "dependency"],
+  ["devDependencies", "devDependency"],
+  ["peerDependencies", "peerDependency"],
+  ["optionalDependencies", "optionalDependency"],
+]
+
+// Every dependency a package.json declares. bundledDependencies (or bundleDependencies) only lists
+// names, or `true` for all of them; their ranges come from dependencies.
+function declaredDependencies(pkg: Record<string, any>) {
+  const declared: Array<{ kind: DependencyKind; name: string; spec: string }> = []
+
+  for (const [field, kind] of DEPENDENCY_FIELDS) {
+    for (const [name, spec] of Object.entries(pkg[field] || {})) {
+      if (typeof spec === "string") declared.push({ kind, name, spec })
+    }
+  }
+
+  const bundled = pkg.bundledDependencies ?? pkg.bundleDependencies
+  const bundledNames: unknown[] = bundled === true ? Object.keys(pkg.dependencies || {}) : Array.isArray(bundled) ? bundled : []
+  for (const name of bundledNames) {
+    if (typeof name === "string") {
+      declared.push({ kind: "bundledDependency", name, spec: pkg.dependencies?.[name] ?? "*" })
+    }
+  }
+
+  return declared
+}
+
+export async function discoverPackageFiles(source: RepoSource, tree: RepoFile[]) {
+  // Read the root workspace configuration files that exist in the tree
+  const configFiles = tree.filter((file) => WORKSPACE_CONFIG_FILES.includes(file.path))
+  const { contents, skipped } = await source.readFiles(configFiles)
+
+  for (const file of skipped) {
+    console.warn(`Could not read ${file.path}, ignoring it for workspace discovery: ${file.reason}`)
+  }
+
+  const discovery = resolveWorkspacePackages(
+    tree.map((file) => file.path),
+    Object.fromEntries(contents),
+  )
+  console.log(
+    `Workspace discovery (${discovery.tools.join(", ") || "none"}): ${discovery.packageFiles.length} packages, ${discovery.projectFiles.length} Nx projects without package.json, ${discovery.ignored.length} package.json files ignored`,
+  )
+
+  return discovery
+}
+
+// Treat a subdirectory as the repository root: the tree and file reads use paths relative to it
+function scopeToPath(source: RepoSource, files: RepoFile[], path: string) {
+  const prefix = `${path.replace(/^\/+|\/+$/g, "")}/`
+  const tree = files
+    .filter((file) => file.path.startsWith(prefix))
+    .map((file) => ({ ...file, path: file.path.slice(prefix.length) }))
+
+  if (tree.length === 0) {
+    throw new Error(`Directory "${path}" does not exist in the repository or contains no files`)
+  }
+
+  const unscope = (path: string) => (path.startsWith(prefix) ? path.slice(prefix.length) : path)
+  const scoped: RepoSource = {
+    ...source,
+    readFiles: async (scopedFiles, onFileRead) => {
+      const { contents, skipped } = await source.readFiles(
+        scopedFiles.map((file) => ({ ...file, path: prefix + file.path })),
+        onFileRead,
+      )
+      return {
+        contents: new Map(Array.from(contents, ([path, content]) => [unscope(path), content])),
+        skipped: skipped.map((file) => ({ ...file, path: unscope(file.path) })),
+      }
+    },
+  }
+
+  return { source: scoped, tree }
+}
+
+// Path aliases of the root tsconfig files, the first one that declares any wins
+async function readPathAliases(source: RepoSource, tree: RepoFile[]) {
+  const { contents } = await source.readFiles(tree.filter((file) => TSCONFIG_FILES.includes(file.path)))
+
+  for (const name of TSCONFIG_FILES) {
+    const content = contents.get(name)
+    if (!content) continue
+    try {
+      const aliases = parseTsconfigPaths(content)
+      if (aliases.length > 0) return aliases
+    } catch (error) {
+      console.warn(`Failed to parse ${name}, its path aliases are not resolved:`, error)
+    }
+  }
+
+  return []
+}
+
+// Deep mode: parse the TS/JS sources of every package and resolve their imports to workspace packages,
+// by package name or through the root tsconfig's path aliases.
+// Returns "source-import" edges for imports the importing package declares and "undeclared-import" edges
+// for the ones it doesn't, and marks declared dependency edges that no source imports as unused.
+async function analyzeSourceImports(
+  source: RepoSource,
+  tree: RepoFile[],
+  modules: Map<string, { directory: string; declared: Record<string, string> }>,
+  directoryMap: Map<string, string>,
+  edges: GraphEdge[],
+  skipped: SkippedFile[],
+  options: AnalyzeOptions,
+) {
+  const packageNames = new Set(modules.keys())
+  const sourceFiles = tree.filter((file) => isSourceFile(file.path) && owningPackage(file.path, directoryMap) !== null)
+  const truncated = sourceFiles.length > MAX_SOURCE_FILES
+  if (truncated) {
+    skipped.push({
+      path: "/",
+      reason: `Deep mode reads at most ${MAX_SOURCE_FILES} source files, ${sourceFiles.length - MAX_SOURCE_FILES} were not analyzed`,
+    })
+  }
+
+  const toRead = sourceFiles.slice(0, MAX_SOURCE_FILES)
+  console.log(`Deep mode: reading ${toRead.length} source files`)
+  const { contents, skipped: unreadable } = await source.readFiles(toRead, fileProgress(options, "imports", "Source files", toRead.length))
+  skipped.push(...unreadable)
+
+  const allPaths = new Set(tree.map((file) => file.path))
+  const aliases = await readPathAliases(source, tree)
+  // Import sites per "importer\0imported" pair
+  const imports = new Map<string, number>()
+  const filesPerPackage = new Map<string, number>()
+
+  for (const [path, code] of contents) {
+    const from = owningPackage(path, directoryMap)
+    const importer = from === null ? undefined : modules.get(from)
+    if (from === null || !importer) continue
+    filesPerPackage.set(from, (filesPerPackage.get(from) || 0) + 1)
+
+    for (const specifier of parseImports(code)) {
+      let target: string | null = null
+
+      if (specifier.startsWith(".")) {
+        // Relative imports reaching into another package's directory bypass its package.json entirely
+        const file = resolveRelativeImport(specifier, path, allPaths)
+        target = file ? owningPackage(file, directoryMap) : null
+      } else if (!specifier.startsWith("node:")) {
+        // Path aliases come first, as in TypeScript (e.g. "@acme/ui/*" -> "packages/ui/src/*")
+        const aliased = resolvePathAlias(specifier, aliases, allPaths)
+        const name = packageNameOf(specifier)
+        const spec = importer.declared[name]
+        target = aliased
+          ? owningPackage(aliased, directoryMap)
+          : spec !== undefined
+            ? resolveWorkspaceDependency(name, spec, importer.directory, packageNames, directoryMap)
+            : packageNames.has(name)
+              ? name
+              : null
+      }
+
+      if (target && target !== from) {
+        const key = `${from}\u0000${target}`
+        imports.set(key, (imports.get(key) || 0) + 1)
+      }
+    }
+  }
+
+  const declaredEdges = new Set(edges.map((edge) => `${edge.source}\u0000${edge.target}`))
+
+  // Declared dependencies that none of the package's sources import (only judged for packages with sources).
+  // Not judged at all when files were left unread, the import could be in one of them.
+  for (const edge of truncated ? [] : edges) {
+    if (isDependencyEdge(edge) && filesPerPackage.has(edge.source) && !imports.has(`${edge.source}\u0000${edge.target}`)) {
+      edge.unused = true
+    }
+  }
+
+  for (const [key, count] of imports) {
+    const [from, target] = key.split("\u0000")
+    edges.push({ source: from, target, kind: declaredEdges.has(key) ? "source-import" : "undeclared-import", count })
+  }
+
+  console.log(`Deep mode: ${imports.size} package imports in ${contents.size} files`)
+}
+
+// Read the root lockfile, if any, and attach the resolved external dependencies to each workspace node
+async function analyzeLockfile(source: RepoSource, tree: RepoFile[], nodes: GraphNode[], skipped: SkippedFile[]) {
+  const file = LOCKFILE_NAMES.map((name) => tree.find((candidate) => candidate.path === name)).find(Boolean)
+  if (!file) {
+    console.log("No lockfile found, external dependencies stay at their declared ranges")
+    return undefined
+  }
+
+  const { contents, skipped: unread } = await source.readFiles([file])
+  skipped.push(...unread)
+  const content = contents.get(file.path)
+  if (content === undefined) return undefined
+
+  try {
+    const workspaces = nodes.map((node) => ({ id: node.id, directory: node.data?.directory || "", pkg: node.data?.pkg || {} }))
+    const lockfile = parseLockfile(file.path, content, workspaces)
+    const { summary, resolved } = resolveLockfile(file.path, lockfile, workspaces)
+
+    for (const node of nodes) {
+      node.data = { ...node.data, resolved: resolved.get(node.id) }
+    }
+
+    console.log(`${file.path} (${summary.format}): ${summary.packages} packages, ${summary.duplicates.length} installed at several versions`)
+    return summary
+  } catch (error) {
+    console.error(`Error parsing ${file.path}:`, error)
+    skipped.push({ path: file.path, reason: `Invalid lockfile: ${error instanceof Error ? error.message : "parse error"}` })
+    return undefined
+  }
+}
+
+// Packages of the other ecosystems (Cargo, Go, Python, Gradle, Maven), added to the same graph as the
+// npm workspaces. A name already taken by another ecosystem gets the ecosystem appended.
+async function analyzeManifests(
+  source: RepoSource,
+  tree: RepoFile[],
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  skipped: SkippedFile[],
+  options: AnalyzeOptions,
+) {
+  for (const parser of MANIFEST_PARSERS) {
+    const files = tree.filter((file) => parser.matches(file.path) && !isManifestIgnored(file.path))
+    if (files.length === 0) continue
+
+    const { contents, skipped: unread } = await source.readFiles(
+      files,
+      fileProgress(options, "manifests", `${parser.ecosystem} manifests`, files.length),
+    )
+    skipped.push(...unread)
+    const parsed = parseManifests(parser, contents)
+    skipped.push(...parsed.skipped)
+
+    const taken = new Set(nodes.map((node) => node.id))
+    const rename = (id: string) => (taken.has(id) ? `${id} (${parser.ecosystem})` : id)
+    nodes.push(...parsed.nodes.map((node) => ({ ...node, id: rename(node.id) })))
+    edges.push(...parsed.edges.map((edge) => ({ ...edge, source: rename(edge.source), target: rename(edge.target) })))
+
+    console.log(`${parser.ecosystem}: ${parsed.nodes.length} packages, ${parsed.edges.length} internal dependencies`)
+    reportProgress(options, "manifests", `${parser.ecosystem}: ${parsed.nodes.length} packages found`, { graph: { nodes, edges } })
+  }
+}
+
+// Evaluate the architecture rules declared at the repository root against the graph
+async function analyzeArchitecture(source: RepoSource, tree: RepoFile[], nodes: GraphNode[], edges: GraphEdge[], skipped: SkippedFile[]) {
+  const configFiles = tree.filter((file) => file.path === ARCHITECTURE_CONFIG_FILE || file.path === NX_LINT_CONFIG_FILE)
+  if (configFiles.length === 0) return undefined
+
+  const { contents, skipped: unread } = await source.readFiles(configFiles)
+  skipped.push(...unread)
+
+  const rules: ArchitectureRule[] = []
+  let configTags: Record<string, string[]> = {}
+  for (const [path, content] of contents) {
+    try {
+      if (path === ARCHITECTURE_CONFIG_FILE) {
+        const config = parseArchitectureConfig(content, path)
+        rules.push(...config.rules)
+        configTags = config.tags
+      } else {
+        rules.push(...parseNxDepConstraints(content, path))
+      }
+    } catch (error) {
+      console.error(`Error reading architecture rules from ${path}:`, error)
+      skipped.push({ path, reason: `Invalid architecture rules: ${error instanceof Error ? error.message : "parse error"}` })
+    }
+  }
+  if (rules.length === 0) return undefined
+
+  // Nx projects can keep their tags in a project.json next to the package.json
+  const projectTags = new Map<string, string[]>()
+  if (rules.some((rule) => [rule.from, ...(rule.allow || []), ...(rule.disallow || [])].some((selector) => selector.startsWith("tag:")))) {
+    const projectFiles = new Map(
+      nodes.flatMap((node) => {
+        const file = tree.find((candidate) => candidate.path === joinPath(node.data?.directory || "", "project.json"))
+        return file ? [[file.path, { file, id: node.id }] as const] : []
+      }),
+    )
+    const { contents: projects } = await source.readFiles(Array.from(projectFiles.values(), ({ file }) => file))
+    for (const [path, content] of projects) {
+      try {
+        const tags = JSON.parse(content).tags
+        if (Array.isArray(tags)) projectTags.set(projectFiles.get(path)!.id, tags)
+      } catch (error) {
+        console.warn(`Could not read the tags of ${path}:`, error)
+      }
+    }
+  }
+
+  const tags = collectTags(nodes, projectTags, configTags)
+  const violations = evaluateRules(nodes, edges, rules, tags)
+  for (const node of nodes) {
+    const nodeTags = tags.get(node.id)
+    if (nodeTags && nodeTags.length > 0) node.data = { ...node.data, tags: nodeTags }
+  }
+
+  console.log(`Architecture: ${rules.length} rules, ${violations.length} violations`)
+  return { rules, violations }
+}
+
+export async function analyzeRepoGraph(repoSource: RepoSource, options: AnalyzeOptions = {}) {
+  try {
+    console.log(`Analyzing repository graph for ${repoSource.provider}:${repoSource.owner}/${repoSource.repo}`)
+    reportProgress(options, "listing", `Fetching the file tree of ${repoSource.owner}/${repoSource.repo}`)
+    const { files, truncated, ...revision } = await repoSource.listFiles()
+    reportProgress(options, "listing", `Tree fetched: ${files.length} files`)
+    if (revision.ref) {
+      console.log(`Using ref ${revision.ref} (${revision.commit})${revision.path ? `, scoped to ${revision.path}` : ""}`)
+    }
+
+    // A subdirectory URL is analyzed as if that directory were the whole repository
+    const { source, tree } = revision.path
+      ? scopeToPath(repoSource, files, revision.path)
+      : { source: repoSource, tree: files }
+
+    const workspace = await discoverPackageFiles(source, tree)
+    const packagePaths = new Set(workspace.packageFiles)
+    const packageFiles = tree.filter((file) => packagePaths.has(file.path))
+    console.log(`Found ${packageFiles.length} workspace package.json files`)
+
+    const { contents, skipped } = await source.readFiles(
+      packageFiles,
+      fileProgress(options, "packages", "package.json", packageFiles.length),
+    )
+    if (truncated) {
+      skipped.push({ path: "/", reason: "The repository tree was truncated, packages in the missing part were not analyzed" })
+    }
+
+    // Create arrays for nodes and connections
+    const nodes: GraphNode[] = []
+    const edges: GraphEdge[] = []
+    const moduleMap = new Map<
+      string,
+      {
+        directory: string
+        dependencies: ReturnType<typeof declaredDependencies>
+        // Range of every declared dependency by name, used to tell declared from undeclared imports in deep mode
+        declared: Record<string, string>
+      }
+    >()
+    // Directory of each package, used to resolve path references like "file:../ui"
+    const directoryMap = new Map<string, string>()
+    // Package names declared by more than one package.json
+    const conflicts = new Map<string, string[]>()
+
+    // Process each package.json file
+    for (const file of packageFiles) {
+      const packageJson = contents.get(file.path)
+      if (packageJson === undefined) continue
+
+      try {
+        const directory = dirname(file.path)
+        const pkg = JSON.parse(packageJson)
+
+        // Key the module by its package name, falling back to its directory for unnamed packages
+        const name = typeof pkg.name === "string" ? pkg.name.trim() : ""
+        const moduleName = name || directory || "root"
+
+        console.log(`Processing package.json for module: ${moduleName}, path: ${file.path}`)
+
+        const existing = moduleMap.get(moduleName)
+        if (existing) {
+          console.warn(`Duplicate package name "${moduleName}" in ${file.path}, keeping ${joinPath(existing.directory, "package.json")}`)
+          const paths = conflicts.get(moduleName) || [joinPath(existing.directory, "package.json")]
+          conflicts.set(moduleName, [...paths, file.path])
+          continue
+        }
+
+        // Add node to graph
+        nodes.push({
+          id: moduleName,
+          label: name || directory.split("/").pop() || "root",
+          ecosystem: "npm",
+          data: {
+            path: file.path,
+            directory,
+            pkg,
+            packageJson, // Save original JSON for later analysis
+          },
+        })
+
+        // Save dependencies in module map
+        const dependencies = declaredDependencies(pkg)
+        moduleMap.set(moduleName, {
+          directory,
+          dependencies,
+          // Later fields win, so a dependency that is also a peer keeps its dependencies range
+          declared: Object.fromEntries([...dependencies].reverse().map(({ name, spec }) => [name, spec])),
+        })
+        directoryMap.set(directory, moduleName)
+      } catch (error) {
+        console.error(`Error processing package.json for ${file.path}:`, error)
+        skipped.push({ path: file.path, reason: `Invalid package.json: ${error instanceof Error ? error.message : "parse error"}` })
+      }
+    }
+
+    // Nx projects without a package.json, named by their project.json. They declare no dependencies,
+    // their edges come from the imports in deep mode.
+    const projectPaths = new Set(workspace.projectFiles)
+    const { contents: projects, skipped: unreadProjects } = await source.readFiles(
+      tree.filter((file) => projectPaths.has(file.path)),
+    )
+    skipped.push(...unreadProjects)
+    for (const path of workspace.projectFiles) {
+      const content = projects.get(path)
+      if (content === undefined) continue
+
+      try {
+        const directory = dirname(path)
+        const project = JSON.parse(content)
+        const moduleName = (typeof project.name === "string" && project.name.trim()) || directory
+
+        const existing = nodes.find((node) => node.id === moduleName)
+        if (existing) {
+          console.warn(`Duplicate project name "${moduleName}" in ${path}, keeping ${existing.data?.path}`)
+          conflicts.set(moduleName, [...(conflicts.get(moduleName) || [existing.data?.path || ""]), path])
+          continue
+        }
+
+        nodes.push({
+          id: moduleName,
+          label: moduleName.split("/").pop() || moduleName,
+          ecosystem: "npm",
+          data: { path, directory, project },
+        })
+        moduleMap.set(moduleName, { directory, dependencies: [], declared: {} })
+        directoryMap.set(directory, moduleName)
+      } catch (error) {
+        console.error(`Error processing project.json for ${path}:`, error)
+        skipped.push({ path, reason: `Invalid project.json: ${error instanceof Error ? error.message : "parse error"}` })
+      }
+    }
+
+    console.log(`Successfully processed ${nodes.length} modules`)
+
+    // Find internal dependencies (within the same repository)
+    const packageNames = new Set(moduleMap.keys())
+    const versions = new Map(nodes.map((node) => [node.id, node.data?.pkg?.version as string | undefined]))
+    for (const [sourceName, sourceData] of moduleMap.entries()) {
+      for (const { kind, name, spec } of sourceData.dependencies) {
+        const target = resolveWorkspaceDependency(name, spec, sourceData.directory, packageNames, directoryMap)
+        if (target && target !== sourceName) {
+          edges.push({
+            source: sourceName,
+            target,
+            kind,
+            range: spec,
+            satisfied: satisfiesRange(spec, versions.get(target)),
+            ecosystem: "npm",
+          })
+        }
+      }
+    }
+
+    console.log(`Found ${edges.length} internal dependencies between modules`)
+    reportProgress(options, "packages", `Edges resolved: ${edges.length} dependencies between ${nodes.length} packages`, {
+      graph: { nodes, edges },
+    })
+
+    if (options.deep) {
+      await analyzeSourceImports(source, tree, moduleMap, directoryMap, edges, skipped, options)
+      reportProgress(options, "imports", "Imports resolved", { graph: { nodes, edges } })
+    }
+
+    reportProgress(options, "lockfile", "Reading the lockfile")
+    const lockfile = await analyzeLockfile(source, tree, nodes, skipped)
+
+    reportProgress(options, "manifests", "Looking for packages of other ecosystems")
+    await analyzeManifests(source, tree, nodes, edges, skipped, options)
+
+    reportProgress(options, "architecture", "Checking the architecture rules")
+    const architecture = await analyzeArchitecture(source, tree, nodes, edges, skipped)
+
+    // Nothing could be read at all, surface the reason (usually the rate limit) instead of an empty graph
+    if (nodes.length === 0 && skipped.length > 0) {
+      throw new Error(skipped[0].reason)
+    }
+
+    // No edges is a valid result (e.g. a repository of independent packages), never invent any
+    if (edges.length === 0 && nodes.length > 1) {
+      console.log("No internal dependencies found between modules")
+    }
+
+    return {
+      nodes,
+      edges,
+      conflicts: Array.from(conflicts, ([name, paths]) => ({ name, paths })),
+      workspace,
+      skipped,
+      revision,
+      lockfile,
+      architecture,
+    }
+  } catch (error) {
+    console.error("Error in analyzeRepoGraph:", error)
+    throw error
+  }
+}
+
+export async function analyzeMonorepo(input: string, options: AnalyzeOptions = {}) {
+  // Resolve the GitHub URL or local path to a source
+  const source = await resolveRepoSource(input)
+  return analyzeSource(source, options)
+}
+
+export async function analyzeSource(source: RepoSource, options: AnalyzeOptions = {}): Promise<AnalysisData> {
+  // Analyze the repository graph
+  const { workspace, skipped, revision, lockfile, architecture, ...graph } = await analyzeRepoGraph(source, options)
+
+  // If we couldn't find any nodes, throw an error
+  if (graph.nodes.length === 0) {
+    throw new Error(
+      "No packages found in the repository (package.json, Cargo.toml, go.mod, pyproject.toml, Gradle or Maven builds) or failed to analyze them.",
+    )
+  }
+
+  return {
+    provider: source.provider,
+    owner: source.owner,
+    repo: source.repo,
+    graph,
+    workspace: { tools: workspace.tools, patterns: workspace.patterns },
+    skipped,
+    drift: analyzeDrift(graph),
+    ...(lockfile ? { lockfile } : {}),
+    ...(architecture ? { architecture } : {}),
+    ...(revision.ref || revision.path ? { revision } : {}),
+    ...(options.deep ? { deep: true } : {}),
+  }
+}
+
+// Analyze both sides of a comparison and diff their graphs. The result is the head analysis,
+// with the diff attached so removed packages and edges can still be drawn.
+export async function analyzeComparison(comparison: RepoComparison, options: AnalyzeOptions = {}): Promise<AnalysisData> {
+  console.log(`Comparing ${comparison.repoUrl} ${comparison.base}...${comparison.head}`)
+
+  // One after the other, both sides share the provider's rate limit. A ref is passed as a single
+  // segment so names containing slashes aren't split into a ref and a path.
+  // Each side is half of the progress
+  const side = (ref: string, offset: number): AnalyzeOptions => ({
+    ...options,
+    onProgress:
+      options.onProgress &&
+      ((progress) => options.onProgress!({ ...progress, message: `${ref}: ${progress.message}`, percent: offset + Math.round(progress.percent / 2) })),
+  })
+  const base = await analyzeSource(await resolveRepoSource(comparison.repoUrl, [comparison.base]), side(comparison.base, 0))
+  const head = await analyzeSource(await resolveRepoSource(comparison.repoUrl, [comparison.head]), side(comparison.head, 50))
+
+  const diff = diffGraphs(base.graph, head.graph)
+  console.log(
+    `Diff: +${diff.addedPackages.length}/-${diff.removedPackages.length} packages, ` +
+      `+${diff.addedEdges.length}/-${diff.removedEdges.length} edges, ${diff.newCycles.length} new cycles`,
+  )
+
+  return {
+    ...head,
+    skipped: [...(base.skipped || []), ...(head.skipped || [])],
+    comparison: {
+      base: base.revision || { ref: comparison.base },
+      head: head.revision || { ref: comparison.head },
+      pullRequest: comparison.pullRequest,
+      diff,
+    },
+  }
+}
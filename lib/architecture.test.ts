@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest"
+
+import { collectTags, evaluateRules, parseArchitectureConfig, parseNxDepConstraints } from "@/lib/architecture"
+import { GraphEdge, GraphNode } from "@/types"
+
+// Packages by directory, named after their last segment
+const node = (directory: string, tags: string[] = []): GraphNode => ({
+  id: directory.split("/").pop() as string,
+  data: { directory, pkg: { nx: { tags } } },
+})
+
+// Edges from "a>b" strings, "a>b:devDependency" for other kinds
+const edges = (...list: string[]) =>
+  list.map((edge) => {
+    const [pair, kind = "dependency"] = edge.split(":")
+    const [source, target] = pair.split(">")
+    return { source, target, kind } as GraphEdge
+  })
+
+describe("parseArchitectureConfig", () => {
+  it("turns layers into rules against the layers above", () => {
+    const { rules } = parseArchitectureConfig(JSON.stringify({ layers: ["apps/*", "features/*", "libs/*"] }))
+
+    expect(rules.map(({ from, disallow }) => ({ from, disallow }))).toEqual([
+      { from: "features/*", disallow: ["apps/*"] },
+      { from: "libs/*", disallow: ["apps/*", "features/*"] },
+    ])
+  })
+
+  it("describes rules without a description", () => {
+    const { rules } = parseArchitectureConfig(JSON.stringify({ rules: [{ from: "ui/*", allow: [], disallow: ["server/*"] }] }))
+    expect(rules[0].description).toBe("ui/* may only depend on nothing and may not depend on server/*")
+  })
+
+  it("rejects invalid rules", () => {
+    expect(() => parseArchitectureConfig(JSON.stringify({ rules: [{ from: "ui/*" }] }))).toThrow('rule 1 needs "allow" or "disallow"')
+    expect(() => parseArchitectureConfig(JSON.stringify({ rules: [{ from: "a", allow: ["b"], kinds: ["nope"] }] }))).toThrow(
+      '"kinds" of rule 1',
+    )
+  })
+})
+
+describe("parseNxDepConstraints", () => {
+  it("reads depConstraints from rules and overrides as tag rules", () => {
+    const config = {
+      overrides: [
+        {
+          rules: {
+            "@nx/enforce-module-boundaries": [
+              "error",
+              {
+                depConstraints: [
+                  { sourceTag: "type:ui", onlyDependOnLibsWithTags: ["type:ui", "type:util"] },
+                  { sourceTag: "*", onlyDependOnLibsWithTags: ["*"] },
+                ],
+              },
+            ],
+          },
+        },
+      ],
+    }
+
+    expect(parseNxDepConstraints(JSON.stringify(config)).map(({ from, allow }) => ({ from, allow }))).toEqual([
+      { from: "tag:type:ui", allow: ["tag:type:ui", "tag:type:util"] },
+      { from: "*", allow: ["*"] },
+    ])
+  })
+})
+
+describe("evaluateRules", () => {
+  const nodes = [node("apps/web"), node("libs/ui", ["type:ui"]), node("libs/db", ["type:data"]), node("libs/util", ["type:util"])]
+
+  it("reports each forbidden dependency once per rule", () => {
+    const { rules } = parseArchitectureConfig(
+      JSON.stringify({ rules: [{ from: "tag:type:ui", allow: ["tag:type:util"] }, { from: "libs/*", disallow: ["web"] }] }),
+    )
+    const tags = collectTags(nodes, new Map(), {})
+
+    expect(evaluateRules(nodes, edges("ui>util", "ui>db", "ui>db:devDependency", "db>web", "web>db"), rules, tags)).toEqual([
+      { rule: 0, source: "ui", target: "db", kind: "dependency" },
+      { rule: 1, source: "db", target: "web", kind: "dependency" },
+    ])
+  })
+
+  it("only checks the edge kinds a rule lists", () => {
+    const { rules } = parseArchitectureConfig(JSON.stringify({ rules: [{ from: "*", disallow: ["db"], kinds: ["devDependency"] }] }))
+
+    expect(evaluateRules(nodes, edges("web>db", "ui>db:devDependency"), rules, new Map())).toEqual([
+      { rule: 0, source: "ui", target: "db", kind: "devDependency" },
+    ])
+  })
+})
+
+describe("collectTags", () => {
+  it("merges package.json, project.json and config tags", () => {
+    const tags = collectTags([node("libs/ui", ["type:ui"])], new Map([["ui", ["scope:shared"]]]), { "libs/*": ["layer:lib"] })
+    expect(tags.get("ui")).toEqual(["type:ui", "scope:shared", "layer:lib"])
+  })
+})
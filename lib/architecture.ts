@@ -0,0 +1,151 @@
+import { EDGE_KINDS } from "@/lib/graph"
+import { globToRegExp } from "@/lib/workspaces"
+import { ArchitectureRule, EdgeKind, GraphEdge, GraphNode, RuleViolation } from "@/types"
+
+// Architecture rules of the analyzed repository, at its root:
+//
+//   {
+//     "tags": { "packages/ui-*": ["type:ui"] },
+//     "layers": ["apps/*", "features/*", "libs/*"],
+//     "rules": [{ "from": "packages/ui-*", "disallow": ["packages/server-*"] }]
+//   }
+export const ARCHITECTURE_CONFIG_FILE = ".monocloud.json"
+// Nx keeps its depConstraints in the options of the enforce-module-boundaries lint rule
+export const NX_LINT_CONFIG_FILE = ".eslintrc.json"
+
+const TAG_PREFIX = "tag:"
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string")
+
+function describeRule(rule: Omit<ArchitectureRule, "description" | "file">) {
+  const parts = [
+    rule.allow && `may only depend on ${rule.allow.join(", ") || "nothing"}`,
+    rule.disallow && `may not depend on ${rule.disallow.join(", ")}`,
+  ].filter(Boolean)
+  return `${rule.from} ${parts.join(" and ")}`
+}
+
+function parseRule(value: any, file: string, index: number): ArchitectureRule {
+  if (!value || typeof value.from !== "string") {
+    throw new Error(`rule ${index + 1} needs a "from" selector`)
+  }
+  if (value.allow !== undefined && !isStringList(value.allow)) {
+    throw new Error(`"allow" of rule ${index + 1} must be a list of selectors`)
+  }
+  if (value.disallow !== undefined && !isStringList(value.disallow)) {
+    throw new Error(`"disallow" of rule ${index + 1} must be a list of selectors`)
+  }
+  if (value.allow === undefined && value.disallow === undefined) {
+    throw new Error(`rule ${index + 1} needs "allow" or "disallow"`)
+  }
+  if (value.kinds !== undefined && !(isStringList(value.kinds) && value.kinds.every((kind: string) => (EDGE_KINDS as string[]).includes(kind)))) {
+    throw new Error(`"kinds" of rule ${index + 1} must be a list of ${EDGE_KINDS.join(", ")}`)
+  }
+
+  const rule = { from: value.from, allow: value.allow, disallow: value.disallow, kinds: value.kinds as EdgeKind[] | undefined }
+  return { ...rule, description: typeof value.description === "string" ? value.description : describeRule(rule), file }
+}
+
+// Rules and tags of a .monocloud.json. Layers are listed top down: a layer may depend on the layers
+// below it but not on the ones above.
+export function parseArchitectureConfig(content: string, file = ARCHITECTURE_CONFIG_FILE) {
+  const config = JSON.parse(content)
+  const rules: ArchitectureRule[] = (Array.isArray(config.rules) ? config.rules : []).map((rule: unknown, index: number) =>
+    parseRule(rule, file, index),
+  )
+
+  if (config.layers !== undefined) {
+    if (!isStringList(config.layers)) throw new Error(`"layers" must be a list of selectors`)
+    const layers: string[] = config.layers
+    layers.forEach((layer, index) => {
+      if (index === 0) return
+      const above = layers.slice(0, index)
+      rules.push({ from: layer, disallow: above, description: `${layer} may not depend on the layers above it (${above.join(", ")})`, file })
+    })
+  }
+
+  const tags: Record<string, string[]> = {}
+  for (const [selector, list] of Object.entries(config.tags || {})) {
+    if (!isStringList(list)) throw new Error(`tags of "${selector}" must be a list of strings`)
+    tags[selector] = list
+  }
+
+  return { rules, tags }
+}
+
+// Nx depConstraints from the root .eslintrc.json, in its rules or in any override
+export function parseNxDepConstraints(content: string, file = NX_LINT_CONFIG_FILE): ArchitectureRule[] {
+  const config = JSON.parse(content)
+  const ruleSets = [config.rules, ...(Array.isArray(config.overrides) ? config.overrides.map((override: any) => override?.rules) : [])]
+
+  const constraints = ruleSets.flatMap((rules) =>
+    Object.entries<any>(rules || {})
+      .filter(([name]) => name.endsWith("enforce-module-boundaries"))
+      .flatMap(([, setting]) => (Array.isArray(setting) ? setting[1]?.depConstraints || [] : [])),
+  )
+
+  return constraints
+    .filter((constraint: any) => typeof constraint?.sourceTag === "string")
+    .map((constraint: any) => {
+      const toTags = (list: unknown) => (isStringList(list) ? list.map((tag) => (tag === "*" ? "*" : `${TAG_PREFIX}${tag}`)) : undefined)
+      const rule = {
+        from: constraint.sourceTag === "*" ? "*" : `${TAG_PREFIX}${constraint.sourceTag}`,
+        allow: toTags(constraint.onlyDependOnLibsWithTags),
+        disallow: toTags(constraint.notDependOnLibsWithTags),
+      }
+      return { ...rule, description: describeRule(rule), file }
+    })
+    .filter((rule: ArchitectureRule) => rule.allow || rule.disallow)
+}
+
+// Whether a package matches a selector: "*", "tag:<glob>", or a glob on its directory or name
+function matches(selector: string, node: GraphNode, tags: string[]) {
+  if (selector === "*") return true
+  if (selector.startsWith(TAG_PREFIX)) {
+    const pattern = globToRegExp(selector.slice(TAG_PREFIX.length))
+    return tags.some((tag) => pattern.test(tag))
+  }
+  const pattern = globToRegExp(selector)
+  return pattern.test(node.data?.directory ?? "") || pattern.test(node.id)
+}
+
+// Tags of each package: Nx tags from package.json or project.json, plus the ones the config assigns
+export function collectTags(nodes: GraphNode[], projectTags: Map<string, string[]>, configTags: Record<string, string[]>) {
+  return new Map(
+    nodes.map((node) => {
+      const tags = new Set<string>([...(node.data?.pkg?.nx?.tags || []), ...(projectTags.get(node.id) || [])])
+      for (const [selector, list] of Object.entries(configTags)) {
+        if (matches(selector, node, [])) list.forEach((tag) => tags.add(tag))
+      }
+      return [node.id, Array.from(tags)]
+    }),
+  )
+}
+
+// Every dependency that breaks a rule, once per rule even when several edge kinds connect the packages
+export function evaluateRules(nodes: GraphNode[], edges: GraphEdge[], rules: ArchitectureRule[], tags: Map<string, string[]>) {
+  const byId = new Map(nodes.map((node) => [node.id, node]))
+  const violations: RuleViolation[] = []
+
+  rules.forEach((rule, index) => {
+    const seen = new Set<string>()
+    for (const edge of edges) {
+      const source = byId.get(edge.source)
+      const target = byId.get(edge.target)
+      if (!source || !target || (rule.kinds && !rule.kinds.includes(edge.kind))) continue
+      if (!matches(rule.from, source, tags.get(source.id) || [])) continue
+
+      const targetMatches = (selector: string) => matches(selector, target, tags.get(target.id) || [])
+      const allowed = !rule.allow || rule.allow.some(targetMatches)
+      const disallowed = rule.disallow?.some(targetMatches) ?? false
+      const key = `${edge.source}\u0000${edge.target}`
+      if ((!allowed || disallowed) && !seen.has(key)) {
+        seen.add(key)
+        violations.push({ rule: index, source: edge.source, target: edge.target, kind: edge.kind })
+      }
+    }
+  })
+
+  return violations
+}
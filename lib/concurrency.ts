@@ -0,0 +1,23 @@
+// Small helpers to run many requests without overwhelming remote APIs
+
+export const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Run `worker` over every item with at most `limit` calls in flight, preserving result order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let nextIndex = 0
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      results[index] = await worker(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, runWorker))
+  return results
+}
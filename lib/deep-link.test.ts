@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+
+import { DEFAULT_GRAPH_VIEW_STATE, buildDeepLink, parseDeepLink } from "@/lib/deep-link"
+import { DEFAULT_EDGE_KINDS } from "@/lib/graph"
+import { DeepLink } from "@/types"
+
+const link = (changes: Partial<DeepLink> = {}): DeepLink => ({
+  source: { url: "https://github.com/acme/app", deep: false },
+  module: null,
+  tab: null,
+  edgeKinds: DEFAULT_EDGE_KINDS,
+  viewState: DEFAULT_GRAPH_VIEW_STATE,
+  ...changes,
+})
+
+const roundTrip = (value: DeepLink) => parseDeepLink(new URLSearchParams(buildDeepLink(value).toString()))
+
+describe("deep links", () => {
+  it("leaves defaults out of the query", () => {
+    expect(buildDeepLink(link()).toString()).toBe("repo=https%3A%2F%2Fgithub.com%2Facme%2Fapp")
+  })
+
+  it("round-trips a link with every part set", () => {
+    const value = link({
+      source: { url: "https://gitlab.com/acme/web/app", deep: true },
+      tab: "metrics",
+      edgeKinds: ["dependency", "source-import"],
+      viewState: {
+        layout: "layered",
+        view: "2d",
+        filter: { directory: "packages/ui-*", scopes: ["@acme"], tags: ["type:ui"], focusHops: Infinity },
+        camera: { position: [1.5, -2, 30], target: [0, 0, 0] },
+      },
+    })
+    expect(roundTrip(value)).toEqual(value)
+  })
+
+  it("round-trips a module with a tab of its detail view", () => {
+    const value = link({ module: "@acme/ui", tab: "stats" })
+    expect(roundTrip(value)).toEqual(value)
+  })
+
+  it("drops tabs the detail view of a module doesn't show", () => {
+    for (const tab of ["metrics", "modules", "drift"] as const) {
+      expect(buildDeepLink(link({ module: "@acme/ui", tab })).has("tab")).toBe(false)
+      const parsed = parseDeepLink(new URLSearchParams({ repo: "acme/app", module: "@acme/ui", tab }))
+      expect(parsed?.tab).toBeNull()
+      expect(parsed && roundTrip(parsed)).toEqual(parsed)
+    }
+  })
+
+  it("falls back to the defaults for unknown values", () => {
+    const parsed = parseDeepLink(new URLSearchParams({ repo: "acme/app", tab: "nope", layout: "spiral", focus: "-1", camera: "1,2" }))
+    expect(parsed).toEqual(link({ source: { url: "acme/app", deep: false } }))
+  })
+})
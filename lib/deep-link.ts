@@ -0,0 +1,79 @@
+import { DEFAULT_EDGE_KINDS, EDGE_KINDS, EMPTY_GRAPH_FILTER } from "@/lib/graph"
+import { DEFAULT_GRAPH_LAYOUT, GRAPH_LAYOUTS } from "@/lib/layout"
+import { CameraPose, DeepLink, EdgeKind, GraphLayout, GraphViewState, InsightsTab } from "@/types"
+
+export const INSIGHTS_TABS: InsightsTab[] = ["ai", "stats", "metrics", "modules", "drift"]
+// Tabs the sidebar shows while a module is selected, the others are about the whole repository
+export const DETAIL_TABS: InsightsTab[] = ["ai", "stats"]
+
+// Whether the sidebar can show `tab`, in the detail view of a module or the repository overview
+export const isTabShown = (tab: InsightsTab, isDetailView: boolean) => !isDetailView || DETAIL_TABS.includes(tab)
+
+export const DEFAULT_GRAPH_VIEW_STATE: GraphViewState = {
+  layout: DEFAULT_GRAPH_LAYOUT,
+  view: "3d",
+  filter: EMPTY_GRAPH_FILTER,
+  camera: null,
+}
+
+// Camera coordinates are rounded, more digits only make links longer
+const round = (value: number) => Math.round(value * 100) / 100
+
+const sameKinds = (a: EdgeKind[], b: EdgeKind[]) => a.length === b.length && a.every((kind) => b.includes(kind))
+
+function parseCamera(value: string | null): CameraPose | null {
+  const numbers = (value || "").split(",").map(Number)
+  if (numbers.length !== 6 || !numbers.every(Number.isFinite)) return null
+  return { position: [numbers[0], numbers[1], numbers[2]], target: [numbers[3], numbers[4], numbers[5]] }
+}
+
+// Query string of a link, e.g. "?repo=https://github.com/acme/app&module=@acme/ui&tab=metrics&focus=2".
+// Defaults are left out so ordinary links stay short.
+export function buildDeepLink({ source, module, tab, edgeKinds, viewState }: DeepLink) {
+  const params = new URLSearchParams({ repo: source.url })
+  if (source.deep) params.set("deep", "1")
+  if (module) params.set("module", module)
+  if (tab && tab !== "ai" && isTabShown(tab, Boolean(module))) params.set("tab", tab)
+  if (!sameKinds(edgeKinds, DEFAULT_EDGE_KINDS)) params.set("edges", edgeKinds.join(","))
+  if (viewState.layout !== DEFAULT_GRAPH_LAYOUT) params.set("layout", viewState.layout)
+  if (viewState.view === "2d") params.set("view", "2d")
+
+  const { filter, camera } = viewState
+  if (filter.directory.trim()) params.set("dir", filter.directory.trim())
+  filter.scopes.forEach((scope) => params.append("scope", scope))
+  filter.tags.forEach((tag) => params.append("tag", tag))
+  if (filter.focusHops !== null) params.set("focus", filter.focusHops === Infinity ? "all" : String(filter.focusHops))
+  if (camera) params.set("camera", [...camera.position, ...camera.target].map(round).join(","))
+  return params
+}
+
+// The link in a query string, null without a repository. Unknown values fall back to the defaults.
+export function parseDeepLink(params: URLSearchParams): DeepLink | null {
+  const url = params.get("repo")?.trim()
+  if (!url) return null
+
+  const module = params.get("module") || null
+  const tab = params.get("tab") as InsightsTab | null
+  const layout = params.get("layout") as GraphLayout | null
+  const edges = params.get("edges")
+  const focus = params.get("focus")
+  const hops = focus === "all" ? Infinity : Number(focus)
+
+  return {
+    source: { url, deep: params.get("deep") === "1" },
+    module,
+    tab: tab && INSIGHTS_TABS.includes(tab) && isTabShown(tab, Boolean(module)) ? tab : null,
+    edgeKinds: edges === null ? DEFAULT_EDGE_KINDS : EDGE_KINDS.filter((kind) => edges.split(",").includes(kind)),
+    viewState: {
+      layout: layout && GRAPH_LAYOUTS.includes(layout) ? layout : DEFAULT_GRAPH_LAYOUT,
+      view: params.get("view") === "2d" ? "2d" : "3d",
+      filter: {
+        directory: params.get("dir") || "",
+        scopes: params.getAll("scope"),
+        tags: params.getAll("tag"),
+        focusHops: focus && (hops === Infinity || (Number.isInteger(hops) && hops > 0)) ? hops : null,
+      },
+      camera: parseCamera(params.get("camera")),
+    },
+  }
+}
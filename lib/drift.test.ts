@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+
+import { analyzeDrift } from "@/lib/drift"
+import { DependencyEdge, GraphNode } from "@/types"
+
+const node = (id: string, pkg: Record<string, any>): GraphNode => ({ id, data: { pkg: { name: id, ...pkg } } })
+
+const edge = (source: string, target: string, range: string, satisfied: boolean | null): DependencyEdge => ({
+  source,
+  target,
+  kind: "dependency",
+  range,
+  satisfied,
+})
+
+describe("analyzeDrift", () => {
+  it("reports external dependencies declared at different ranges, conflicting majors first", () => {
+    const nodes = [
+      node("web", { dependencies: { react: "^18.2.0", lodash: "^4.17.0", ui: "workspace:*" } }),
+      node("admin", { dependencies: { react: "^17.0.2", lodash: "~4.17.21" }, devDependencies: { typescript: "^5.4.0" } }),
+      node("ui", { version: "1.0.0", devDependencies: { typescript: "^5.4.0" }, peerDependencies: { react: ">=17" } }),
+    ]
+    const { external } = analyzeDrift({ nodes, edges: [] })
+
+    expect(external).toEqual([
+      {
+        dependency: "react",
+        ranges: ["^17.0.2", "^18.2.0"],
+        majors: [17, 18],
+        severity: "major",
+        declarations: [
+          { package: "admin", field: "dependencies", range: "^17.0.2" },
+          { package: "web", field: "dependencies", range: "^18.2.0" },
+        ],
+      },
+      expect.objectContaining({ dependency: "lodash", ranges: ["^4.17.0", "~4.17.21"], majors: [4], severity: "range" }),
+    ])
+  })
+
+  it("ignores specifiers that don't name a registry version", () => {
+    const nodes = [
+      node("a", { dependencies: { shared: "file:../shared", tool: "github:acme/tool" } }),
+      node("b", { dependencies: { shared: "link:../shared", tool: "^1.0.0" } }),
+    ]
+    expect(analyzeDrift({ nodes, edges: [] }).external).toEqual([])
+  })
+
+  it("lists workspace dependencies whose range excludes the current version", () => {
+    const nodes = [node("app", {}), node("ui", { version: "2.0.0" }), node("util", { version: "1.0.0" })]
+    const edges = [edge("app", "ui", "^1.0.0", false), edge("app", "util", "^1.0.0", true), edge("ui", "util", "file:../util", null)]
+
+    expect(analyzeDrift({ nodes, edges }).internal).toEqual([
+      { package: "app", dependency: "ui", kind: "dependency", range: "^1.0.0", version: "2.0.0" },
+    ])
+  })
+})
@@ -0,0 +1,68 @@
+import semver from "semver"
+import { isDependencyEdge } from "@/lib/graph"
+import { declaredRange } from "@/lib/versions"
+import { DependencyDrift, DriftReport, Graph } from "@/types"
+
+// Fields compared across workspaces. peerDependencies are left out on purpose: they are meant to be
+// broad (">=17") and differ from the ranges packages install without that being drift.
+const DRIFT_FIELDS = ["dependencies", "devDependencies", "optionalDependencies"] as const
+
+// Specifiers that don't name a registry version, differences between them aren't drift
+const isRegistryRange = (range: string) => !/^(workspace|file|link|portal|git\+?|github|https?|patch):/.test(range)
+
+// Lowest major version a range allows, null for ranges like "*" or dist-tags
+function majorOf(spec: string) {
+  const range = declaredRange(spec)
+  if (range === null || range === "*") return null
+  return semver.minVersion(range)?.major ?? null
+}
+
+// Find external dependencies declared at different ranges by different workspaces, and internal
+// dependencies whose declared range excludes the current version of the workspace package
+export function analyzeDrift(graph: Graph): DriftReport {
+  const internal = new Set(graph.nodes.map((node) => node.id))
+  const declarations = new Map<string, DependencyDrift["declarations"]>()
+
+  for (const node of graph.nodes) {
+    for (const field of DRIFT_FIELDS) {
+      for (const [dependency, range] of Object.entries<unknown>(node.data?.pkg?.[field] || {})) {
+        if (internal.has(dependency) || typeof range !== "string" || !isRegistryRange(range)) continue
+        declarations.set(dependency, [...(declarations.get(dependency) || []), { package: node.id, field, range }])
+      }
+    }
+  }
+
+  const external: DependencyDrift[] = []
+  for (const [dependency, declared] of declarations) {
+    const ranges = Array.from(new Set(declared.map((declaration) => declaration.range))).sort()
+    if (ranges.length < 2) continue
+
+    const majors = Array.from(new Set(ranges.map(majorOf).filter((major): major is number => major !== null))).sort(
+      (a, b) => a - b,
+    )
+    external.push({
+      dependency,
+      ranges,
+      majors,
+      severity: majors.length > 1 ? "major" : "range",
+      declarations: declared.sort((a, b) => a.package.localeCompare(b.package)),
+    })
+  }
+
+  // Conflicting majors first, then the dependencies with the most different ranges
+  external.sort(
+    (a, b) =>
+      Number(b.severity === "major") - Number(a.severity === "major") ||
+      b.ranges.length - a.ranges.length ||
+      a.dependency.localeCompare(b.dependency),
+  )
+
+  const versions = new Map(graph.nodes.map((node) => [node.id, node.data?.pkg?.version as string | undefined]))
+  const mismatches = graph.edges.filter(isDependencyEdge).flatMap((edge) =>
+    edge.satisfied === false
+      ? [{ package: edge.source, dependency: edge.target, kind: edge.kind, range: edge.range, version: versions.get(edge.target) || "" }]
+      : [],
+  )
+
+  return { external, internal: mismatches }
+}
@@ -9,5 +9,14 @@ declare namespace NodeJS {
     UPSTASH_REDIS_REST_URL?: string
     UPSTASH_REDIS_REST_TOKEN?: string
     ADMIN_API_KEY?: string
+    ANALYSIS_API_KEYS?: string
+    LOCAL_REPOS_ROOT?: string
+    GITLAB_TOKEN?: string
+    GITLAB_HOSTS?: string
+    BITBUCKET_USERNAME?: string
+    BITBUCKET_APP_PASSWORD?: string
+    BITBUCKET_TOKEN?: string
+    GITEA_TOKEN?: string
+    GITEA_HOSTS?: string
   }
 }
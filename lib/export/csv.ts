@@ -0,0 +1,29 @@
+import { EDGE_FIELDS, NODE_FIELDS } from "@/lib/export/fields"
+import { ExportContext } from "@/types"
+
+// RFC 4180: fields with commas, quotes or line breaks are quoted, quotes doubled
+const cell = (value: string | number | boolean | null) => {
+  const text = value === null ? "" : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const table = (header: string[], rows: Array<Array<string | number | boolean | null>>) =>
+  [header, ...rows].map((row) => row.map(cell).join(",")).join("\r\n") + "\r\n"
+
+const capitalize = (name: string) => name[0].toUpperCase() + name.slice(1)
+
+// Node list with the column names Gephi's spreadsheet import recognizes (Id, Label)
+export function exportNodesCsv({ nodes, metricsOf }: ExportContext) {
+  return table(
+    ["Id", ...NODE_FIELDS.map((field) => capitalize(field.name))],
+    nodes.map((node) => [node.id, ...NODE_FIELDS.map((field) => field.value(node, metricsOf.get(node.id)))]),
+  )
+}
+
+// Edge list with Gephi's Source, Target and Type columns
+export function exportEdgesCsv({ edges }: ExportContext) {
+  return table(
+    ["Source", "Target", "Type", ...EDGE_FIELDS.map((field) => capitalize(field.name))],
+    edges.map((edge) => [edge.source, edge.target, "Directed", ...EDGE_FIELDS.map((field) => field.value(edge))]),
+  )
+}
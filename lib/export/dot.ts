@@ -0,0 +1,40 @@
+import { EDGE_FIELDS, NODE_FIELDS } from "@/lib/export/fields"
+import { nodeGroup } from "@/lib/graph"
+import { ExportContext } from "@/types"
+
+const quote = (value: string) => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+
+const attributes = (values: Array<[string, string | number | boolean | null]>) =>
+  values
+    .filter(([, value]) => value !== null)
+    .map(([key, value]) => `${key}=${quote(String(value))}`)
+    .join(", ")
+
+// Graphviz digraph, dependencies pointing at what they depend on. Packages are grouped into
+// clusters by scope or directory, and anything but regular dependencies is dashed.
+export function exportDot({ name, nodes, edges, metricsOf }: ExportContext) {
+  const groups = new Map<string, string[]>()
+  for (const node of nodes) {
+    const group = nodeGroup(node)
+    const line = `    ${quote(node.id)} [${attributes(NODE_FIELDS.map((field) => [field.name, field.value(node, metricsOf.get(node.id))]))}];`
+    groups.set(group, [...(groups.get(group) || []), line])
+  }
+
+  const clusters = Array.from(groups, ([group, lines], index) =>
+    [`  subgraph cluster_${index} {`, `    label=${quote(group)};`, ...lines, "  }"].join("\n"),
+  )
+  const edgeLines = edges.map((edge) => {
+    const style = edge.kind === "dependency" ? "" : ", style=dashed"
+    return `  ${quote(edge.source)} -> ${quote(edge.target)} [${attributes(EDGE_FIELDS.map((field) => [field.name, field.value(edge)]))}${style}];`
+  })
+
+  return [
+    `digraph ${quote(name)} {`,
+    "  rankdir=LR;",
+    '  node [shape=box, style=rounded, fontname="Helvetica"];',
+    ...clusters,
+    ...edgeLines,
+    "}",
+    "",
+  ].join("\n")
+}
@@ -0,0 +1,41 @@
+import { nodeGroup } from "@/lib/graph"
+import { GraphEdge, GraphNode, PackageMetrics } from "@/types"
+
+type Value = string | number | boolean | null
+
+interface Field<T> {
+  name: string
+  // Attribute type, as GraphML declares it
+  type: "string" | "int" | "double" | "boolean"
+  value: (item: T, metrics?: PackageMetrics) => Value
+}
+
+// Attributes of a package in the formats that have a table of them (GraphML, DOT, CSV)
+export const NODE_FIELDS: Field<GraphNode>[] = [
+  { name: "label", type: "string", value: (node) => node.label || node.id },
+  { name: "directory", type: "string", value: (node) => node.data?.directory ?? null },
+  { name: "ecosystem", type: "string", value: (node) => node.ecosystem || "npm" },
+  { name: "group", type: "string", value: (node) => nodeGroup(node) },
+  { name: "version", type: "string", value: (node) => node.data?.pkg?.version ?? null },
+  { name: "tags", type: "string", value: (node) => (node.data?.tags || []).join(" ") || null },
+  { name: "layer", type: "int", value: (_, metrics) => metrics?.layer ?? null },
+  { name: "depth", type: "int", value: (_, metrics) => metrics?.depth ?? null },
+  { name: "afferent", type: "int", value: (_, metrics) => metrics?.afferent ?? null },
+  { name: "efferent", type: "int", value: (_, metrics) => metrics?.efferent ?? null },
+  { name: "instability", type: "double", value: (_, metrics) => metrics?.instability ?? null },
+  { name: "betweenness", type: "double", value: (_, metrics) => metrics?.betweenness ?? null },
+]
+
+// Attributes of a dependency or import edge, fields of the other kind are null
+export const EDGE_FIELDS: Field<GraphEdge>[] = [
+  { name: "kind", type: "string", value: (edge) => edge.kind },
+  { name: "range", type: "string", value: (edge) => ("range" in edge ? edge.range : null) },
+  { name: "satisfied", type: "boolean", value: (edge) => ("satisfied" in edge ? edge.satisfied : null) },
+  { name: "unused", type: "boolean", value: (edge) => ("range" in edge ? Boolean(edge.unused) : null) },
+  { name: "count", type: "int", value: (edge) => ("count" in edge ? edge.count : null) },
+]
+
+export const nodeRecord = (node: GraphNode, metrics?: PackageMetrics) =>
+  Object.fromEntries(NODE_FIELDS.map((field) => [field.name, field.value(node, metrics)]))
+
+export const edgeRecord = (edge: GraphEdge) => Object.fromEntries(EDGE_FIELDS.map((field) => [field.name, field.value(edge)]))
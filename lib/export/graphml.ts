@@ -0,0 +1,45 @@
+import { EDGE_FIELDS, NODE_FIELDS } from "@/lib/export/fields"
+import { ExportContext } from "@/types"
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;")
+
+// GraphML with every attribute declared as a key, the format Gephi, yEd and Cytoscape all read.
+// Missing values are left out instead of written empty.
+export function exportGraphml({ name, nodes, edges, metricsOf }: ExportContext) {
+  const keys = [
+    ...NODE_FIELDS.map((field) => `  <key id="n_${field.name}" for="node" attr.name="${field.name}" attr.type="${field.type}"/>`),
+    ...EDGE_FIELDS.map((field) => `  <key id="e_${field.name}" for="edge" attr.name="${field.name}" attr.type="${field.type}"/>`),
+  ]
+  const data = (prefix: string, values: Array<[string, string | number | boolean | null]>) =>
+    values
+      .filter(([, value]) => value !== null)
+      .map(([key, value]) => `      <data key="${prefix}_${key}">${escapeXml(String(value))}</data>`)
+
+  const nodeElements = nodes.map((node) =>
+    [
+      `    <node id="${escapeXml(node.id)}">`,
+      ...data("n", NODE_FIELDS.map((field) => [field.name, field.value(node, metricsOf.get(node.id))])),
+      "    </node>",
+    ].join("\n"),
+  )
+  const edgeElements = edges.map((edge, index) =>
+    [
+      `    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`,
+      ...data("e", EDGE_FIELDS.map((field) => [field.name, field.value(edge)])),
+      "    </edge>",
+    ].join("\n"),
+  )
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">`,
+    ...keys,
+    `  <graph id="${escapeXml(name)}" edgedefault="directed">`,
+    ...nodeElements,
+    ...edgeElements,
+    "  </graph>",
+    "</graphml>",
+    "",
+  ].join("\n")
+}
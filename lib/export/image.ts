@@ -0,0 +1,88 @@
+import * as THREE from "three"
+
+// Long edge of exported images in pixels, whatever the size of the screen
+export const PNG_LONG_EDGE = 3840
+
+const toPngBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode the image"))), "image/png"),
+  )
+
+// Draw the scene once more with the camera of the view, PNG_LONG_EDGE pixels wide or high (less when
+// the GPU can't draw that big). The canvas is resized for this one frame only. A transparent image
+// leaves the background out, which needs a WebGL context created with alpha.
+export function renderPng(gl: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.Camera, transparent = false) {
+  const size = gl.getSize(new THREE.Vector2())
+  const pixelRatio = gl.getPixelRatio()
+  const clearColor = gl.getClearColor(new THREE.Color())
+  const clearAlpha = gl.getClearAlpha()
+  const background = scene.background
+  const ratio = Math.min(PNG_LONG_EDGE, gl.capabilities.maxTextureSize) / Math.max(size.x, size.y, 1)
+
+  try {
+    gl.setPixelRatio(1)
+    gl.setSize(Math.round(size.x * ratio), Math.round(size.y * ratio), false)
+    if (transparent) {
+      scene.background = null
+      gl.setClearColor(0x000000, 0)
+    }
+    gl.render(scene, camera)
+    // toBlob copies the drawing buffer right away, before the next frame clears it
+    return toPngBlob(gl.domElement)
+  } finally {
+    scene.background = background
+    gl.setClearColor(clearColor, clearAlpha)
+    gl.setPixelRatio(pixelRatio)
+    gl.setSize(size.x, size.y, false)
+  }
+}
+
+// Standalone copy of an SVG view showing `bounds` of its content, which is the first group of the
+// SVG. Without a background color the image is transparent.
+export function standaloneSvg(
+  svg: SVGSVGElement,
+  bounds: { x: number; y: number; width: number; height: number },
+  background: string | null,
+) {
+  const copy = svg.cloneNode(true) as SVGSVGElement
+  const { x, y, width, height } = bounds
+  copy.setAttribute("xmlns", "http://www.w3.org/2000/svg")
+  copy.setAttribute("viewBox", `${x} ${y} ${width} ${height}`)
+  copy.setAttribute("width", String(Math.ceil(width)))
+  copy.setAttribute("height", String(Math.ceil(height)))
+  copy.setAttribute("font-family", "ui-sans-serif, system-ui, sans-serif")
+  // Tailwind classes mean nothing outside the app
+  copy.removeAttribute("class")
+  copy.querySelectorAll("[class]").forEach((element) => element.removeAttribute("class"))
+  copy.querySelector(":scope > g")?.removeAttribute("transform")
+
+  if (background) {
+    const rect = document.createElementNS("http://www.w3.org/2000/svg", "rect")
+    rect.setAttribute("x", String(x))
+    rect.setAttribute("y", String(y))
+    rect.setAttribute("width", String(width))
+    rect.setAttribute("height", String(height))
+    rect.setAttribute("fill", background)
+    copy.prepend(rect)
+  }
+  return new XMLSerializer().serializeToString(copy)
+}
+
+// Rasterize a standalone SVG, PNG_LONG_EDGE pixels wide or high
+export async function svgToPng(svg: string, width: number, height: number) {
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }))
+  try {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+
+    const ratio = PNG_LONG_EDGE / Math.max(width, height, 1)
+    const canvas = document.createElement("canvas")
+    canvas.width = Math.round(width * ratio)
+    canvas.height = Math.round(height * ratio)
+    canvas.getContext("2d")!.drawImage(image, 0, 0, canvas.width, canvas.height)
+    return await toPngBlob(canvas)
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
@@ -0,0 +1,76 @@
+import { exportEdgesCsv, exportNodesCsv } from "@/lib/export/csv"
+import { exportDot } from "@/lib/export/dot"
+import { exportGraphml } from "@/lib/export/graphml"
+import { exportJson } from "@/lib/export/json"
+import { exportMermaid } from "@/lib/export/mermaid"
+import { EDGE_KINDS, computeMetrics, filterEdgesByKind } from "@/lib/graph"
+import { AnalysisData, EdgeKind, ExportContext, ExportFormat, GraphExport, ViewExportFormat } from "@/types"
+
+export { JSON_EXPORT_VERSION } from "@/lib/export/json"
+
+const SERIALIZERS: Record<
+  ExportFormat,
+  { label: string; serialize: (context: ExportContext) => string; mimeType: string; suffix: string }
+> = {
+  json: { label: "JSON", serialize: exportJson, mimeType: "application/json", suffix: "graph.json" },
+  graphml: { label: "GraphML (Gephi, yEd)", serialize: exportGraphml, mimeType: "application/graphml+xml", suffix: "graph.graphml" },
+  dot: { label: "Graphviz DOT", serialize: exportDot, mimeType: "text/vnd.graphviz", suffix: "graph.dot" },
+  mermaid: { label: "Mermaid flowchart", serialize: exportMermaid, mimeType: "text/plain", suffix: "graph.mmd" },
+  "csv-nodes": { label: "CSV node list", serialize: exportNodesCsv, mimeType: "text/csv", suffix: "nodes.csv" },
+  "csv-edges": { label: "CSV edge list", serialize: exportEdgesCsv, mimeType: "text/csv", suffix: "edges.csv" },
+}
+
+export const EXPORT_FORMATS = Object.keys(SERIALIZERS) as ExportFormat[]
+
+export const EXPORT_FORMAT_LABELS = Object.fromEntries(
+  EXPORT_FORMATS.map((format) => [format, SERIALIZERS[format].label]),
+) as Record<ExportFormat, string>
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  typeof value === "string" && (EXPORT_FORMATS as string[]).includes(value)
+
+// "owner/repo", with the ref when one was analyzed. A comparison is named after its head.
+export function exportName(data: AnalysisData) {
+  const ref = data.comparison ? data.comparison.head.ref : data.revision?.ref
+  return `${data.owner}/${data.repo}` + (ref ? `@${ref}` : "")
+}
+
+// File name of an export, e.g. "acme-app-main-graph.json"
+export const exportFilename = (data: AnalysisData, suffix: string) => `${exportName(data).replace(/[^\w.-]+/g, "-")}-${suffix}`
+
+// The analyzed graph in one of the export formats, with the metrics of every package computed
+// over the exported edges. A comparison exports its head graph.
+export function exportGraph(data: AnalysisData, format: ExportFormat, edgeKinds: EdgeKind[] = EDGE_KINDS): GraphExport {
+  const edges = filterEdgesByKind(data.graph.edges, edgeKinds)
+  const metrics = computeMetrics({ nodes: data.graph.nodes, edges })
+  const name = exportName(data)
+  const { serialize, mimeType, suffix } = SERIALIZERS[format]
+
+  return {
+    content: serialize({
+      name,
+      data,
+      nodes: data.graph.nodes,
+      edges,
+      metrics,
+      metricsOf: new Map(metrics.packages.map((pkg) => [pkg.id, pkg])),
+    }),
+    mimeType,
+    filename: exportFilename(data, suffix),
+  }
+}
+
+// Images and scenes of the graph view are drawn in the browser, see lib/export/image and lib/export/scene
+export const VIEW_EXPORT_FORMAT_LABELS: Record<ViewExportFormat, string> = {
+  png: "PNG image",
+  "png-transparent": "PNG, transparent background",
+  svg: "SVG image",
+  glb: "glTF scene (GLB)",
+}
+
+export const VIEW_EXPORT_SUFFIXES: Record<ViewExportFormat, string> = {
+  png: "graph.png",
+  "png-transparent": "graph.png",
+  svg: "graph.svg",
+  glb: "graph.glb",
+}
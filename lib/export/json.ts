@@ -0,0 +1,33 @@
+import { edgeRecord, nodeRecord } from "@/lib/export/fields"
+import { ExportContext } from "@/types"
+
+// Bumped whenever a field changes meaning or goes away, new fields don't need a new version
+export const JSON_EXPORT_VERSION = 1
+
+// The graph with the attributes of the other formats and the graph level metrics, under a
+// format name and version so scripts can check what they read
+export function exportJson({ name, data, nodes, edges, metrics, metricsOf }: ExportContext) {
+  return JSON.stringify(
+    {
+      format: "monocloud-graph",
+      version: JSON_EXPORT_VERSION,
+      name,
+      repository: {
+        provider: data.provider || "github",
+        owner: data.owner,
+        repo: data.repo,
+        ...data.revision,
+      },
+      deep: Boolean(data.deep),
+      nodes: nodes.map((node) => ({ id: node.id, ...nodeRecord(node, metricsOf.get(node.id)) })),
+      edges: edges.map((edge) => ({ source: edge.source, target: edge.target, ...edgeRecord(edge) })),
+      metrics: {
+        layers: metrics.layers,
+        averageDepth: metrics.averageDepth,
+        longestChain: metrics.longestChain,
+      },
+    },
+    null,
+    2,
+  )
+}
@@ -0,0 +1,29 @@
+import { nodeGroup } from "@/lib/graph"
+import { ExportContext } from "@/types"
+
+// Mermaid labels are quoted strings where quotes and angle brackets have to be entities
+const label = (value: string) => `"${value.replace(/"/g, "#quot;").replace(/</g, "#lt;").replace(/>/g, "#gt;")}"`
+
+// Mermaid flowchart for markdown docs. Package names aren't valid Mermaid ids, so every package
+// gets a short one. Regular dependencies are solid arrows, other kinds dotted and labeled.
+export function exportMermaid({ nodes, edges }: ExportContext) {
+  const idOf = new Map(nodes.map((node, index) => [node.id, `n${index}`]))
+  const groups = new Map<string, string[]>()
+  for (const node of nodes) {
+    groups.set(nodeGroup(node), [...(groups.get(nodeGroup(node)) || []), `    ${idOf.get(node.id)}[${label(node.label || node.id)}]`])
+  }
+
+  const subgraphs = Array.from(groups, ([group, lines], index) => [`  subgraph g${index} [${label(group)}]`, ...lines, "  end"].join("\n"))
+
+  // One arrow per pair and kind, edges can repeat with different import counts
+  const arrows = new Set(
+    edges
+      .filter((edge) => idOf.has(edge.source) && idOf.has(edge.target))
+      .map((edge) => {
+        const [source, target] = [idOf.get(edge.source), idOf.get(edge.target)]
+        return edge.kind === "dependency" ? `  ${source} --> ${target}` : `  ${source} -. ${edge.kind} .-> ${target}`
+      }),
+  )
+
+  return ["flowchart LR", ...subgraphs, ...arrows, ""].join("\n")
+}
@@ -0,0 +1,98 @@
+import * as THREE from "three"
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js"
+
+import { BatchedEdge, SceneExportNode } from "@/types"
+
+// Segments of every curved edge, like the 3D view draws them
+const CURVE_SEGMENTS = 8
+
+const vector = ([x, y, z]: [number, number, number]) => new THREE.Vector3(x, y, z)
+
+// The whole graph as a plain scene that glTF viewers understand: a named cube per package and a
+// line set per edge color. The live scene only holds the packages in view, in custom materials.
+export function buildGraphScene(nodes: SceneExportNode[], edges: BatchedEdge[]) {
+  const scene = new THREE.Scene()
+  scene.name = "Dependency graph"
+
+  const cube = new THREE.BoxGeometry()
+  const materials = new Map<string, THREE.MeshStandardMaterial>()
+  const packages = new THREE.Group()
+  packages.name = "Packages"
+  for (const node of nodes) {
+    const key = `${node.color}|${node.glowColor}|${node.opacity}`
+    if (!materials.has(key)) {
+      materials.set(
+        key,
+        new THREE.MeshStandardMaterial({
+          color: node.color,
+          emissive: node.glowColor,
+          emissiveIntensity: 0.4,
+          roughness: 0.5,
+          transparent: node.opacity < 1,
+          opacity: node.opacity,
+        }),
+      )
+    }
+    const mesh = new THREE.Mesh(cube, materials.get(key))
+    // Viewers list packages by name, the label ends up in the glTF extras
+    mesh.name = node.id
+    mesh.userData = { label: node.label }
+    mesh.position.copy(vector(node.position))
+    mesh.scale.setScalar(node.scale)
+    packages.add(mesh)
+  }
+
+  // glTF lines have no width or dashes, only color and opacity
+  const batches = new Map<string, number[]>()
+  for (const edge of edges) {
+    const key = `${edge.color}|${edge.opacity}`
+    const points = new THREE.QuadraticBezierCurve3(vector(edge.start), vector(edge.mid), vector(edge.end)).getPoints(CURVE_SEGMENTS)
+    const segments = batches.get(key) || []
+    for (let i = 1; i < points.length; i++) segments.push(...points[i - 1].toArray(), ...points[i].toArray())
+    batches.set(key, segments)
+  }
+  const dependencies = new THREE.Group()
+  dependencies.name = "Dependencies"
+  for (const [key, segments] of batches) {
+    const [color, opacity] = key.split("|")
+    const geometry = new THREE.BufferGeometry().setAttribute("position", new THREE.Float32BufferAttribute(segments, 3))
+    dependencies.add(
+      new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({ color, transparent: true, opacity: Number(opacity) })),
+    )
+  }
+
+  const light = new THREE.DirectionalLight("#ffffff", 1)
+  light.position.set(10, 10, 5)
+  scene.add(packages, dependencies, light)
+  return scene
+}
+
+// Release the geometries and materials of a scene built for an export
+function disposeScene(scene: THREE.Scene) {
+  scene.traverse((object) => {
+    if (object instanceof THREE.Mesh || object instanceof THREE.LineSegments) {
+      const materials: THREE.Material[] = Array.isArray(object.material) ? object.material : [object.material]
+      object.geometry.dispose()
+      materials.forEach((material) => material.dispose())
+    }
+  })
+}
+
+// Binary glTF (GLB) of the whole graph
+export function exportGlb(nodes: SceneExportNode[], edges: BatchedEdge[]) {
+  const scene = buildGraphScene(nodes, edges)
+  return new Promise<Blob>((resolve, reject) => {
+    new GLTFExporter().parse(
+      scene,
+      (result) => {
+        disposeScene(scene)
+        resolve(new Blob([result as ArrayBuffer], { type: "model/gltf-binary" }))
+      },
+      (error) => {
+        disposeScene(scene)
+        reject(error)
+      },
+      { binary: true },
+    )
+  })
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest"
+
+import { analyzeCycles, canonicalCycle, findCycles, stronglyConnectedComponents } from "@/lib/graph/cycles"
+
+// A graph from "a>b" edge strings, nodes are taken from the edges
+const graph = (...edges: string[]) => {
+  const pairs = edges.map((edge) => edge.split(">"))
+  return {
+    nodes: Array.from(new Set(pairs.flat()), (id) => ({ id })),
+    edges: pairs.map(([source, target]) => ({ source, target })),
+  }
+}
+
+// Every ordered pair of distinct nodes is an edge
+const complete = (size: number) => {
+  const ids = Array.from({ length: size }, (_, i) => `p${i}`)
+  return graph(...ids.flatMap((source) => ids.filter((target) => target !== source).map((target) => `${source}>${target}`)))
+}
+
+// The graph is acyclic once the suggested edges are removed
+const breaksEveryCycle = (input: ReturnType<typeof graph>, breakEdges: Array<{ source: string; target: string }>) => {
+  const removed = new Set(breakEdges.map(({ source, target }) => `${source}>${target}`))
+  const rest = { ...input, edges: input.edges.filter(({ source, target }) => !removed.has(`${source}>${target}`)) }
+  return stronglyConnectedComponents(rest).length === 0
+}
+
+describe("canonicalCycle", () => {
+  it("starts a cycle at its smallest id", () => {
+    expect(canonicalCycle(["c", "a", "b"])).toEqual(["a", "b", "c"])
+  })
+})
+
+describe("analyzeCycles", () => {
+  it("reports nothing for an acyclic graph", () => {
+    expect(analyzeCycles(graph("a>b", "b>c", "a>c"))).toEqual({ components: [], truncated: false })
+  })
+
+  it("ignores self-loops", () => {
+    expect(analyzeCycles(graph("a>a", "a>b")).components).toEqual([])
+    expect(findCycles(graph("a>a", "a>b", "b>a"))).toEqual([["a", "b"]])
+  })
+
+  it("suggests the single edge shared by every cycle", () => {
+    const input = graph("a>b", "b>c", "c>a", "b>d", "d>a")
+    const [component] = analyzeCycles(input).components
+
+    expect(component.nodes).toEqual(["a", "b", "c", "d"])
+    expect(component.cycles).toEqual([
+      ["a", "b", "c"],
+      ["a", "b", "d"],
+    ])
+    expect(component.breakEdges).toEqual([{ source: "a", target: "b" }])
+    expect(component.minimal).toBe(true)
+  })
+
+  it("reports disjoint components separately, largest first", () => {
+    const input = graph("a>b", "b>a", "x>y", "y>z", "z>x", "b>x")
+    const { components } = analyzeCycles(input)
+
+    expect(components.map((component) => component.nodes)).toEqual([
+      ["x", "y", "z"],
+      ["a", "b"],
+    ])
+    expect(components.map((component) => component.cycles)).toEqual([[["x", "y", "z"]], [["a", "b"]]])
+    expect(components.every((component) => component.breakEdges.length === 1)).toBe(true)
+    expect(breaksEveryCycle(input, components.flatMap((component) => component.breakEdges))).toBe(true)
+  })
+
+  it("finds all 84 cycles of K5 and breaks them with 10 edges", () => {
+    const input = complete(5)
+    const { components, truncated } = analyzeCycles(input)
+
+    expect(truncated).toBe(false)
+    expect(components).toHaveLength(1)
+    expect(components[0].cycles).toHaveLength(84)
+    expect(new Set(components[0].cycles.map((cycle) => cycle.join(","))).size).toBe(84)
+    expect(components[0].breakEdges).toHaveLength(10)
+    expect(breaksEveryCycle(input, components[0].breakEdges)).toBe(true)
+  })
+
+  it("stops enumerating at the cycle cap and still breaks every cycle", () => {
+    // K7 has 2365 elementary cycles
+    const input = complete(7)
+    const { components, truncated } = analyzeCycles(input)
+
+    expect(truncated).toBe(true)
+    expect(components[0].cycles).toHaveLength(1000)
+    expect(components[0].minimal).toBe(false)
+    expect(breaksEveryCycle(input, components[0].breakEdges)).toBe(true)
+  })
+})
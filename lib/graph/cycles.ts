@@ -0,0 +1,285 @@
+import { CycleReport, StronglyConnectedComponent } from "@/types"
+
+// Elementary cycles grow exponentially with dense components, enumeration stops after this many
+const MAX_CYCLES = 1000
+// Edge subsets tried when looking for the smallest set that breaks a component
+const MAX_BREAK_CANDIDATES = 50000
+
+type EdgeList = Array<{ source: string; target: string }>
+// Any graph, the visualization's merged comparison graph included
+export type GraphLike = { nodes: Array<{ id: string }>; edges: EdgeList }
+
+// Rotate a cycle so it starts at its smallest id, the same cycle then always has the same key
+export function canonicalCycle(cycle: string[]) {
+  const start = cycle.indexOf([...cycle].sort()[0])
+  return [...cycle.slice(start), ...cycle.slice(0, start)]
+}
+
+// The edges a cycle is made of, as "source\0target" keys
+export const cycleEdgeKeys = (cycle: string[]) =>
+  cycle.map((id, i) => `${id}\u0000${cycle[(i + 1) % cycle.length]}`)
+
+// Targets of each node, without self references and parallel edges of different kinds
+function adjacencyOf(nodes: string[], edges: EdgeList) {
+  const adjacency = new Map<string, string[]>(nodes.map((id) => [id, []]))
+  for (const { source, target } of edges) {
+    const targets = adjacency.get(source)
+    if (source !== target && targets && adjacency.has(target) && !targets.includes(target)) targets.push(target)
+  }
+  return adjacency
+}
+
+// Tarjan's algorithm, iterative so deep dependency chains don't overflow the call stack.
+// Returns every strongly connected component, single nodes included, in reverse topological order.
+function tarjan(adjacency: Map<string, string[]>) {
+  const index = new Map<string, number>()
+  const lowLink = new Map<string, number>()
+  const stack: string[] = []
+  const onStack = new Set<string>()
+  const components: string[][] = []
+  let counter = 0
+
+  for (const root of adjacency.keys()) {
+    if (index.has(root)) continue
+    // Each frame is a node and the position of the next target to visit
+    const frames: Array<[string, number]> = [[root, 0]]
+    index.set(root, counter)
+    lowLink.set(root, counter++)
+    stack.push(root)
+    onStack.add(root)
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1]
+      const [id, next] = frame
+      const targets = adjacency.get(id)!
+
+      if (next < targets.length) {
+        frame[1]++
+        const target = targets[next]
+        if (!index.has(target)) {
+          index.set(target, counter)
+          lowLink.set(target, counter++)
+          stack.push(target)
+          onStack.add(target)
+          frames.push([target, 0])
+        } else if (onStack.has(target)) {
+          lowLink.set(id, Math.min(lowLink.get(id)!, index.get(target)!))
+        }
+        continue
+      }
+
+      frames.pop()
+      if (frames.length > 0) {
+        const parent = frames[frames.length - 1][0]
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(id)!))
+      }
+
+      if (lowLink.get(id) === index.get(id)) {
+        const component: string[] = []
+        let member: string
+        do {
+          member = stack.pop()!
+          onStack.delete(member)
+          component.push(member)
+        } while (member !== id)
+        components.push(component.sort())
+      }
+    }
+  }
+
+  return components
+}
+
+// Strongly connected components with more than one package, each one contains at least one cycle
+export function stronglyConnectedComponents(graph: GraphLike) {
+  return tarjan(adjacencyOf(graph.nodes.map((node) => node.id), graph.edges)).filter((component) => component.length > 1)
+}
+
+// Johnson's algorithm on one component: every elementary cycle exactly once, up to `limit` cycles
+function elementaryCycles(component: string[], adjacency: Map<string, string[]>, limit: number) {
+  const cycles: string[][] = []
+  const remaining = new Set(component)
+
+  while (remaining.size > 0 && cycles.length < limit) {
+    // Cycles through the smallest node of a component of what is left stay inside that component.
+    // Once found the node is removed, so no cycle is found twice.
+    const restricted = new Map(
+      Array.from(remaining, (id) => [id, (adjacency.get(id) || []).filter((target) => remaining.has(target))]),
+    )
+    const components = tarjan(restricted).filter((nodes) => nodes.length > 1)
+    if (components.length === 0) break
+    // Components come out sorted, their first node is their smallest
+    const smallest = components.reduce((best, nodes) => (nodes[0] < best[0] ? nodes : best))
+    const allowed = new Set(smallest)
+    const start = smallest[0]
+    remaining.delete(start)
+
+    const blocked = new Set<string>()
+    const blockedBy = new Map<string, Set<string>>()
+    const path: string[] = []
+
+    const unblock = (id: string) => {
+      const pending = [id]
+      while (pending.length > 0) {
+        const current = pending.pop()!
+        if (!blocked.delete(current)) continue
+        pending.push(...(blockedBy.get(current) || []))
+        blockedBy.delete(current)
+      }
+    }
+
+    // The recursive CIRCUIT procedure with an explicit stack, components can be long chains
+    const frames = [{ id: start, next: 0, found: false }]
+    path.push(start)
+    blocked.add(start)
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1]
+      const targets = adjacency.get(frame.id) || []
+
+      if (frame.next < targets.length && cycles.length < limit) {
+        const target = targets[frame.next++]
+        if (!allowed.has(target)) continue
+        if (target === start) {
+          cycles.push([...path])
+          frame.found = true
+        } else if (!blocked.has(target)) {
+          path.push(target)
+          blocked.add(target)
+          frames.push({ id: target, next: 0, found: false })
+        }
+        continue
+      }
+
+      if (frame.found) {
+        unblock(frame.id)
+      } else {
+        for (const target of targets) {
+          if (allowed.has(target)) blockedBy.set(target, (blockedBy.get(target) || new Set()).add(frame.id))
+        }
+      }
+
+      path.pop()
+      frames.pop()
+      if (frame.found && frames.length > 0) frames[frames.length - 1].found = true
+    }
+  }
+
+  return cycles
+}
+
+// Smallest set of edges that hits every cycle, which makes the component acyclic once removed.
+// Exact while the number of subsets to try stays small, greedy (most cycles first) beyond that.
+function breakingEdges(cycles: string[][]) {
+  const cycleKeys = cycles.map((cycle) => new Set(cycleEdgeKeys(cycle)))
+  const counts = new Map<string, number>()
+  for (const keys of cycleKeys) {
+    for (const key of keys) counts.set(key, (counts.get(key) || 0) + 1)
+  }
+  // Edges on many cycles first, so both searches try the promising ones early
+  const candidates = Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b))
+
+  const greedy: string[] = []
+  let remaining = cycleKeys
+  while (remaining.length > 0) {
+    const hits = (key: string) => remaining.filter((keys) => keys.has(key)).length
+    const pick = candidates.reduce((top, key) => (hits(key) > hits(top) ? key : top))
+    greedy.push(pick)
+    remaining = remaining.filter((keys) => !keys.has(pick))
+  }
+
+  // Try every subset smaller than the greedy answer, smallest first
+  let budget = MAX_BREAK_CANDIDATES
+  const hitsAll = (picked: string[]) => cycleKeys.every((keys) => picked.some((key) => keys.has(key)))
+  const search = (size: number, from: number, picked: string[]): string[] | null => {
+    if (picked.length === size) return --budget >= 0 && hitsAll(picked) ? [...picked] : null
+    for (let i = from; i < candidates.length && budget > 0; i++) {
+      const found = search(size, i + 1, [...picked, candidates[i]])
+      if (found) return found
+    }
+    return null
+  }
+
+  for (let size = 1; size < greedy.length && budget > 0; size++) {
+    const exact = search(size, 0, [])
+    if (exact) return { keys: exact, minimal: true }
+  }
+  return { keys: greedy, minimal: budget > 0 }
+}
+
+// Eades, Lin and Smyth: order the nodes by peeling off sinks and sources, then by largest
+// out-degree surplus. The edges pointing backwards in that order always break every cycle.
+function greedyFeedbackEdges(component: string[], adjacency: Map<string, string[]>) {
+  const members = new Set(component)
+  const outgoing = new Map(component.map((id) => [id, new Set((adjacency.get(id) || []).filter((target) => members.has(target)))]))
+  const incoming = new Map(component.map((id) => [id, new Set<string>()]))
+  for (const [id, targets] of outgoing) {
+    for (const target of targets) incoming.get(target)!.add(id)
+  }
+
+  const head: string[] = []
+  const tail: string[] = []
+  const remove = (id: string) => {
+    for (const target of outgoing.get(id)!) incoming.get(target)?.delete(id)
+    for (const source of incoming.get(id)!) outgoing.get(source)?.delete(id)
+    outgoing.delete(id)
+    incoming.delete(id)
+  }
+
+  while (outgoing.size > 0) {
+    const sink = Array.from(outgoing.keys()).find((id) => outgoing.get(id)!.size === 0)
+    const source = Array.from(incoming.keys()).find((id) => incoming.get(id)!.size === 0)
+    if (sink !== undefined) {
+      tail.unshift(sink)
+      remove(sink)
+    } else if (source !== undefined) {
+      head.push(source)
+      remove(source)
+    } else {
+      const surplus = (id: string) => outgoing.get(id)!.size - incoming.get(id)!.size
+      const pick = Array.from(outgoing.keys()).reduce((best, id) => (surplus(id) > surplus(best) ? id : best))
+      head.push(pick)
+      remove(pick)
+    }
+  }
+
+  const position = new Map([...head, ...tail].map((id, index) => [id, index]))
+  return component.flatMap((id) =>
+    (adjacency.get(id) || [])
+      .filter((target) => members.has(target) && position.get(target)! < position.get(id)!)
+      .map((target) => `${id}\u0000${target}`),
+  )
+}
+
+const toEdge = (key: string) => {
+  const [source, target] = key.split("\u0000")
+  return { source, target }
+}
+
+// Strongly connected components of the graph with their elementary cycles (canonical, deduplicated)
+// and the fewest dependencies that would have to go to break each of them
+export function analyzeCycles(graph: GraphLike): CycleReport {
+  const adjacency = adjacencyOf(graph.nodes.map((node) => node.id), graph.edges)
+  let budget = MAX_CYCLES
+
+  const components: StronglyConnectedComponent[] = stronglyConnectedComponents(graph).map((nodes) => {
+    const cycles = elementaryCycles(nodes, adjacency, budget).map(canonicalCycle)
+    budget -= cycles.length
+    // Without every cycle a hitting set could leave some intact, fall back to the ordering heuristic
+    if (budget <= 0) {
+      return { nodes, cycles, breakEdges: greedyFeedbackEdges(nodes, adjacency).map(toEdge), minimal: false }
+    }
+    const { keys, minimal } = breakingEdges(cycles)
+    return { nodes, cycles, breakEdges: keys.map(toEdge), minimal }
+  })
+
+  return {
+    components: components.sort((a, b) => b.nodes.length - a.nodes.length),
+    truncated: budget <= 0,
+  }
+}
+
+// Every elementary cycle of the graph, canonicalized so each one appears once
+export function findCycles(graph: GraphLike): string[][] {
+  return analyzeCycles(graph).components.flatMap((component) => component.cycles)
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest"
+
+import { diffGraphs, mergeDiffGraph } from "@/lib/graph/diff"
+import { Graph, GraphEdge, GraphNode } from "@/types"
+
+const node = (id: string, dependencies: Record<string, string> = {}): GraphNode => ({
+  id,
+  data: { path: `packages/${id}/package.json`, directory: `packages/${id}`, pkg: { name: id, dependencies } },
+})
+
+// A graph of the given packages and "a>b" dependency edges
+const graph = (nodes: GraphNode[], ...edges: string[]): Graph => ({
+  nodes,
+  edges: edges.map((edge) => {
+    const [source, target] = edge.split(">")
+    return { source, target, kind: "dependency", range: "workspace:*", satisfied: null } as GraphEdge
+  }),
+})
+
+const pairs = (edges: GraphEdge[]) => edges.map(({ source, target }) => `${source}>${target}`)
+
+describe("diffGraphs", () => {
+  it("classifies added and removed packages and edges", () => {
+    const base = graph([node("app"), node("ui"), node("legacy")], "app>ui", "app>legacy")
+    const head = graph([node("app"), node("ui"), node("theme")], "app>ui", "ui>theme")
+    const diff = diffGraphs(base, head)
+
+    // Added packages are summarized, without their package.json
+    expect(diff.addedPackages).toEqual([
+      { id: "theme", label: undefined, data: { path: "packages/theme/package.json", directory: "packages/theme" } },
+    ])
+    expect(diff.removedPackages.map((pkg) => pkg.id)).toEqual(["legacy"])
+    expect(pairs(diff.addedEdges)).toEqual(["ui>theme"])
+    expect(pairs(diff.removedEdges)).toEqual(["app>legacy"])
+  })
+
+  it("treats an edge that only changed kind as unchanged", () => {
+    const base = graph([node("a"), node("b")], "a>b")
+    const head = { ...base, edges: [{ ...base.edges[0], kind: "devDependency" } as GraphEdge] }
+
+    expect(diffGraphs(base, head)).toMatchObject({ addedEdges: [], removedEdges: [] })
+  })
+
+  it("reports new and resolved cycles", () => {
+    const nodes = [node("a"), node("b"), node("c")]
+    const diff = diffGraphs(graph(nodes, "a>b", "b>a", "b>c"), graph(nodes, "a>b", "b>c", "c>a"))
+
+    expect(diff.newCycles).toEqual([["a", "b", "c"]])
+    expect(diff.resolvedCycles).toEqual([["a", "b"]])
+  })
+
+  it("lists changed external ranges of packages at both refs", () => {
+    const base = graph([node("app", { react: "^17.0.0", lodash: "^4.0.0", ui: "1.0.0" }), node("ui"), node("gone", { react: "^16" })])
+    const head = graph([node("app", { react: "^18.0.0", zod: "^3.0.0", ui: "2.0.0" }), node("ui")])
+
+    expect(diffGraphs(base, head).versionChanges).toEqual([
+      { package: "app", dependency: "lodash", field: "dependencies", from: "^4.0.0", to: undefined },
+      { package: "app", dependency: "react", field: "dependencies", from: "^17.0.0", to: "^18.0.0" },
+      { package: "app", dependency: "zod", field: "dependencies", from: undefined, to: "^3.0.0" },
+    ])
+  })
+})
+
+describe("mergeDiffGraph", () => {
+  it("marks added items of the head graph and adds the removed ones as ghosts", () => {
+    const base = graph([node("app"), node("legacy")], "app>legacy")
+    const head = graph([node("app"), node("theme")], "app>theme")
+    const { nodes, edges } = mergeDiffGraph(head, diffGraphs(base, head))
+
+    expect(nodes.map(({ id, diffStatus }) => `${id} ${diffStatus}`)).toEqual(["app undefined", "theme added", "legacy removed"])
+    expect(edges.map(({ source, target, diffStatus }) => `${source}>${target} ${diffStatus}`)).toEqual([
+      "app>theme added",
+      "app>legacy removed",
+    ])
+  })
+})
@@ -0,0 +1,85 @@
+import { cycleEdgeKeys, findCycles } from "@/lib/graph/cycles"
+import { ExternalVersionChange, Graph, GraphDiff, GraphEdge, GraphNode, ThreeEdge, ThreeNode } from "@/types"
+
+const DEPENDENCY_FIELDS = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"] as const
+
+const edgeKey = (edge: GraphEdge) => `${edge.source}\u0000${edge.target}`
+
+// Internal edges keyed by source and target; a package listed as both a dependency and a devDependency is one edge
+function edgesByKey(graph: Graph) {
+  const edges = new Map<string, GraphEdge>()
+  for (const edge of graph.edges) {
+    if (!edges.has(edgeKey(edge))) edges.set(edgeKey(edge), edge)
+  }
+  return edges
+}
+
+// Drop the package.json contents, the diff only needs to identify and place packages
+const summarize = (node: GraphNode): GraphNode => ({
+  id: node.id,
+  label: node.label,
+  data: { path: node.data?.path, directory: node.data?.directory },
+})
+
+// External dependencies whose declared range changed in packages that exist at both refs
+function diffVersions(base: Graph, head: Graph, internal: Set<string>) {
+  const changes: ExternalVersionChange[] = []
+  const baseNodes = new Map(base.nodes.map((node) => [node.id, node]))
+
+  for (const node of head.nodes) {
+    const before = baseNodes.get(node.id)
+    if (!before) continue
+
+    for (const field of DEPENDENCY_FIELDS) {
+      const from: Record<string, string> = before.data?.pkg?.[field] || {}
+      const to: Record<string, string> = node.data?.pkg?.[field] || {}
+
+      for (const dependency of new Set([...Object.keys(from), ...Object.keys(to)])) {
+        if (internal.has(dependency) || from[dependency] === to[dependency]) continue
+        changes.push({ package: node.id, dependency, field, from: from[dependency], to: to[dependency] })
+      }
+    }
+  }
+
+  return changes.sort((a, b) => a.package.localeCompare(b.package) || a.dependency.localeCompare(b.dependency))
+}
+
+// Structured difference between the dependency graph at a base ref and at a head ref
+export function diffGraphs(base: Graph, head: Graph): GraphDiff {
+  const baseIds = new Set(base.nodes.map((node) => node.id))
+  const headIds = new Set(head.nodes.map((node) => node.id))
+  const baseEdges = edgesByKey(base)
+  const headEdges = edgesByKey(head)
+
+  // A cycle is new when one of its edges doesn't exist at the other ref; comparing the cycle lists
+  // directly would depend on the order the search happened to find them in
+  const cyclesMissingFrom = (graph: Graph, edges: Map<string, GraphEdge>) =>
+    findCycles(graph).filter((cycle) => cycleEdgeKeys(cycle).some((key) => !edges.has(key)))
+
+  return {
+    addedPackages: head.nodes.filter((node) => !baseIds.has(node.id)).map(summarize),
+    removedPackages: base.nodes.filter((node) => !headIds.has(node.id)).map(summarize),
+    addedEdges: Array.from(headEdges.values()).filter((edge) => !baseEdges.has(edgeKey(edge))),
+    removedEdges: Array.from(baseEdges.values()).filter((edge) => !headEdges.has(edgeKey(edge))),
+    newCycles: cyclesMissingFrom(head, baseEdges),
+    resolvedCycles: cyclesMissingFrom(base, headEdges),
+    versionChanges: diffVersions(base, head, new Set([...baseIds, ...headIds])),
+  }
+}
+
+// Head graph plus ghosts of what was removed, with every changed node and edge marked for rendering
+export function mergeDiffGraph(head: Graph, diff: GraphDiff) {
+  const added = new Set(diff.addedPackages.map((node) => node.id))
+  const addedEdges = new Set(diff.addedEdges.map(edgeKey))
+
+  const nodes: ThreeNode[] = [
+    ...head.nodes.map((node) => (added.has(node.id) ? { ...node, diffStatus: "added" as const } : node)),
+    ...diff.removedPackages.map((node) => ({ ...node, diffStatus: "removed" as const })),
+  ]
+  const edges: ThreeEdge[] = [
+    ...head.edges.map((edge) => (addedEdges.has(edgeKey(edge)) ? { ...edge, diffStatus: "added" as const } : edge)),
+    ...diff.removedEdges.map((edge) => ({ ...edge, diffStatus: "removed" as const })),
+  ]
+
+  return { nodes, edges }
+}
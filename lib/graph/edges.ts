@@ -0,0 +1,31 @@
+import { DependencyEdge, DependencyKind, EdgeKind, GraphEdge } from "@/types"
+
+export const DEPENDENCY_KINDS: DependencyKind[] = [
+  "dependency",
+  "devDependency",
+  "peerDependency",
+  "optionalDependency",
+  "bundledDependency",
+]
+
+export const EDGE_KINDS: EdgeKind[] = [...DEPENDENCY_KINDS, "source-import", "undeclared-import"]
+
+// Names for filters and legends
+export const EDGE_KIND_LABELS: Record<EdgeKind, string> = {
+  dependency: "Dependencies",
+  devDependency: "Dev dependencies",
+  peerDependency: "Peer dependencies",
+  optionalDependency: "Optional dependencies",
+  bundledDependency: "Bundled dependencies",
+  "source-import": "Source imports",
+  "undeclared-import": "Undeclared imports",
+}
+
+// Source imports of declared dependencies duplicate their dependency edge, so they start hidden
+export const DEFAULT_EDGE_KINDS: EdgeKind[] = EDGE_KINDS.filter((kind) => kind !== "source-import")
+
+export const isDependencyEdge = (edge: GraphEdge): edge is DependencyEdge =>
+  (DEPENDENCY_KINDS as string[]).includes(edge.kind)
+
+export const filterEdgesByKind = <T extends { kind?: EdgeKind }>(edges: T[], kinds: EdgeKind[]) =>
+  edges.filter((edge) => !edge.kind || kinds.includes(edge.kind))
@@ -0,0 +1,77 @@
+import { nodeGroup } from "@/lib/graph/groups"
+import { globToRegExp } from "@/lib/workspaces"
+import { GraphFilter, GraphNode } from "@/types"
+
+export const EMPTY_GRAPH_FILTER: GraphFilter = { directory: "", scopes: [], tags: [], focusHops: null }
+
+// Hop counts offered by focus mode, Infinity is the whole closure
+export const FOCUS_HOPS = [1, 2, 3, Infinity]
+
+export const nodeTags = (node: GraphNode): string[] => node.data?.tags || []
+
+// Number of filters that hide packages, focus mode only counts once a package is selected
+export function activeFilterCount(filter: GraphFilter, hasSelection = false) {
+  return (
+    (filter.directory.trim() ? 1 : 0) +
+    (filter.scopes.length > 0 ? 1 : 0) +
+    (filter.tags.length > 0 ? 1 : 0) +
+    (filter.focusHops !== null && hasSelection ? 1 : 0)
+  )
+}
+
+// Packages at most `hops` dependencies away from `id`, following dependencies downstream and
+// dependents upstream, each direction on its own so siblings of a shared dependency stay out
+export function neighborhood(edges: Array<{ source: string; target: string }>, id: string, hops: number) {
+  const dependencies = new Map<string, string[]>()
+  const dependents = new Map<string, string[]>()
+  for (const { source, target } of edges) {
+    dependencies.set(source, [...(dependencies.get(source) || []), target])
+    dependents.set(target, [...(dependents.get(target) || []), source])
+  }
+
+  const reached = new Set([id])
+  for (const next of [dependencies, dependents]) {
+    let frontier = [id]
+    const seen = new Set([id])
+    for (let hop = 0; hop < hops && frontier.length > 0; hop++) {
+      frontier = frontier.flatMap((current) => next.get(current) || []).filter((other) => !seen.has(other))
+      frontier.forEach((other) => {
+        seen.add(other)
+        reached.add(other)
+      })
+    }
+  }
+  return reached
+}
+
+// Ids of the packages that pass the filter, null when nothing is filtered. A directory glob
+// matches the package directory, any directory above it, or the package name.
+export function filterGraphNodes(
+  nodes: GraphNode[],
+  edges: Array<{ source: string; target: string }>,
+  filter: GraphFilter,
+  selectedNode: string | null,
+) {
+  if (activeFilterCount(filter, Boolean(selectedNode)) === 0) return null
+
+  const pattern = filter.directory.trim() ? globToRegExp(filter.directory) : null
+  const matchesDirectory = (node: GraphNode) => {
+    if (!pattern || pattern.test(node.id)) return true
+    const parts = (node.data?.directory || "").split("/")
+    return parts.some((_, index) => pattern.test(parts.slice(0, index + 1).join("/")))
+  }
+  const focus =
+    filter.focusHops !== null && selectedNode ? neighborhood(edges, selectedNode, filter.focusHops) : null
+
+  return new Set(
+    nodes
+      .filter(
+        (node) =>
+          matchesDirectory(node) &&
+          (filter.scopes.length === 0 || filter.scopes.includes(nodeGroup(node))) &&
+          (filter.tags.length === 0 || nodeTags(node).some((tag) => filter.tags.includes(tag))) &&
+          (!focus || focus.has(node.id)),
+      )
+      .map((node) => node.id),
+  )
+}
@@ -0,0 +1,26 @@
+import { dirname } from "@/lib/workspaces"
+import { GraphNode } from "@/types"
+
+// Group of a package: its npm scope ("@acme/ui" -> "@acme"), otherwise the directory holding
+// its package directory ("packages/ui" -> "packages"), "root" for top level packages
+export function nodeGroup(node: GraphNode) {
+  if (node.id.startsWith("@") && node.id.includes("/")) {
+    return node.id.split("/")[0]
+  }
+  return dirname(node.data?.directory || "") || "root"
+}
+
+// Packages without any edge, grouped by nodeGroup so the visualization can cluster them
+// instead of scattering them around the graph
+export function groupIsolatedNodes(nodes: GraphNode[], edges: Array<{ source: string; target: string }>) {
+  const connected = new Set(edges.flatMap((edge) => [edge.source, edge.target]))
+  const groups = new Map<string, string[]>()
+
+  for (const node of nodes) {
+    if (connected.has(node.id)) continue
+    const group = nodeGroup(node)
+    groups.set(group, [...(groups.get(group) || []), node.id])
+  }
+
+  return groups
+}
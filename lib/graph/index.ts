@@ -0,0 +1,30 @@
+export { analyzeCycles, canonicalCycle, cycleEdgeKeys, findCycles, stronglyConnectedComponents } from "@/lib/graph/cycles"
+export { diffGraphs, mergeDiffGraph } from "@/lib/graph/diff"
+export { computeMetrics, topologicalLayers } from "@/lib/graph/metrics"
+export { groupIsolatedNodes, nodeGroup } from "@/lib/graph/groups"
+export {
+  EMPTY_GRAPH_FILTER,
+  FOCUS_HOPS,
+  activeFilterCount,
+  filterGraphNodes,
+  neighborhood,
+  nodeTags,
+} from "@/lib/graph/filter"
+export {
+  DEFAULT_EDGE_KINDS,
+  DEPENDENCY_KINDS,
+  EDGE_KINDS,
+  EDGE_KIND_LABELS,
+  filterEdgesByKind,
+  isDependencyEdge,
+} from "@/lib/graph/edges"
+export {
+  CYCLE_COLOR,
+  DIFF_COLORS,
+  ECOSYSTEM_COLORS,
+  ECOSYSTEM_LABELS,
+  RULE_VIOLATION_COLOR,
+  UNDECLARED_IMPORT_COLOR,
+  edgeStyle,
+  nodeGlowColor,
+} from "@/lib/graph/style"
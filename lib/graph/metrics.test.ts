@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest"
+
+import { computeMetrics, topologicalLayers } from "@/lib/graph/metrics"
+
+// A graph from "a>b" edge strings, nodes are taken from the edges
+const graph = (...edges: string[]) => {
+  const pairs = edges.map((edge) => edge.split(">"))
+  return {
+    nodes: Array.from(new Set(pairs.flat()), (id) => ({ id })),
+    edges: pairs.map(([source, target]) => ({ source, target })),
+  }
+}
+
+const byId = (metrics: ReturnType<typeof computeMetrics>) => new Map(metrics.packages.map((pkg) => [pkg.id, pkg]))
+
+describe("computeMetrics", () => {
+  it("computes layers, depths and coupling", () => {
+    const metrics = computeMetrics(graph("app>ui", "app>util", "ui>util", "api>util"))
+    const packages = byId(metrics)
+
+    expect(packages.get("app")).toMatchObject({ layer: 2, depth: 0, afferent: 0, efferent: 2, instability: 1 })
+    expect(packages.get("ui")).toMatchObject({ layer: 1, depth: 1, afferent: 1, efferent: 1, instability: 0.5 })
+    expect(packages.get("util")).toMatchObject({ layer: 0, depth: 2, afferent: 3, efferent: 0, instability: 0 })
+    expect(metrics.layers).toBe(3)
+    expect(metrics.longestChain).toEqual([["app"], ["ui"], ["util"]])
+    // Entry points app (layer 2) and api (layer 1)
+    expect(metrics.averageDepth).toBe(1.5)
+  })
+
+  it("counts parallel edges and self-loops once or not at all", () => {
+    const input = graph("a>b", "a>b", "a>a")
+    const packages = byId(computeMetrics(input))
+
+    expect(packages.get("a")).toMatchObject({ efferent: 1, afferent: 0 })
+    expect(packages.get("b")).toMatchObject({ efferent: 0, afferent: 1 })
+  })
+
+  it("leaves instability empty for packages without coupling", () => {
+    const metrics = computeMetrics({ nodes: [{ id: "alone" }], edges: [] })
+    expect(metrics.packages).toEqual([{ id: "alone", layer: 0, depth: 0, afferent: 0, efferent: 0, instability: null, betweenness: 0 }])
+  })
+
+  it("puts the packages of a cycle on one layer and one step of the chain", () => {
+    const metrics = computeMetrics(graph("a>b", "b>c", "c>b", "c>d"))
+    const packages = byId(metrics)
+
+    expect(packages.get("b")?.layer).toBe(1)
+    expect(packages.get("c")?.layer).toBe(1)
+    expect(packages.get("a")?.layer).toBe(2)
+    expect(metrics.longestChain.map((step) => [...step].sort())).toEqual([["a"], ["b", "c"], ["d"]])
+  })
+
+  it("measures betweenness as the share of shortest paths through a package", () => {
+    const packages = byId(computeMetrics(graph("a>b", "b>c")))
+    // Only a -> c goes through b, out of (n - 1)(n - 2) = 2 ordered pairs
+    expect(packages.get("b")?.betweenness).toBe(0.5)
+    expect(packages.get("a")?.betweenness).toBe(0)
+  })
+
+  it("handles an empty graph", () => {
+    expect(computeMetrics({ nodes: [], edges: [] })).toEqual({ packages: [], layers: 0, longestChain: [], averageDepth: 0 })
+  })
+})
+
+describe("topologicalLayers", () => {
+  it("matches the layers of computeMetrics", () => {
+    const input = graph("app>ui", "ui>util", "app>util")
+    expect(topologicalLayers(input)).toEqual(new Map([["app", 2], ["ui", 1], ["util", 0]]))
+  })
+})
@@ -0,0 +1,162 @@
+import { GraphLike, stronglyConnectedComponents } from "@/lib/graph/cycles"
+import { GraphMetrics, PackageMetrics } from "@/types"
+
+// Distinct dependencies and dependents of each package, parallel edges of different kinds count once
+function couplingOf(graph: GraphLike) {
+  const outgoing = new Map(graph.nodes.map((node) => [node.id, new Set<string>()]))
+  const incoming = new Map(graph.nodes.map((node) => [node.id, new Set<string>()]))
+  for (const { source, target } of graph.edges) {
+    if (source === target || !outgoing.has(source) || !incoming.has(target)) continue
+    outgoing.get(source)!.add(target)
+    incoming.get(target)!.add(source)
+  }
+  return { outgoing, incoming }
+}
+
+// Longest path in a DAG given as component -> components, in edges. Kahn's algorithm from the
+// components nothing points at, so the result is 0 for them and grows along the edges.
+function longestPaths(size: number, next: Array<Set<number>>) {
+  const length = new Array<number>(size).fill(0)
+  const via = new Array<number>(size).fill(-1)
+  const pending = new Array<number>(size).fill(0)
+  next.forEach((targets) => targets.forEach((target) => pending[target]++))
+
+  const queue = Array.from({ length: size }, (_, i) => i).filter((i) => pending[i] === 0)
+  for (let i = 0; i < queue.length; i++) {
+    const current = queue[i]
+    for (const target of next[current]) {
+      if (length[current] + 1 > length[target]) {
+        length[target] = length[current] + 1
+        via[target] = current
+      }
+      if (--pending[target] === 0) queue.push(target)
+    }
+  }
+  return { length, via }
+}
+
+// Brandes' algorithm on the unweighted directed graph, normalized by (n-1)(n-2) so values stay
+// between 0 and 1: the share of shortest paths between other packages that go through a package.
+// Runs once per package, so it works on indexes and typed arrays instead of maps.
+function betweennessOf(ids: string[], outgoing: Map<string, Set<string>>) {
+  const indexOf = new Map(ids.map((id, index) => [id, index]))
+  const targets = ids.map((id) => Array.from(outgoing.get(id)!, (target) => indexOf.get(target)!))
+  const centrality = new Float64Array(ids.length)
+  const paths = new Float64Array(ids.length)
+  const distance = new Int32Array(ids.length)
+  const dependency = new Float64Array(ids.length)
+  const order = new Int32Array(ids.length)
+
+  for (let source = 0; source < ids.length; source++) {
+    paths.fill(0)
+    distance.fill(-1)
+    dependency.fill(0)
+    paths[source] = 1
+    distance[source] = 0
+    order[0] = source
+    let visited = 1
+
+    // Breadth first, `order` doubles as the queue and ends up sorted by distance
+    for (let i = 0; i < visited; i++) {
+      const current = order[i]
+      for (const target of targets[current]) {
+        if (distance[target] === -1) {
+          distance[target] = distance[current] + 1
+          order[visited++] = target
+        }
+        if (distance[target] === distance[current] + 1) paths[target] += paths[current]
+      }
+    }
+
+    // Predecessors are the targets' sources one step closer, walk back from the farthest
+    for (let i = visited - 1; i > 0; i--) {
+      const current = order[i]
+      for (const target of targets[current]) {
+        if (distance[target] === distance[current] + 1) {
+          dependency[current] += (paths[current] / paths[target]) * (1 + dependency[target])
+        }
+      }
+      centrality[current] += dependency[current]
+    }
+  }
+
+  const scale = ids.length > 2 ? 1 / ((ids.length - 1) * (ids.length - 2)) : 0
+  return new Map(ids.map((id, index) => [id, centrality[index] * scale]))
+}
+
+// Condense every strongly connected component into one step, which makes the graph acyclic
+function condense(graph: GraphLike, outgoing: Map<string, Set<string>>) {
+  const ids = graph.nodes.map((node) => node.id)
+  const steps: string[][] = stronglyConnectedComponents(graph)
+  const stepOf = new Map<string, number>()
+  steps.forEach((members, index) => members.forEach((id) => stepOf.set(id, index)))
+  for (const id of ids) {
+    if (!stepOf.has(id)) stepOf.set(id, steps.push([id]) - 1)
+  }
+
+  const dependenciesOf = steps.map(() => new Set<number>())
+  const dependentsOf = steps.map(() => new Set<number>())
+  for (const [source, targets] of outgoing) {
+    for (const target of targets) {
+      const from = stepOf.get(source)!
+      const to = stepOf.get(target)!
+      if (from === to) continue
+      dependenciesOf[from].add(to)
+      dependentsOf[to].add(from)
+    }
+  }
+  return { steps, stepOf, dependenciesOf, dependentsOf }
+}
+
+// Topological layer of every package: the longest chain of dependencies below it, packages of a
+// circular dependency share one layer
+export function topologicalLayers(graph: GraphLike) {
+  const { steps, stepOf, dependentsOf } = condense(graph, couplingOf(graph).outgoing)
+  const layers = longestPaths(steps.length, dependentsOf)
+  return new Map(graph.nodes.map((node) => [node.id, layers.length[stepOf.get(node.id)!]]))
+}
+
+// Structure metrics of every package. Packages of a circular dependency share one layer, as if
+// they were a single package, and appear together as one step of the longest chain.
+export function computeMetrics(graph: GraphLike): GraphMetrics {
+  const ids = graph.nodes.map((node) => node.id)
+  const { outgoing, incoming } = couplingOf(graph)
+  const { steps, stepOf, dependenciesOf, dependentsOf } = condense(graph, outgoing)
+
+  // Layer: the longest chain of dependencies below a package, 0 when it depends on nothing.
+  // Depth: the longest chain of dependents above it, 0 when nothing depends on it.
+  const layers = longestPaths(steps.length, dependentsOf)
+  const depths = longestPaths(steps.length, dependenciesOf)
+  const betweenness = betweennessOf(ids, outgoing)
+
+  const packages: PackageMetrics[] = ids.map((id) => {
+    const afferent = incoming.get(id)!.size
+    const efferent = outgoing.get(id)!.size
+    return {
+      id,
+      layer: layers.length[stepOf.get(id)!],
+      depth: depths.length[stepOf.get(id)!],
+      afferent,
+      efferent,
+      instability: afferent + efferent > 0 ? efferent / (afferent + efferent) : null,
+      betweenness: betweenness.get(id)!,
+    }
+  })
+
+  // The chain ends at the highest layer and follows the dependencies that made it that high
+  const top = layers.length.reduce((best, length, index) => (length > layers.length[best] ? index : best), 0)
+  const longestChain: string[][] = []
+  for (let step = steps.length > 0 ? top : -1; step !== -1; step = layers.via[step]) {
+    longestChain.push(steps[step])
+  }
+
+  // Average layer of the packages nothing depends on, how deep the trees below the entry points go
+  const roots = steps.map((_, index) => index).filter((index) => dependentsOf[index].size === 0)
+
+  return {
+    packages,
+    layers: steps.length > 0 ? layers.length[top] + 1 : 0,
+    longestChain,
+    averageDepth: roots.length > 0 ? roots.reduce((sum, index) => sum + layers.length[index], 0) / roots.length : 0,
+  }
+}
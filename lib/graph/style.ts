@@ -0,0 +1,90 @@
+import { CycleHighlights, DiffStatus, Ecosystem, ThreeEdge } from "@/types"
+
+// Colors of what a comparison added and removed
+export const DIFF_COLORS: Record<DiffStatus, string> = {
+  added: "#22c55e",
+  removed: "#ef4444",
+}
+
+// Imports of workspace packages that aren't declared in package.json (deep mode)
+export const UNDECLARED_IMPORT_COLOR = "#f59e0b"
+
+// Dependencies that break an architecture rule of the repository
+export const RULE_VIOLATION_COLOR = "#dc2626"
+
+// Packages and dependencies that are part of a circular dependency
+export const CYCLE_COLOR = "#f43f5e"
+
+// Glow of packages from other ecosystems than npm, which keep the theme's glow color
+export const ECOSYSTEM_COLORS: Record<Exclude<Ecosystem, "npm">, string> = {
+  cargo: "#f97316",
+  go: "#a3e635",
+  python: "#facc15",
+  gradle: "#a855f7",
+  maven: "#ec4899",
+}
+
+export const ECOSYSTEM_LABELS: Record<Ecosystem, string> = {
+  npm: "npm",
+  cargo: "Cargo",
+  go: "Go",
+  python: "Python",
+  gradle: "Gradle",
+  maven: "Maven",
+}
+
+// Color, opacity and dash of an edge, the same in the 3D and the 2D view. Comparison changes
+// win over rule violations, which win over cycles and undeclared imports.
+export function edgeStyle(
+  edge: ThreeEdge,
+  {
+    selectedNode,
+    cycles,
+    violations,
+    edgeColor,
+    dimmedEdgeColor,
+  }: {
+    selectedNode: string | null
+    cycles: CycleHighlights
+    violations: Set<string>
+    edgeColor: string
+    dimmedEdgeColor: string
+  },
+) {
+  // Highlight connections related to the selected node
+  const isRelated = edge.source === selectedNode || edge.target === selectedNode
+  const edgeKey = `${edge.source}\u0000${edge.target}`
+  const inCycle = cycles.edges.has(edgeKey)
+  const isViolation = violations.has(edgeKey)
+
+  const color = edge.diffStatus
+    ? DIFF_COLORS[edge.diffStatus as DiffStatus]
+    : isViolation
+      ? RULE_VIOLATION_COLOR
+      : inCycle
+        ? CYCLE_COLOR
+        : edge.kind === "undeclared-import"
+          ? UNDECLARED_IMPORT_COLOR
+          : isRelated
+            ? edgeColor
+            : dimmedEdgeColor
+
+  return {
+    color,
+    opacity: edge.diffStatus === "removed" ? 0.35 : isRelated || inCycle || isViolation || edge.diffStatus ? 0.9 : 0.4,
+    // Removed, unused and cycle breaking dependencies are dashed
+    dashed: Boolean(edge.diffStatus === "removed" || edge.unused || cycles.breaks.has(edgeKey)),
+  }
+}
+
+// Glow of a package: circular dependency first, then its ecosystem
+export const nodeGlowColor = (
+  node: { id: string; ecosystem?: Ecosystem },
+  cycles: CycleHighlights,
+  defaultColor: string,
+) =>
+  cycles.members.has(node.id)
+    ? CYCLE_COLOR
+    : node.ecosystem && node.ecosystem !== "npm"
+      ? ECOSYSTEM_COLORS[node.ecosystem]
+      : defaultColor
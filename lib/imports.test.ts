@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+
+import { parseImports, parseTsconfigPaths, resolvePathAlias } from "@/lib/imports"
+
+describe("parseImports", () => {
+  it("finds static imports, re-exports and requires, not commented ones", () => {
+    const code = `
+      import React from "react"
+      import type { Node } from "@acme/graph/types"
+      export * from "./util"
+      const fs = require("fs")
+      // import "@acme/old"
+      const url = "https://example.com"
+    `
+    expect(parseImports(code)).toEqual(["react", "@acme/graph/types", "./util", "fs"])
+  })
+})
+
+describe("parseTsconfigPaths", () => {
+  it("resolves targets against baseUrl and tolerates comments and trailing commas", () => {
+    const content = `{
+      // Shared libraries
+      "compilerOptions": {
+        "baseUrl": "./src/..",
+        "paths": { "@acme/ui": ["packages/ui/src/index.ts"], "@acme/ui/*": ["./packages/ui/src/*",], },
+      },
+    }`
+    expect(parseTsconfigPaths(content)).toEqual([
+      { prefix: "@acme/ui", suffix: null, targets: ["packages/ui/src/index.ts"] },
+      { prefix: "@acme/ui/", suffix: "", targets: ["packages/ui/src/*"] },
+    ])
+  })
+
+  it("returns nothing without paths", () => {
+    expect(parseTsconfigPaths(`{ "compilerOptions": { "strict": true } }`)).toEqual([])
+  })
+})
+
+describe("resolvePathAlias", () => {
+  const files = new Set(["packages/ui/src/index.ts", "packages/ui/src/button/index.tsx", "libs/shared/lib.ts"])
+  const aliases = parseTsconfigPaths(
+    JSON.stringify({
+      compilerOptions: {
+        paths: {
+          "@acme/ui": ["packages/ui/src/index.ts"],
+          "@acme/*": ["libs/*/lib.ts"],
+          "@acme/ui/*": ["packages/ui/src/*"],
+        },
+      },
+    }),
+  )
+
+  it("prefers an exact alias", () => {
+    expect(resolvePathAlias("@acme/ui", aliases, files)).toBe("packages/ui/src/index.ts")
+  })
+
+  it("uses the wildcard alias with the longest prefix", () => {
+    expect(resolvePathAlias("@acme/ui/button", aliases, files)).toBe("packages/ui/src/button/index.tsx")
+    expect(resolvePathAlias("@acme/shared", aliases, files)).toBe("libs/shared/lib.ts")
+  })
+
+  it("returns null for unaliased or missing files", () => {
+    expect(resolvePathAlias("react", aliases, files)).toBeNull()
+    expect(resolvePathAlias("@acme/ui/missing", aliases, files)).toBeNull()
+  })
+})
@@ -0,0 +1,131 @@
+import { dirname, joinPath } from "@/lib/workspaces"
+
+// Extensions of the sources parsed in deep mode, in the order a bundler tries them
+export const SOURCE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"]
+
+// Build output, dependencies and generated code, never scanned for imports
+const IGNORED_SOURCE_DIRECTORIES = ["node_modules", "dist", "build", "out", ".next", "coverage", ".turbo"]
+
+export const isSourceFile = (path: string) =>
+  SOURCE_EXTENSIONS.some((extension) => path.endsWith(extension)) &&
+  !/\.d\.[cm]?ts$/.test(path) &&
+  !path.split("/").some((segment) => IGNORED_SOURCE_DIRECTORIES.includes(segment))
+
+// Remove comments so commented out imports are not picked up. Strings are kept intact, a "//" inside
+// a string (e.g. a URL) is not treated as a comment.
+function stripComments(source: string) {
+  return source.replace(/("(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`)|\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, (match, string) =>
+    string ? match : " ",
+  )
+}
+
+const IMPORT_PATTERNS = [
+  // import x from "y", import { x } from "y", import type { x } from "y", export { x } from "y", export * from "y"
+  /\b(?:import|export)\s+(?:type\s+)?[^;"'`]*?\bfrom\s*["']([^"'\n]+)["']/g,
+  // import "y"
+  /\bimport\s*["']([^"'\n]+)["']/g,
+  // require("y"), import("y")
+  /\b(?:require|import)\s*\(\s*["']([^"'\n]+)["']\s*\)/g,
+]
+
+// Module specifiers imported by a TS/JS source file. Only static strings are found; computed
+// specifiers like import(`./locales/${lang}`) can't be resolved without running the code.
+export function parseImports(source: string) {
+  const code = stripComments(source)
+  const specifiers = new Set<string>()
+
+  for (const pattern of IMPORT_PATTERNS) {
+    for (const match of code.matchAll(pattern)) {
+      specifiers.add(match[1])
+    }
+  }
+
+  return Array.from(specifiers)
+}
+
+// Package name of a bare specifier: "@scope/ui/button" -> "@scope/ui", "lodash/fp" -> "lodash"
+export function packageNameOf(specifier: string) {
+  const parts = specifier.split("/")
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0]
+}
+
+// File a relative import points at, trying the extensions and index files a bundler would.
+// "./util.js" also matches util.ts, as TypeScript's ESM output requires.
+export function resolveRelativeImport(specifier: string, fromFile: string, files: Set<string>) {
+  return resolveSourceFile(joinPath(dirname(fromFile), specifier), files)
+}
+
+function resolveSourceFile(path: string, files: Set<string>) {
+  const withoutJsExtension = path.replace(/\.[cm]?jsx?$/, "")
+  const candidates = [
+    path,
+    ...SOURCE_EXTENSIONS.map((extension) => path + extension),
+    ...SOURCE_EXTENSIONS.map((extension) => withoutJsExtension + extension),
+    ...SOURCE_EXTENSIONS.map((extension) => joinPath(path, `index${extension}`)),
+  ]
+
+  return candidates.find((candidate) => files.has(candidate)) ?? null
+}
+
+// Package owning a file: the package with the deepest directory containing it
+export function owningPackage(path: string, directories: Map<string, string>) {
+  for (let directory = dirname(path); ; directory = dirname(directory)) {
+    const owner = directories.get(directory)
+    if (owner !== undefined) return owner
+    if (directory === "") return null
+  }
+}
+
+// Root tsconfig files whose compilerOptions.paths alias workspace packages (tsconfig.base.json in Nx)
+export const TSCONFIG_FILES = ["tsconfig.json", "tsconfig.base.json"]
+
+export interface PathAlias {
+  prefix: string
+  // null for an exact alias without "*"
+  suffix: string | null
+  targets: string[]
+}
+
+// compilerOptions.paths of a root tsconfig, targets relative to the repository root. tsconfig
+// allows comments and trailing commas, "extends" is not followed.
+export function parseTsconfigPaths(content: string): PathAlias[] {
+  const config = JSON.parse(stripComments(content).replace(/,(\s*[}\]])/g, "$1"))
+  const { baseUrl = ".", paths } = config?.compilerOptions || {}
+  if (!paths || typeof paths !== "object") return []
+
+  return Object.entries(paths)
+    .filter((entry): entry is [string, string[]] => Array.isArray(entry[1]))
+    .map(([pattern, targets]) => {
+      const star = pattern.indexOf("*")
+      return {
+        prefix: star === -1 ? pattern : pattern.slice(0, star),
+        suffix: star === -1 ? null : pattern.slice(star + 1),
+        targets: targets.map((target) => joinPath(joinPath("", baseUrl), target)),
+      }
+    })
+}
+
+// File a bare specifier resolves to through the path aliases, the way TypeScript picks them:
+// an exact alias first, then the matching pattern with the longest prefix
+export function resolvePathAlias(specifier: string, aliases: PathAlias[], files: Set<string>) {
+  const exact = aliases.find((alias) => alias.suffix === null && alias.prefix === specifier)
+  const alias =
+    exact ||
+    aliases
+      .filter(
+        ({ prefix, suffix }) =>
+          suffix !== null &&
+          specifier.length >= prefix.length + suffix.length &&
+          specifier.startsWith(prefix) &&
+          specifier.endsWith(suffix),
+      )
+      .sort((a, b) => b.prefix.length - a.prefix.length)[0]
+  if (!alias) return null
+
+  const matched = alias.suffix === null ? "" : specifier.slice(alias.prefix.length, specifier.length - alias.suffix.length)
+  for (const target of alias.targets) {
+    const file = resolveSourceFile(target.replace("*", matched), files)
+    if (file) return file
+  }
+  return null
+}
@@ -0,0 +1,181 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import { createJobQueue } from "@/lib/jobs"
+
+// A promise settled from the outside, so a test decides when a job finishes
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  let reject!: (error: unknown) => void
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+// Let the queue's promise callbacks run
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("createJobQueue", () => {
+  it("runs at most `concurrency` jobs, the others start in the order they were enqueued", async () => {
+    const runs = new Map<string, ReturnType<typeof deferred<string>>>()
+    const started: string[] = []
+    const queue = createJobQueue<string, string, number>({
+      run: (input) => {
+        started.push(input)
+        runs.set(input, deferred<string>())
+        return runs.get(input)!.promise
+      },
+      concurrency: 2,
+    })
+
+    const [a, b, c, d] = ["a", "b", "c", "d"].map((input) => queue.enqueue(input)!)
+    await flush()
+    expect(started).toEqual(["a", "b"])
+    expect([a, b, c, d].map((job) => job.status)).toEqual(["running", "running", "queued", "queued"])
+    expect([a, c, d].map((job) => queue.position(job.id))).toEqual([0, 1, 2])
+
+    runs.get("b")!.resolve("B")
+    await flush()
+    expect(started).toEqual(["a", "b", "c"])
+    expect(b.status).toBe("succeeded")
+    expect(b.result).toBe("B")
+    expect(queue.position(d.id)).toBe(1)
+
+    runs.get("a")!.resolve("A")
+    runs.get("c")!.resolve("C")
+    await flush()
+    runs.get("d")!.resolve("D")
+    await flush()
+    expect(started).toEqual(["a", "b", "c", "d"])
+    expect([a, b, c, d].map((job) => job.result)).toEqual(["A", "B", "C", "D"])
+    expect([a, b, c, d].every((job) => job.startedAt && job.finishedAt)).toBe(true)
+  })
+
+  it("tells subscribers when a job starts, makes progress and finishes", async () => {
+    const runs = new Map<string, ReturnType<typeof deferred<string>>>()
+    const reporters = new Map<string, (progress: number) => void>()
+    const queue = createJobQueue<string, string, number>({
+      run: (input, report) => {
+        reporters.set(input, report)
+        runs.set(input, deferred<string>())
+        return runs.get(input)!.promise
+      },
+    })
+
+    // The first job has to finish before the subscribed one starts
+    queue.enqueue("blocker")
+    const job = queue.enqueue("job")!
+    const updates: string[] = []
+    const unsubscribe = queue.subscribe(job.id, () => updates.push("unsubscribed"))
+    unsubscribe()
+    queue.subscribe(job.id, (current) => updates.push(`${current.status}:${current.progress}`))
+
+    await flush()
+    reporters.get("blocker")!(50)
+    runs.get("blocker")!.resolve("done")
+    await flush()
+
+    reporters.get("job")!(25)
+    reporters.get("job")!(75)
+    expect(job.progress).toBe(75)
+    runs.get("job")!.resolve("done")
+    await flush()
+
+    expect(updates).toEqual(["running:null", "running:25", "running:75", "succeeded:75"])
+  })
+
+  it("stops notifying once a job finished", async () => {
+    const queue = createJobQueue<string, string, number>({ run: async (input) => input })
+    const listener = vi.fn()
+    const job = queue.enqueue("a")!
+    queue.subscribe(job.id, listener)
+    await flush()
+    expect(listener).toHaveBeenCalledTimes(1)
+
+    queue.subscribe(job.id, listener)
+    queue.enqueue("b")
+    await flush()
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it("fails a job that rejects or throws, and carries on with the next", async () => {
+    const queue = createJobQueue<string, string, number>({
+      run: (input) => {
+        if (input === "sync") throw new Error("Thrown right away")
+        return input === "async" ? Promise.reject(new Error("Repository not found")) : Promise.resolve(input)
+      },
+    })
+
+    const sync = queue.enqueue("sync")!
+    const rejected = queue.enqueue("async")!
+    const fine = queue.enqueue("fine")!
+    await flush()
+
+    expect(sync).toMatchObject({ status: "failed", error: "Thrown right away" })
+    expect(rejected).toMatchObject({ status: "failed", error: "Repository not found" })
+    expect(rejected.result).toBeUndefined()
+    expect(fine).toMatchObject({ status: "succeeded", result: "fine" })
+  })
+
+  it("forgets finished jobs after the ttl, but not waiting or running ones", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"))
+    const running = deferred<string>()
+    const queue = createJobQueue<string, string, number>({
+      run: (input) => (input === "slow" ? running.promise : Promise.resolve(input)),
+      ttl: 60 * 1000,
+    })
+
+    const done = queue.enqueue("done")!
+    const slow = queue.enqueue("slow")!
+    const waiting = queue.enqueue("waiting")!
+    await flush()
+
+    vi.setSystemTime(new Date("2026-01-01T00:00:30Z"))
+    queue.enqueue("later")
+    expect(queue.get(done.id)).toBe(done)
+
+    vi.setSystemTime(new Date("2026-01-01T00:01:01Z"))
+    queue.enqueue("much later")
+    expect(queue.get(done.id)).toBeUndefined()
+    expect(queue.get(slow.id)?.status).toBe("running")
+    expect(queue.get(waiting.id)?.status).toBe("queued")
+  })
+
+  it("refuses new jobs while `maxPending` jobs are waiting", async () => {
+    const run = deferred<string>()
+    const queue = createJobQueue<string, string, number>({ run: () => run.promise, maxPending: 2 })
+
+    expect(queue.enqueue("running")).not.toBeNull()
+    expect(queue.enqueue("first")).not.toBeNull()
+    expect(queue.enqueue("second")).not.toBeNull()
+    expect(queue.enqueue("third")).toBeNull()
+
+    run.resolve("done")
+    await flush()
+    expect(queue.enqueue("third")).not.toBeNull()
+  })
+  it("counts the jobs that match, whatever their status", async () => {
+    const runs = new Map<string, ReturnType<typeof deferred<string>>>()
+    const queue = createJobQueue<string, string, number>({
+      run: (input) => {
+        runs.set(input, deferred<string>())
+        return runs.get(input)!.promise
+      },
+    })
+
+    for (const input of ["page:a", "page:b", "api:c"]) queue.enqueue(input)
+    await flush()
+    expect(queue.count((job) => job.input.startsWith("page:"))).toBe(2)
+    expect(queue.count((job) => job.status === "queued")).toBe(2)
+
+    runs.get("page:a")!.resolve("done")
+    await flush()
+    expect(queue.count((job) => job.input.startsWith("page:") && !job.finishedAt)).toBe(1)
+  })
+})
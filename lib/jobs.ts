@@ -0,0 +1,108 @@
+import { randomUUID } from "crypto"
+import { Job } from "@/types"
+
+// Finished jobs are kept this long so their results can still be fetched
+const JOB_TTL = 60 * 60 * 1000
+
+export interface JobQueueOptions<Input, Result, Progress> {
+  // Does the work of a job, reporting progress as it goes
+  run: (input: Input, report: (progress: Progress) => void) => Promise<Result>
+  // Jobs running at the same time, the others wait in the order they were enqueued
+  concurrency?: number
+  ttl?: number
+  // Jobs allowed to wait at the same time, enqueue refuses more
+  maxPending?: number
+}
+
+// In-process job queue. Jobs live in the memory of the server process, so they are gone after a
+// restart and aren't shared between instances. `run` is passed in, so a queue runs anything.
+export function createJobQueue<Input, Result, Progress>({
+  run,
+  concurrency = 1,
+  ttl = JOB_TTL,
+  maxPending = Infinity,
+}: JobQueueOptions<Input, Result, Progress>) {
+  const jobs = new Map<string, Job<Input, Result, Progress>>()
+  const pending: Job<Input, Result, Progress>[] = []
+  const listeners = new Map<string, Set<(job: Job<Input, Result, Progress>) => void>>()
+  let running = 0
+
+  const notify = (job: Job<Input, Result, Progress>) => listeners.get(job.id)?.forEach((listener) => listener(job))
+
+  const prune = () => {
+    const now = Date.now()
+    for (const [id, job] of jobs) {
+      if (job.finishedAt && now - Date.parse(job.finishedAt) > ttl) jobs.delete(id)
+    }
+  }
+
+  const finish = (job: Job<Input, Result, Progress>, changes: Partial<Job<Input, Result, Progress>>) => {
+    Object.assign(job, changes, { finishedAt: new Date().toISOString() })
+    running--
+    notify(job)
+    listeners.delete(job.id)
+    startNext()
+  }
+
+  const startNext = () => {
+    while (running < concurrency && pending.length > 0) {
+      const job = pending.shift()!
+      running++
+      Object.assign(job, { status: "running", startedAt: new Date().toISOString() })
+      notify(job)
+      // Started from a promise so a `run` that throws right away fails the job, not the caller
+      Promise.resolve()
+        .then(() =>
+          run(job.input, (progress) => {
+            job.progress = progress
+            notify(job)
+          }),
+        )
+        .then(
+          (result) => finish(job, { status: "succeeded", result }),
+          (error) => finish(job, { status: "failed", error: error instanceof Error ? error.message : String(error) }),
+        )
+    }
+  }
+
+  return {
+    // The new job, null when `maxPending` jobs are already waiting
+    enqueue(input: Input) {
+      prune()
+      if (pending.length >= maxPending) return null
+      const job: Job<Input, Result, Progress> = {
+        id: randomUUID(),
+        status: "queued",
+        input,
+        progress: null,
+        createdAt: new Date().toISOString(),
+      }
+      jobs.set(job.id, job)
+      pending.push(job)
+      startNext()
+      return job
+    },
+
+    get: (id: string) => jobs.get(id),
+
+    // Jobs kept by the queue (waiting, running or finished within the ttl) that match
+    count(match: (job: Job<Input, Result, Progress>) => boolean) {
+      prune()
+      return Array.from(jobs.values()).filter(match).length
+    },
+
+    // Place of the job among the waiting ones, 1 starts next, 0 once it runs
+    position: (id: string) => pending.findIndex((job) => job.id === id) + 1,
+
+    // Call `listener` whenever the job starts, makes progress or finishes. Returns the unsubscribe.
+    subscribe(id: string, listener: (job: Job<Input, Result, Progress>) => void) {
+      const subscribed = listeners.get(id) || new Set()
+      listeners.set(id, subscribed.add(listener))
+      return () => {
+        subscribed.delete(listener)
+      }
+    },
+  }
+}
+
+export type JobQueue<Input, Result, Progress> = ReturnType<typeof createJobQueue<Input, Result, Progress>>
@@ -0,0 +1,38 @@
+import { fibonacciSphere, sunflowerDisk } from "@/lib/layout/sphere"
+import { LayoutNode, LayoutPositions } from "@/types"
+
+// Room per package inside a cluster, and empty space between clusters
+const PACKAGE_SPACING = 5
+const CLUSTER_GAP = 8
+
+// Packages grouped by scope or directory: each group is a small sphere (a disk when flat), the
+// groups sit on a ring
+export function clusteredLayout(nodes: LayoutNode[], flat = false) {
+  const groups = new Map<string, string[]>()
+  for (const node of nodes) groups.set(node.group, [...(groups.get(node.group) || []), node.id])
+
+  // Biggest groups first, radius growing with the cube (square when flat) root of the size so
+  // density stays the same
+  const clusters = Array.from(groups, ([name, ids]) => ({
+    name,
+    ids: ids.sort(),
+    radius: ids.length > 1 ? PACKAGE_SPACING * (flat ? Math.sqrt(ids.length) : Math.cbrt(ids.length)) : 0,
+  })).sort((a, b) => b.ids.length - a.ids.length || a.name.localeCompare(b.name))
+
+  // A ring whose circumference fits every cluster side by side
+  const circumference = clusters.reduce((sum, cluster) => sum + cluster.radius * 2 + CLUSTER_GAP, 0)
+  const ringRadius = clusters.length > 1 ? circumference / (2 * Math.PI) : 0
+
+  const positions: LayoutPositions = {}
+  let travelled = 0
+  for (const cluster of clusters) {
+    const angle = ((travelled + cluster.radius + CLUSTER_GAP / 2) / circumference) * 2 * Math.PI
+    travelled += cluster.radius * 2 + CLUSTER_GAP
+    const center = [ringRadius * Math.cos(angle), ringRadius * Math.sin(angle), 0]
+
+    ;(flat ? sunflowerDisk : fibonacciSphere)(cluster.ids.length, cluster.radius).forEach((point, index) => {
+      positions[cluster.ids[index]] = [center[0] + point[0], center[1] + point[1], center[2] + point[2]]
+    })
+  }
+  return positions
+}
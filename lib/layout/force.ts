@@ -0,0 +1,204 @@
+import { fibonacciSphere, sunflowerDisk } from "@/lib/layout/sphere"
+import { LayoutNode, LayoutPositions } from "@/types"
+
+// Distance the springs pull connected packages to, a bit more than two cubes
+const IDEAL_LENGTH = 10
+const ITERATIONS = 300
+// Barnes-Hut accuracy: cells that look smaller than this from a package count as one body
+const THETA = 0.8
+// Pull towards the center that keeps loosely connected parts from drifting apart
+const GRAVITY = 0.02
+// Cells this deep hold every package left, packages on the same spot would split forever otherwise
+const MAX_DEPTH = 24
+
+interface Cell {
+  center: [number, number, number]
+  half: number
+  mass: number
+  // Sum of the positions of the packages in the cell, divided by mass it's their center of mass
+  sum: [number, number, number]
+  children: Array<Cell | undefined> | null
+  bodies: number[]
+}
+
+const createCell = (center: [number, number, number], half: number): Cell => ({
+  center,
+  half,
+  mass: 0,
+  sum: [0, 0, 0],
+  children: null,
+  bodies: [],
+})
+
+// Octree over the positions, rebuilt every iteration
+function buildOctree(positions: Float64Array, count: number) {
+  let extent = 1
+  for (let i = 0; i < count * 3; i++) extent = Math.max(extent, Math.abs(positions[i]))
+  const root = createCell([0, 0, 0], extent + 1)
+
+  const octant = (cell: Cell, body: number) =>
+    (positions[body * 3] > cell.center[0] ? 1 : 0) +
+    (positions[body * 3 + 1] > cell.center[1] ? 2 : 0) +
+    (positions[body * 3 + 2] > cell.center[2] ? 4 : 0)
+
+  const childOf = (cell: Cell, index: number) => {
+    const half = cell.half / 2
+    cell.children![index] ??= createCell(
+      [
+        cell.center[0] + (index & 1 ? half : -half),
+        cell.center[1] + (index & 2 ? half : -half),
+        cell.center[2] + (index & 4 ? half : -half),
+      ],
+      half,
+    )
+    return cell.children![index]!
+  }
+
+  for (let body = 0; body < count; body++) {
+    let cell = root
+    for (let depth = 0; ; depth++) {
+      cell.mass++
+      for (let axis = 0; axis < 3; axis++) cell.sum[axis] += positions[body * 3 + axis]
+
+      if (cell.children) {
+        cell = childOf(cell, octant(cell, body))
+      } else if (cell.bodies.length === 0 || depth >= MAX_DEPTH) {
+        cell.bodies.push(body)
+        break
+      } else {
+        // Split the leaf and move its package one level down, as if it had just been inserted there
+        const [other] = cell.bodies
+        cell.bodies = []
+        cell.children = new Array(8)
+        const child = childOf(cell, octant(cell, other))
+        child.mass++
+        child.bodies.push(other)
+        for (let axis = 0; axis < 3; axis++) child.sum[axis] += positions[other * 3 + axis]
+        cell = childOf(cell, octant(cell, body))
+      }
+    }
+  }
+
+  return root
+}
+
+// Fruchterman-Reingold in 3D: packages repel each other (Barnes-Hut approximated), dependencies
+// pull them together, and the largest step shrinks every iteration until the layout settles.
+// A flat layout keeps every package at z = 0.
+export function forceLayout(
+  nodes: LayoutNode[],
+  edges: Array<{ source: string; target: string }>,
+  seeds: LayoutPositions,
+  flat = false,
+) {
+  const count = nodes.length
+  const indexOf = new Map(nodes.map((node, index) => [node.id, index]))
+  const links = edges
+    .map((edge) => [indexOf.get(edge.source), indexOf.get(edge.target)])
+    .filter((link): link is [number, number] => link[0] !== undefined && link[1] !== undefined && link[0] !== link[1])
+
+  // Start from the earlier positions where there are some, on a sphere sized for the graph otherwise
+  const radius = IDEAL_LENGTH * (flat ? Math.sqrt(count) : Math.cbrt(count))
+  const initial = (flat ? sunflowerDisk : fibonacciSphere)(count, radius)
+  const positions = new Float64Array(count * 3)
+  nodes.forEach((node, index) => {
+    const start = seeds[node.id] ?? initial[index]
+    for (let axis = 0; axis < 3; axis++) positions[index * 3 + axis] = start[axis]
+  })
+
+  const k2 = IDEAL_LENGTH * IDEAL_LENGTH
+  const displacement = new Float64Array(count * 3)
+  let temperature = radius / 2
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    displacement.fill(0)
+    const root = buildOctree(positions, count)
+
+    // Repulsion k²/d from every other package, far away cells as a whole
+    for (let body = 0; body < count; body++) {
+      const x = positions[body * 3]
+      const y = positions[body * 3 + 1]
+      const z = positions[body * 3 + 2]
+      const stack = [root]
+
+      while (stack.length > 0) {
+        const cell = stack.pop()!
+        if (cell.mass === 0) continue
+
+        if (cell.children) {
+          const dx = x - cell.sum[0] / cell.mass
+          const dy = y - cell.sum[1] / cell.mass
+          const dz = z - cell.sum[2] / cell.mass
+          const distance = Math.sqrt(dx * dx + dy * dy + dz * dz)
+          if (distance > 0 && (cell.half * 2) / distance < THETA) {
+            const force = (k2 * cell.mass) / (distance * distance)
+            displacement[body * 3] += dx * force
+            displacement[body * 3 + 1] += dy * force
+            displacement[body * 3 + 2] += dz * force
+          } else {
+            for (const child of cell.children) if (child) stack.push(child)
+          }
+          continue
+        }
+
+        for (const other of cell.bodies) {
+          if (other === body) continue
+          let dx = x - positions[other * 3]
+          let dy = y - positions[other * 3 + 1]
+          let dz = z - positions[other * 3 + 2]
+          let distance2 = dx * dx + dy * dy + dz * dz
+          // Packages on the same spot are pushed apart in a direction that depends on their order
+          if (distance2 < 1e-6) {
+            dx = body < other ? 0.1 : -0.1
+            dy = ((body * 7 + other) % 3) * 0.05
+            dz = 0
+            distance2 = dx * dx + dy * dy
+          }
+          const force = k2 / distance2
+          displacement[body * 3] += dx * force
+          displacement[body * 3 + 1] += dy * force
+          displacement[body * 3 + 2] += dz * force
+        }
+      }
+    }
+
+    // Attraction d²/k along every dependency, in both directions
+    for (const [source, target] of links) {
+      const dx = positions[source * 3] - positions[target * 3]
+      const dy = positions[source * 3 + 1] - positions[target * 3 + 1]
+      const dz = positions[source * 3 + 2] - positions[target * 3 + 2]
+      const distance = Math.sqrt(dx * dx + dy * dy + dz * dz)
+      const force = distance / IDEAL_LENGTH
+      displacement[source * 3] -= dx * force
+      displacement[source * 3 + 1] -= dy * force
+      displacement[source * 3 + 2] -= dz * force
+      displacement[target * 3] += dx * force
+      displacement[target * 3 + 1] += dy * force
+      displacement[target * 3 + 2] += dz * force
+    }
+
+    // Move every package along its displacement, at most by the current temperature
+    for (let body = 0; body < count; body++) {
+      for (let axis = 0; axis < 3; axis++) displacement[body * 3 + axis] -= positions[body * 3 + axis] * GRAVITY * IDEAL_LENGTH
+      if (flat) displacement[body * 3 + 2] = 0
+      const dx = displacement[body * 3]
+      const dy = displacement[body * 3 + 1]
+      const dz = displacement[body * 3 + 2]
+      const length = Math.sqrt(dx * dx + dy * dy + dz * dz)
+      if (length === 0) continue
+      const step = Math.min(length, temperature) / length
+      positions[body * 3] += dx * step
+      positions[body * 3 + 1] += dy * step
+      positions[body * 3 + 2] += dz * step
+    }
+
+    temperature = Math.max(temperature * 0.98, 0.05)
+  }
+
+  return Object.fromEntries(
+    nodes.map((node, index): [string, [number, number, number]] => [
+      node.id,
+      [positions[index * 3], positions[index * 3 + 1], positions[index * 3 + 2]],
+    ]),
+  )
+}
@@ -0,0 +1,71 @@
+import { clusteredLayout } from "@/lib/layout/clustered"
+import { forceLayout } from "@/lib/layout/force"
+import { layeredLayout } from "@/lib/layout/layered"
+import { sphereLayout } from "@/lib/layout/sphere"
+import { GraphLayout, LayoutPositions, LayoutRequest } from "@/types"
+
+export const GRAPH_LAYOUTS: GraphLayout[] = ["force", "layered", "clustered", "sphere"]
+
+export const DEFAULT_GRAPH_LAYOUT: GraphLayout = "force"
+
+export const GRAPH_LAYOUT_LABELS: Record<GraphLayout, string> = {
+  force: "Force-directed",
+  layered: "Layered",
+  clustered: "By directory",
+  sphere: "Sphere",
+}
+
+// Distance between packages of the same cluster of unconnected packages
+const CLUSTER_SPACING = 7
+// Space between the connected graph and the ring of clusters around it
+const CLUSTER_MARGIN = 20
+
+// Packages without any edge go on flat grids, one per scope or directory, on a ring around the
+// connected graph, so they don't crowd the layout of the packages that do depend on each other
+function isolatedLayout(groups: Map<string, string[]>, extent: number) {
+  const names = Array.from(groups.keys())
+  const radius = extent > 0 ? extent + CLUSTER_MARGIN : names.length > 1 ? 10 + names.length * 4 : 0
+
+  const positions: LayoutPositions = {}
+  names.forEach((name, index) => {
+    const angle = (2 * Math.PI * index) / names.length
+    const center = [radius * Math.cos(angle), radius * Math.sin(angle), 0]
+    const ids = groups.get(name)!
+    const columns = Math.ceil(Math.sqrt(ids.length))
+    const rows = Math.ceil(ids.length / columns)
+
+    ids.forEach((id, i) => {
+      const column = i % columns
+      const row = Math.floor(i / columns)
+      positions[id] = [
+        center[0] + (column - (columns - 1) / 2) * CLUSTER_SPACING,
+        center[1] - (row - (rows - 1) / 2) * CLUSTER_SPACING,
+        center[2],
+      ]
+    })
+  })
+  return positions
+}
+
+// Positions of every package in the given layout. Pure, so it runs the same on the main thread
+// and in the layout worker.
+export function computeLayout({ layout, nodes, edges, seeds, flat = false }: LayoutRequest): LayoutPositions {
+  if (layout === "clustered") return clusteredLayout(nodes, flat)
+
+  const connectedIds = new Set(edges.filter((edge) => edge.source !== edge.target).flatMap((edge) => [edge.source, edge.target]))
+  const connected = nodes.filter((node) => connectedIds.has(node.id))
+  const groups = new Map<string, string[]>()
+  for (const node of nodes) {
+    if (!connectedIds.has(node.id)) groups.set(node.group, [...(groups.get(node.group) || []), node.id])
+  }
+
+  const positions =
+    layout === "force"
+      ? forceLayout(connected, edges, seeds, flat)
+      : layout === "layered"
+        ? layeredLayout(connected, edges, flat)
+        : sphereLayout(connected, flat)
+
+  const extent = Math.max(0, ...Object.values(positions).map(([x, y]) => Math.sqrt(x * x + y * y)))
+  return { ...positions, ...isolatedLayout(groups, extent) }
+}
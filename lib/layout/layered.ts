@@ -0,0 +1,73 @@
+import { topologicalLayers } from "@/lib/graph"
+import { LayoutNode, LayoutPositions } from "@/types"
+
+// Vertical distance between layers and horizontal distance between packages of a layer
+const LAYER_SPACING = 12
+const NODE_SPACING = 8
+// Wide layers wrap into more rows, going back along the Z axis
+const ROW_SIZE = 16
+// Up and down sweeps of the barycenter heuristic
+const SWEEPS = 4
+
+// Sugiyama-style layers: the Y axis is the topological layer, so packages sit above everything
+// they depend on, and the order within each layer is refined with the barycenter heuristic to
+// reduce crossings. Packages of a circular dependency share a layer. Flat layouts keep each
+// layer on one row however wide it gets.
+export function layeredLayout(nodes: LayoutNode[], edges: Array<{ source: string; target: string }>, flat = false) {
+  const layerOf = topologicalLayers({ nodes, edges })
+  const layerCount = Math.max(0, ...layerOf.values()) + 1
+
+  const layers: string[][] = Array.from({ length: layerCount }, () => [])
+  for (const node of [...nodes].sort((a, b) => a.id.localeCompare(b.id))) {
+    layers[layerOf.get(node.id)!].push(node.id)
+  }
+
+  const neighbors = new Map(nodes.map((node) => [node.id, [] as string[]]))
+  for (const { source, target } of edges) {
+    if (source === target || !neighbors.has(source) || !neighbors.has(target)) continue
+    neighbors.get(source)!.push(target)
+    neighbors.get(target)!.push(source)
+  }
+
+  // Relative position of each package in its layer, between 0 and 1
+  const order = new Map<string, number>()
+  const place = (layer: string[]) => layer.forEach((id, index) => order.set(id, layer.length > 1 ? index / (layer.length - 1) : 0.5))
+  layers.forEach(place)
+
+  // Sort a layer by the average position of its neighbors on the side that was just placed
+  const reorder = (layer: number, fromAbove: boolean) => {
+    const barycenter = new Map(
+      layers[layer].map((id) => {
+        const placed = neighbors
+          .get(id)!
+          .filter((other) => (fromAbove ? layerOf.get(other)! > layer : layerOf.get(other)! < layer))
+        const value = placed.length > 0 ? placed.reduce((sum, other) => sum + order.get(other)!, 0) / placed.length : order.get(id)!
+        return [id, value]
+      }),
+    )
+    layers[layer].sort((a, b) => barycenter.get(a)! - barycenter.get(b)! || order.get(a)! - order.get(b)!)
+    place(layers[layer])
+  }
+
+  for (let sweep = 0; sweep < SWEEPS; sweep++) {
+    for (let layer = layerCount - 2; layer >= 0; layer--) reorder(layer, true)
+    for (let layer = 1; layer < layerCount; layer++) reorder(layer, false)
+  }
+
+  const positions: LayoutPositions = {}
+  layers.forEach((ids, layer) => {
+    const rowSize = flat ? Math.max(ids.length, 1) : ROW_SIZE
+    const columns = Math.min(ids.length, rowSize)
+    const rows = Math.ceil(ids.length / rowSize)
+    ids.forEach((id, index) => {
+      const column = index % rowSize
+      const row = Math.floor(index / rowSize)
+      positions[id] = [
+        (column - (columns - 1) / 2) * NODE_SPACING,
+        (layer - (layerCount - 1) / 2) * LAYER_SPACING,
+        (row - (rows - 1) / 2) * -NODE_SPACING,
+      ]
+    })
+  })
+  return positions
+}
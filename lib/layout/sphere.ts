@@ -0,0 +1,29 @@
+import { LayoutNode } from "@/types"
+
+// Points spread evenly over a sphere, the first one at the bottom pole
+export function fibonacciSphere(count: number, radius: number) {
+  return Array.from({ length: count }, (_, index): [number, number, number] => {
+    const phi = Math.acos(-1 + (2 * (index + 1)) / (count + 1))
+    const theta = Math.sqrt(count * Math.PI) * phi
+    return [
+      radius * Math.cos(theta) * Math.sin(phi),
+      radius * Math.sin(theta) * Math.sin(phi),
+      radius * Math.cos(phi),
+    ]
+  })
+}
+
+// Points spread evenly over a disk at z = 0, the flat counterpart of fibonacciSphere
+export function sunflowerDisk(count: number, radius: number) {
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5))
+  return Array.from({ length: count }, (_, index): [number, number, number] => {
+    const distance = count > 1 ? radius * Math.sqrt((index + 0.5) / count) : 0
+    return [distance * Math.cos(index * goldenAngle), distance * Math.sin(index * goldenAngle), 0]
+  })
+}
+
+// The original layout: every package on a sphere of radius 20, whatever its dependencies
+export function sphereLayout(nodes: LayoutNode[], flat = false) {
+  const points = (flat ? sunflowerDisk : fibonacciSphere)(nodes.length, 20)
+  return Object.fromEntries(nodes.map((node, index) => [node.id, points[index]]))
+}
@@ -0,0 +1,7 @@
+import { computeLayout } from "@/lib/layout"
+import { LayoutRequest } from "@/types"
+
+// Computes layouts of large graphs off the main thread, one request per worker
+self.onmessage = (event: MessageEvent<LayoutRequest>) => {
+  self.postMessage(computeLayout(event.data))
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest"
+
+import { resolveLockfile } from "@/lib/lockfiles"
+import { LockfilePackage, ParsedLockfile } from "@/types"
+
+const pkg = (key: string, ...dependencies: string[]): [string, LockfilePackage] => {
+  const [name, version] = key.split("@")
+  return [key, { name, version, dependencies }]
+}
+
+const LOCKFILE: ParsedLockfile = {
+  format: "pnpm",
+  importers: new Map<string, Record<string, string>>([
+    ["apps/web", { react: "react@18.2.0", lodash: "lodash@4.17.21" }],
+    ["apps/legacy", { lodash: "lodash@3.10.1", chalk: "chalk@4.1.2" }],
+  ]),
+  packages: new Map([
+    pkg("react@18.2.0", "loose-envify@1.4.0"),
+    pkg("loose-envify@1.4.0"),
+    pkg("lodash@4.17.21"),
+    pkg("lodash@3.10.1"),
+    pkg("chalk@4.1.2", "lodash@4.17.21"),
+  ]),
+}
+
+describe("resolveLockfile", () => {
+  const workspaces = [
+    { id: "web", directory: "apps/web" },
+    { id: "legacy", directory: "apps/legacy" },
+  ]
+
+  it("resolves direct and transitive installs of each workspace", () => {
+    const { resolved } = resolveLockfile("pnpm-lock.yaml", LOCKFILE, workspaces)
+
+    expect(resolved.get("web")).toEqual({
+      direct: { react: "18.2.0", lodash: "4.17.21" },
+      installed: { react: ["18.2.0"], "loose-envify": ["1.4.0"], lodash: ["4.17.21"] },
+      footprint: 3,
+    })
+    expect(resolved.get("legacy")?.installed.lodash).toEqual(["3.10.1", "4.17.21"])
+  })
+
+  it("reports packages installed at more than one version", () => {
+    const { summary } = resolveLockfile("pnpm-lock.yaml", LOCKFILE, workspaces)
+
+    expect(summary).toEqual({
+      file: "pnpm-lock.yaml",
+      format: "pnpm",
+      packages: 5,
+      duplicates: [
+        {
+          name: "lodash",
+          versions: [
+            { version: "3.10.1", dependents: ["legacy"] },
+            { version: "4.17.21", dependents: ["web", "legacy"] },
+          ],
+        },
+      ],
+    })
+  })
+})
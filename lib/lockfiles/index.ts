@@ -0,0 +1,99 @@
+import semver from "semver"
+import { parseNpmLockfile } from "@/lib/lockfiles/npm"
+import { parsePnpmLockfile } from "@/lib/lockfiles/pnpm"
+import { parseYarnLockfile } from "@/lib/lockfiles/yarn"
+import { DuplicatePackage, LockfileSummary, ParsedLockfile, ResolvedDependencies } from "@/types"
+
+export { parseNpmLockfile, parsePnpmLockfile, parseYarnLockfile }
+
+type WorkspacePackage = { directory: string; pkg: Record<string, any> }
+
+// Lockfiles looked for at the repository root, the first one found is used
+const LOCKFILES: Array<{ file: string; parse: (content: string, workspaces: WorkspacePackage[]) => ParsedLockfile }> = [
+  { file: "pnpm-lock.yaml", parse: parsePnpmLockfile },
+  { file: "yarn.lock", parse: parseYarnLockfile },
+  { file: "package-lock.json", parse: parseNpmLockfile },
+  { file: "npm-shrinkwrap.json", parse: parseNpmLockfile },
+]
+
+export const LOCKFILE_NAMES = LOCKFILES.map((lockfile) => lockfile.file)
+
+export function parseLockfile(file: string, content: string, workspaces: WorkspacePackage[]) {
+  const lockfile = LOCKFILES.find((candidate) => candidate.file === file)
+  if (!lockfile) {
+    throw new Error(`Unsupported lockfile: ${file}`)
+  }
+  return lockfile.parse(content, workspaces)
+}
+
+const compareVersions = (a: string, b: string) =>
+  semver.valid(a) && semver.valid(b) ? semver.compare(a, b) : a.localeCompare(b)
+
+// Everything the lockfile installs for a workspace directory, direct and transitive
+function resolveWorkspace(lockfile: ParsedLockfile, directory: string): ResolvedDependencies {
+  const importer = lockfile.importers.get(directory) || {}
+  const direct: Record<string, string> = {}
+  for (const [name, key] of Object.entries(importer)) {
+    const pkg = lockfile.packages.get(key)
+    if (pkg) direct[name] = pkg.version
+  }
+
+  const visited = new Set<string>()
+  const queue = Object.values(importer)
+  while (queue.length > 0) {
+    const key = queue.pop() as string
+    if (visited.has(key) || !lockfile.packages.has(key)) continue
+    visited.add(key)
+    queue.push(...(lockfile.packages.get(key)?.dependencies || []))
+  }
+
+  const installed: Record<string, string[]> = {}
+  for (const key of visited) {
+    const { name, version } = lockfile.packages.get(key)!
+    if (!installed[name]?.includes(version)) installed[name] = [...(installed[name] || []), version]
+  }
+  let footprint = 0
+  for (const versions of Object.values(installed)) {
+    versions.sort(compareVersions)
+    footprint += versions.length
+  }
+
+  return { direct, installed, footprint }
+}
+
+// Resolve every workspace against the lockfile and find the packages installed at more than one version
+export function resolveLockfile(file: string, lockfile: ParsedLockfile, workspaces: Array<{ id: string; directory: string }>) {
+  const resolved = new Map<string, ResolvedDependencies>()
+  for (const { id, directory } of workspaces) {
+    resolved.set(id, resolveWorkspace(lockfile, directory))
+  }
+
+  // name -> version -> workspace packages that install it
+  const dependents = new Map<string, Map<string, string[]>>()
+  for (const [id, { installed }] of resolved) {
+    for (const [name, versions] of Object.entries(installed)) {
+      const byVersion = dependents.get(name) || new Map<string, string[]>()
+      for (const version of versions) byVersion.set(version, [...(byVersion.get(version) || []), id])
+      dependents.set(name, byVersion)
+    }
+  }
+
+  const duplicates: DuplicatePackage[] = Array.from(dependents)
+    .filter(([, byVersion]) => byVersion.size > 1)
+    .map(([name, byVersion]) => ({
+      name,
+      versions: Array.from(byVersion, ([version, ids]) => ({ version, dependents: ids })).sort((a, b) =>
+        compareVersions(a.version, b.version),
+      ),
+    }))
+    .sort((a, b) => b.versions.length - a.versions.length || a.name.localeCompare(b.name))
+
+  const summary: LockfileSummary = {
+    file,
+    format: lockfile.format,
+    packages: new Set(Array.from(lockfile.packages.values(), ({ name, version }) => `${name}@${version}`)).size,
+    duplicates,
+  }
+
+  return { summary, resolved }
+}
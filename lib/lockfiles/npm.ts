@@ -0,0 +1,54 @@
+import { dirname, joinPath } from "@/lib/workspaces"
+import { LockfilePackage, ParsedLockfile } from "@/types"
+
+// Fields of a package entry whose dependencies npm installs
+const INSTALLED_FIELDS = ["dependencies", "optionalDependencies", "peerDependencies"]
+
+const isInstallPath = (key: string) => key.split("/").includes("node_modules")
+
+// package-lock.json and npm-shrinkwrap.json v2/v3: a flat "packages" map keyed by install path
+// ("node_modules/a/node_modules/b"), with "" for the root and the directory of each workspace
+export function parseNpmLockfile(content: string): ParsedLockfile {
+  const lock = JSON.parse(content)
+  if (!lock.packages) {
+    throw new Error(`package-lock.json v${lock.lockfileVersion ?? 1} has no "packages" map, only v2 and v3 are supported`)
+  }
+
+  const entries: Record<string, any> = lock.packages
+
+  // Node module resolution: the closest node_modules/<name> from the requiring package up to the root.
+  // Linked entries are workspace packages, which the graph already has as internal edges.
+  const resolve = (from: string, name: string) => {
+    for (let dir = from; ; dir = dirname(dir)) {
+      const key = joinPath(dir, `node_modules/${name}`)
+      if (entries[key]) return entries[key].link ? null : key
+      if (!dir) return null
+    }
+  }
+
+  const dependenciesOf = (key: string, fields: string[]) =>
+    fields
+      .flatMap((field) => Object.keys(entries[key][field] || {}))
+      .map((name) => [name, resolve(key, name)] as const)
+      .filter((entry): entry is readonly [string, string] => entry[1] !== null)
+
+  const packages = new Map<string, LockfilePackage>()
+  const importers = new Map<string, Record<string, string>>()
+
+  for (const [key, entry] of Object.entries(entries)) {
+    if (entry.link) continue
+
+    if (!isInstallPath(key)) {
+      importers.set(key, Object.fromEntries(dependenciesOf(key, ["devDependencies", ...INSTALLED_FIELDS])))
+      continue
+    }
+
+    packages.set(key, {
+      name: entry.name ?? key.slice(key.lastIndexOf("node_modules/") + "node_modules/".length),
+      version: entry.version ?? "",
+      dependencies: dependenciesOf(key, INSTALLED_FIELDS).map(([, target]) => target),
+    })
+  }
+
+  return { format: "npm", importers, packages }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest"
+
+import { parsePnpmLockfile } from "@/lib/lockfiles/pnpm"
+
+const V9 = `lockfileVersion: '9.0'
+
+importers:
+  .:
+    devDependencies:
+      typescript:
+        specifier: ^5.4.0
+        version: 5.4.5
+  packages/ui:
+    dependencies:
+      '@acme/utils':
+        specifier: workspace:*
+        version: link:../utils
+      react:
+        specifier: ^18.2.0
+        version: 18.2.0
+      string-width-cjs:
+        specifier: npm:string-width@^4.2.0
+        version: string-width@4.2.3
+
+packages:
+  js-tokens@4.0.0:
+    resolution: {integrity: sha512-a}
+  loose-envify@1.4.0:
+    resolution: {integrity: sha512-b}
+  react@18.2.0:
+    resolution: {integrity: sha512-c}
+  string-width@4.2.3:
+    resolution: {integrity: sha512-d}
+  typescript@5.4.5:
+    resolution: {integrity: sha512-e}
+
+snapshots:
+  js-tokens@4.0.0: {}
+  loose-envify@1.4.0:
+    dependencies:
+      js-tokens: 4.0.0
+  react@18.2.0:
+    dependencies:
+      loose-envify: 1.4.0
+  string-width@4.2.3: {}
+  typescript@5.4.5: {}
+`
+
+const V6 = `lockfileVersion: '6.0'
+
+dependencies:
+  react-dom:
+    specifier: ^18.2.0
+    version: 18.2.0(react@18.2.0)
+
+packages:
+  /react-dom@18.2.0(react@18.2.0):
+    resolution: {integrity: sha512-f}
+    dependencies:
+      react: 18.2.0
+  /react@18.2.0:
+    resolution: {integrity: sha512-c}
+`
+
+const V5 = `lockfileVersion: 5.4
+
+importers:
+  .:
+    specifiers:
+      lodash: ^4.17.0
+    dependencies:
+      lodash: 4.17.21
+
+packages:
+  /lodash/4.17.21:
+    resolution: {integrity: sha512-g}
+`
+
+describe("parsePnpmLockfile", () => {
+  it("reads importers and snapshots of lockfile v9", () => {
+    const lockfile = parsePnpmLockfile(V9)
+
+    expect(lockfile.format).toBe("pnpm")
+    expect(lockfile.importers).toEqual(
+      new Map([
+        ["", { typescript: "typescript@5.4.5" }],
+        ["packages/ui", { react: "react@18.2.0", "string-width-cjs": "string-width@4.2.3" }],
+      ]),
+    )
+    expect(lockfile.packages.get("react@18.2.0")).toEqual({
+      name: "react",
+      version: "18.2.0",
+      dependencies: ["loose-envify@1.4.0"],
+    })
+  })
+
+  it("keeps peer suffixes in v6 keys and reads root dependencies without importers", () => {
+    const lockfile = parsePnpmLockfile(V6)
+
+    expect(lockfile.importers).toEqual(new Map([["", { "react-dom": "/react-dom@18.2.0(react@18.2.0)" }]]))
+    expect(lockfile.packages.get("/react-dom@18.2.0(react@18.2.0)")).toEqual({
+      name: "react-dom",
+      version: "18.2.0",
+      dependencies: ["/react@18.2.0"],
+    })
+  })
+
+  it("reads v5 keys", () => {
+    const lockfile = parsePnpmLockfile(V5)
+
+    expect(lockfile.importers.get("")).toEqual({ lodash: "/lodash/4.17.21" })
+    expect(lockfile.packages.get("/lodash/4.17.21")).toMatchObject({ name: "lodash", version: "4.17.21" })
+  })
+})
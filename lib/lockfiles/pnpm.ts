@@ -0,0 +1,69 @@
+import { parse } from "yaml"
+import { LockfilePackage, ParsedLockfile } from "@/types"
+
+type DependencyMap = Record<string, string | { version: string }> | undefined
+
+// pnpm-lock.yaml, lockfile versions 5.x, 6.x and 9.x. Package keys differ between them:
+// "/react/18.2.0_<peers>" (5), "/react@18.2.0(<peers>)" (6) and "react@18.2.0(<peers>)" (9).
+export function parsePnpmLockfile(content: string): ParsedLockfile {
+  const lock = parse(content) || {}
+  const lockfileVersion = parseFloat(String(lock.lockfileVersion ?? "5"))
+
+  // Key of the package a dependency reference points at, null for workspace links and local paths
+  const keyOf = (name: string, ref: string) => {
+    if (ref.startsWith("link:") || ref.startsWith("file:")) return null
+    if (ref.startsWith("/")) return ref
+    if (lockfileVersion >= 9) {
+      // Aliases reference another package by its full key: "string-width@4.2.3"
+      return ref.split("(")[0].lastIndexOf("@") > 0 ? ref : `${name}@${ref}`
+    }
+    return lockfileVersion >= 6 ? `/${name}@${ref}` : `/${name}/${ref}`
+  }
+
+  const nameAndVersion = (key: string) => {
+    const bare = key.replace(/^\//, "").split("(")[0]
+    if (lockfileVersion >= 6) {
+      const index = bare.lastIndexOf("@")
+      return { name: bare.slice(0, index), version: bare.slice(index + 1) }
+    }
+    const index = bare.lastIndexOf("/")
+    return { name: bare.slice(0, index), version: bare.slice(index + 1).split("_")[0] }
+  }
+
+  const resolveAll = (...maps: DependencyMap[]) => {
+    const resolved: Record<string, string> = {}
+    for (const map of maps) {
+      for (const [name, value] of Object.entries(map || {})) {
+        const key = keyOf(name, typeof value === "string" ? value : String(value?.version ?? ""))
+        if (key) resolved[name] = key
+      }
+    }
+    return resolved
+  }
+
+  // Since v9 the dependencies of a package live in "snapshots", "packages" only has its metadata
+  const entries: Record<string, any> = (lockfileVersion >= 9 ? lock.snapshots : lock.packages) || {}
+  const metadata: Record<string, any> = lock.packages || {}
+  const packages = new Map<string, LockfilePackage>()
+  for (const [key, entry] of Object.entries(entries)) {
+    const parsed = nameAndVersion(key)
+    const meta = metadata[key.split("(")[0]] || entry || {}
+    packages.set(key, {
+      name: meta.name ?? parsed.name,
+      version: meta.version ?? parsed.version,
+      dependencies: Object.values(resolveAll(entry?.dependencies, entry?.optionalDependencies)),
+    })
+  }
+
+  // Lockfiles of repositories without workspaces list the root dependencies at the top level
+  const projects: Record<string, any> = lock.importers ?? { ".": lock }
+  const importers = new Map<string, Record<string, string>>()
+  for (const [directory, project] of Object.entries(projects)) {
+    importers.set(
+      directory === "." ? "" : directory,
+      resolveAll(project?.dependencies, project?.devDependencies, project?.optionalDependencies),
+    )
+  }
+
+  return { format: "pnpm", importers, packages }
+}
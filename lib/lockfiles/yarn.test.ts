@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest"
+
+import { parseYarnLockfile } from "@/lib/lockfiles/yarn"
+
+const BERRY = `# This file is generated by running "yarn install" inside your project.
+
+__metadata:
+  version: 8
+  cacheKey: 10
+
+"@acme/ui@workspace:packages/ui":
+  version: 0.0.0-use.local
+  resolution: "@acme/ui@workspace:packages/ui"
+  dependencies:
+    "@acme/utils": "workspace:^"
+    lodash: "npm:^4.17.0"
+  languageName: unknown
+  linkType: soft
+
+"@acme/utils@workspace:^, @acme/utils@workspace:packages/utils":
+  version: 0.0.0-use.local
+  resolution: "@acme/utils@workspace:packages/utils"
+  dependencies:
+    lodash: ^4.17.21
+  languageName: unknown
+  linkType: soft
+
+"lodash@npm:^4.17.0, lodash@npm:^4.17.21":
+  version: 4.17.21
+  resolution: "lodash@npm:4.17.21"
+  languageName: node
+  linkType: hard
+
+"root@workspace:.":
+  version: 0.0.0-use.local
+  resolution: "root@workspace:."
+  languageName: unknown
+  linkType: soft
+`
+
+const CLASSIC = `# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.
+# yarn lockfile v1
+
+
+"chalk@^4.0.0", chalk@^4.1.0:
+  version "4.1.2"
+  resolved "https://registry.yarnpkg.com/chalk/-/chalk-4.1.2.tgz"
+  dependencies:
+    supports-color "^7.1.0"
+
+supports-color@^7.1.0:
+  version "7.2.0"
+  resolved "https://registry.yarnpkg.com/supports-color/-/supports-color-7.2.0.tgz"
+`
+
+describe("parseYarnLockfile", () => {
+  it("reads workspaces and packages of a berry lockfile", () => {
+    const lockfile = parseYarnLockfile(BERRY, [])
+
+    expect(lockfile.format).toBe("yarn-berry")
+    expect(lockfile.importers).toEqual(
+      new Map([
+        ["packages/ui", { lodash: "lodash@npm:4.17.21" }],
+        ["packages/utils", { lodash: "lodash@npm:4.17.21" }],
+        ["", {}],
+      ]),
+    )
+    expect(Array.from(lockfile.packages)).toEqual([["lodash@npm:4.17.21", { name: "lodash", version: "4.17.21", dependencies: [] }]])
+  })
+
+  it("takes the workspaces of a yarn 1 lockfile from their package.json", () => {
+    const workspaces = [{ directory: "packages/cli", pkg: { dependencies: { chalk: "^4.1.0", left: "^1.0.0" } } }]
+    const lockfile = parseYarnLockfile(CLASSIC, workspaces)
+
+    expect(lockfile.format).toBe("yarn")
+    expect(lockfile.importers).toEqual(new Map([["packages/cli", { chalk: "chalk@4.1.2" }]]))
+    expect(lockfile.packages.get("chalk@4.1.2")).toEqual({
+      name: "chalk",
+      version: "4.1.2",
+      dependencies: ["supports-color@7.2.0"],
+    })
+  })
+})
@@ -0,0 +1,128 @@
+import { parse } from "yaml"
+import { LockfilePackage, ParsedLockfile } from "@/types"
+
+// package.json fields yarn installs for a workspace
+const WORKSPACE_FIELDS = ["dependencies", "devDependencies", "optionalDependencies"]
+
+const unquote = (value: string) => value.trim().replace(/^"|"$/g, "")
+
+// "lodash@^4.17.0" -> "lodash", "@babel/core@npm:^7.0.0" -> "@babel/core"
+const descriptorName = (descriptor: string) => descriptor.slice(0, descriptor.indexOf("@", 1))
+
+// yarn.lock of yarn 1 is its own indentation based format, not YAML:
+//
+//   "lodash@^4.17.0", lodash@^4.17.21:
+//     version "4.17.21"
+//     dependencies:
+//       foo "^1.0.0"
+function parseClassicEntries(content: string) {
+  const descriptors = new Map<string, { version: string; dependencies: Record<string, string> }>()
+  let current: { version: string; dependencies: Record<string, string> } | null = null
+  let inDependencies = false
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith("#")) continue
+    const indent = line.length - line.trimStart().length
+    const text = line.trim()
+
+    if (indent === 0) {
+      current = { version: "", dependencies: {} }
+      inDependencies = false
+      for (const descriptor of text.replace(/:$/, "").split(",")) {
+        descriptors.set(unquote(descriptor), current)
+      }
+    } else if (current && indent <= 2) {
+      inDependencies = text === "dependencies:" || text === "optionalDependencies:"
+      const version = text.match(/^version\s+"?([^"]+)"?$/)
+      if (version) current.version = version[1]
+    } else if (current && inDependencies) {
+      const dependency = text.match(/^("[^"]+"|\S+)\s+(.+)$/)
+      if (dependency) current.dependencies[unquote(dependency[1])] = unquote(dependency[2])
+    }
+  }
+
+  return descriptors
+}
+
+// yarn 1 doesn't record workspaces, their dependencies come from their package.json
+function parseClassicLockfile(content: string, workspaces: Array<{ directory: string; pkg: Record<string, any> }>): ParsedLockfile {
+  const descriptors = parseClassicEntries(content)
+  const keyOf = (name: string, range: string) => {
+    const entry = descriptors.get(`${name}@${range}`)
+    return entry ? `${name}@${entry.version}` : null
+  }
+
+  const packages = new Map<string, LockfilePackage>()
+  for (const [descriptor, entry] of descriptors) {
+    const name = descriptorName(descriptor)
+    packages.set(`${name}@${entry.version}`, {
+      name,
+      version: entry.version,
+      dependencies: Object.entries(entry.dependencies).flatMap(([dependency, range]) => keyOf(dependency, range) ?? []),
+    })
+  }
+
+  const importers = new Map<string, Record<string, string>>()
+  for (const { directory, pkg } of workspaces) {
+    const direct: Record<string, string> = {}
+    for (const field of WORKSPACE_FIELDS) {
+      for (const [name, range] of Object.entries<unknown>(pkg[field] || {})) {
+        const key = typeof range === "string" ? keyOf(name, range) : null
+        if (key) direct[name] = key
+      }
+    }
+    importers.set(directory, direct)
+  }
+
+  return { format: "yarn", importers, packages }
+}
+
+// yarn 2+ (berry) lockfiles are YAML, keyed by descriptors with an explicit protocol ("lodash@npm:^4.17.0").
+// Workspaces are entries too ("@acme/ui@workspace:packages/ui"), with all their dependencies.
+function parseBerryLockfile(content: string): ParsedLockfile {
+  const lock: Record<string, any> = parse(content) || {}
+
+  const resolutions = new Map<string, string>()
+  for (const [descriptors, entry] of Object.entries(lock)) {
+    if (descriptors === "__metadata") continue
+    for (const descriptor of descriptors.split(",")) {
+      resolutions.set(descriptor.trim(), entry.resolution)
+    }
+  }
+
+  // Ranges without a protocol are npm ranges; workspace resolutions are internal edges already
+  const keyOf = (name: string, range: string) => {
+    const resolution = resolutions.get(`${name}@${range}`) ?? resolutions.get(`${name}@npm:${range}`)
+    return resolution && !resolution.includes("@workspace:") ? resolution : null
+  }
+  const dependenciesOf = (entry: Record<string, any>) =>
+    Object.entries<string>(entry.dependencies || {}).flatMap(([name, range]) => {
+      const key = keyOf(name, range)
+      return key ? [[name, key] as const] : []
+    })
+
+  const packages = new Map<string, LockfilePackage>()
+  const importers = new Map<string, Record<string, string>>()
+  for (const [descriptors, entry] of Object.entries(lock)) {
+    if (descriptors === "__metadata" || typeof entry?.resolution !== "string") continue
+
+    const workspace = entry.resolution.indexOf("@workspace:")
+    if (workspace !== -1) {
+      const directory = entry.resolution.slice(workspace + "@workspace:".length)
+      importers.set(directory === "." ? "" : directory, Object.fromEntries(dependenciesOf(entry)))
+      continue
+    }
+
+    packages.set(entry.resolution, {
+      name: descriptorName(entry.resolution),
+      version: String(entry.version ?? ""),
+      dependencies: dependenciesOf(entry).map(([, key]) => key),
+    })
+  }
+
+  return { format: "yarn-berry", importers, packages }
+}
+
+export function parseYarnLockfile(content: string, workspaces: Array<{ directory: string; pkg: Record<string, any> }>) {
+  return /^__metadata:/m.test(content) ? parseBerryLockfile(content) : parseClassicLockfile(content, workspaces)
+}
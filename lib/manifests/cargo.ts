@@ -0,0 +1,70 @@
+import semver from "semver"
+import { parse } from "smol-toml"
+import { DependencyKind, ManifestDependency, ManifestParser } from "@/types"
+
+// Cargo.toml tables with dependencies, and the edge kind each one produces
+const DEPENDENCY_TABLES: Array<[string, DependencyKind]> = [
+  ["dependencies", "dependency"],
+  ["dev-dependencies", "devDependency"],
+  ["build-dependencies", "devDependency"],
+]
+
+function dependenciesOf(manifest: Record<string, any>) {
+  // Platform specific tables ([target.'cfg(unix)'.dependencies]) count like the plain ones
+  const scopes = [manifest, ...Object.values<Record<string, any>>(manifest.target || {})]
+  const dependencies: ManifestDependency[] = []
+
+  for (const scope of scopes) {
+    for (const [table, kind] of DEPENDENCY_TABLES) {
+      for (const [key, value] of Object.entries<any>(scope[table] || {})) {
+        if (typeof value === "string") {
+          dependencies.push({ name: key, kind, range: value })
+          continue
+        }
+        // `package` renames the crate, `workspace = true` inherits it from [workspace.dependencies]
+        dependencies.push({
+          name: value.package ?? key,
+          kind: value.optional ? "optionalDependency" : kind,
+          range: value.version ?? (value.workspace ? "workspace" : value.path ? `path:${value.path}` : "*"),
+          path: value.path,
+        })
+      }
+    }
+  }
+
+  return dependencies
+}
+
+// Cargo requirements are comma separated and caret by default: "1.2, <1.5" means "^1.2 <1.5"
+function toSemverRange(range: string) {
+  return range
+    .split(",")
+    .map((part) => part.trim())
+    .map((part) => (/^\d/.test(part) ? `^${part}` : part))
+    .join(" ")
+}
+
+// Rust crates. Virtual workspace manifests (only [workspace]) don't declare a crate and are skipped.
+export const cargoParser: ManifestParser = {
+  ecosystem: "cargo",
+  matches: (path) => path.split("/").pop() === "Cargo.toml",
+  parse(_path, content) {
+    const manifest = parse(content) as Record<string, any>
+    if (typeof manifest.package?.name !== "string") return []
+
+    return [
+      {
+        name: manifest.package.name,
+        // `version.workspace = true` inherits the workspace version, which we don't resolve
+        version: typeof manifest.package.version === "string" ? manifest.package.version : undefined,
+        dependencies: dependenciesOf(manifest),
+      },
+    ]
+  },
+  // Cargo treats "-" and "_" in crate names as the same
+  normalize: (name) => name.replace(/_/g, "-"),
+  satisfies(range, version) {
+    const semverRange = semver.validRange(toSemverRange(range))
+    return semverRange && semver.valid(version) ? semver.satisfies(version, semverRange) : null
+  },
+}
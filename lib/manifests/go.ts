@@ -0,0 +1,55 @@
+import { ManifestDependency, ManifestParser } from "@/types"
+
+const stripComment = (line: string) => line.replace(/\/\/.*$/, "").trim()
+
+// Directives of a go.mod, with the ones written as a block ("require ( ... )") flattened
+function directives(content: string) {
+  const result: Array<{ verb: string; args: string }> = []
+  let block: string | null = null
+
+  for (const raw of content.split(/\r?\n/)) {
+    const line = stripComment(raw)
+    if (!line) continue
+
+    if (block) {
+      if (line === ")") block = null
+      else result.push({ verb: block, args: line })
+      continue
+    }
+
+    const match = line.match(/^(\w+)\s*(.*)$/)
+    if (!match) continue
+    if (match[2] === "(") block = match[1]
+    else result.push({ verb: match[1], args: match[2] })
+  }
+
+  return result
+}
+
+// Go modules. Modules of a go.work workspace are go.mod files like any other, and requirements
+// between them are matched by module path, so go.work itself doesn't need to be read.
+export const goParser: ManifestParser = {
+  ecosystem: "go",
+  matches: (path) => path.split("/").pop() === "go.mod",
+  parse(_path, content) {
+    const parsed = directives(content)
+    const module = parsed.find((directive) => directive.verb === "module")?.args.replace(/"/g, "")
+    if (!module) return []
+
+    // Local replacements ("example.com/lib => ../lib") point at a module in the repository
+    const replacements = new Map<string, string>()
+    for (const { args } of parsed.filter((directive) => directive.verb === "replace")) {
+      const [from, to] = args.split("=>").map((side) => side.trim().split(/\s+/)[0])
+      if (to && (to.startsWith(".") || to.startsWith("/"))) replacements.set(from, to)
+    }
+
+    const dependencies: ManifestDependency[] = parsed
+      .filter((directive) => directive.verb === "require")
+      .map(({ args }) => {
+        const [name, version = ""] = args.split(/\s+/)
+        return { name, kind: "dependency", range: version, path: replacements.get(name) }
+      })
+
+    return [{ name: module, label: module.split("/").pop(), dependencies }]
+  },
+}
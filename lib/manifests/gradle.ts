@@ -0,0 +1,52 @@
+import { dirname } from "@/lib/workspaces"
+import { DependencyKind, ManifestDependency, ManifestParser } from "@/types"
+
+const BUILD_FILES = ["build.gradle", "build.gradle.kts"]
+const SETTINGS_FILES = ["settings.gradle", "settings.gradle.kts"]
+
+// `implementation project(":core")`, `api(project(path: ":core"))`, `testImplementation(project(":fixtures"))`
+const PROJECT_DEPENDENCY = /\b(\w+)\s*\(?\s*project\s*\(\s*(?:path\s*[:=]\s*)?["']([^"']+)["']/g
+// Type-safe project accessors: `implementation(projects.core.api)` -> ":core:api"
+const PROJECT_ACCESSOR = /\b(\w+)\s*\(?\s*projects\.([\w.]+)/g
+
+const kindOf = (configuration: string): DependencyKind =>
+  /^(test|androidTest|integrationTest)/i.test(configuration) ? "devDependency" : "dependency"
+
+// Accessors are the camelCase form of kebab-case project names
+const kebabCase = (name: string) => name.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase()
+
+// Gradle multi-project builds. Projects are named by their path from the directory of the nearest
+// settings file (":services:api" for services/api), the default layout without custom projectDir.
+export const gradleParser: ManifestParser = {
+  ecosystem: "gradle",
+  matches: (path) => [...BUILD_FILES, ...SETTINGS_FILES].includes(path.split("/").pop() || ""),
+  parse(path, content, manifests) {
+    if (!BUILD_FILES.includes(path.split("/").pop() || "")) return []
+
+    const directory = dirname(path)
+    const settings = Array.from(manifests.keys())
+      .filter((file) => SETTINGS_FILES.includes(file.split("/").pop() || ""))
+      .map((file) => ({ file, root: dirname(file) }))
+      .filter(({ root }) => !root || directory === root || directory.startsWith(`${root}/`))
+      .sort((a, b) => b.root.length - a.root.length)[0]
+
+    const root = settings?.root ?? directory
+    const relative = directory.slice(root.length).replace(/^\//, "")
+    const rootName = settings && manifests.get(settings.file)?.match(/rootProject\.name\s*=\s*["']([^"']+)["']/)?.[1]
+
+    const dependencies: ManifestDependency[] = []
+    for (const [, configuration, project] of content.matchAll(PROJECT_DEPENDENCY)) {
+      dependencies.push({ name: project, kind: kindOf(configuration), range: "project" })
+    }
+    for (const [, configuration, accessor] of content.matchAll(PROJECT_ACCESSOR)) {
+      // `projects.core.api` may be followed by a method call on the accessor, which isn't a project
+      const segments = accessor.split(".").filter((segment) => !segment.startsWith("get") && segment !== "dependencyProject")
+      dependencies.push({ name: `:${segments.map(kebabCase).join(":")}`, kind: kindOf(configuration), range: "project" })
+    }
+
+    // The root project goes by its rootProject.name, the others by their project path
+    const name = relative ? `:${relative.split("/").join(":")}` : rootName || root.split("/").pop() || ":"
+    const version = content.match(/^\s*version\s*=\s*["']([^"']+)["']/m)?.[1]
+    return [{ name, label: relative ? relative.split("/").pop() : name, version, dependencies }]
+  },
+}
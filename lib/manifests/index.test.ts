@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest"
+
+import { cargoParser, goParser, gradleParser, mavenParser, parseManifests, pythonParser } from "@/lib/manifests"
+import { ManifestParser } from "@/types"
+
+// Edges as "source>target kind range satisfied" strings
+const parse = (parser: ManifestParser, files: Record<string, string>) => {
+  const { nodes, edges, skipped } = parseManifests(parser, new Map(Object.entries(files)))
+  return {
+    ids: nodes.map((node) => node.id),
+    edges: edges.map(({ source, target, kind, range, satisfied }) => `${source}>${target} ${kind} ${range} ${satisfied}`),
+    skipped,
+  }
+}
+
+describe("parseManifests", () => {
+  it("links Cargo crates by path and by name, with caret requirements", () => {
+    const result = parse(cargoParser, {
+      "Cargo.toml": `[workspace]\nmembers = ["crates/*"]`,
+      "crates/core/Cargo.toml": `[package]\nname = "acme_core"\nversion = "1.4.0"`,
+      "crates/cli/Cargo.toml": [
+        `[package]\nname = "acme-cli"\nversion = "0.1.0"`,
+        `[dependencies]\nacme-core = { version = "1.2", path = "../core" }\nserde = "1"`,
+        `[target.'cfg(unix)'.dev-dependencies]\nacme_core = "2"`,
+      ].join("\n"),
+    })
+
+    expect(result.ids).toEqual(["acme_core", "acme-cli"])
+    expect(result.edges).toEqual(["acme-cli>acme_core dependency 1.2 true", "acme-cli>acme_core devDependency 2 false"])
+  })
+
+  it("links Go modules through requires and local replacements", () => {
+    const result = parse(goParser, {
+      "lib/go.mod": "module example.com/lib\n\ngo 1.22\n",
+      "app/go.mod": [
+        "module example.com/app // the binary",
+        "require (\n\texample.com/lib v0.0.0\n\tgithub.com/pkg/errors v0.9.1\n)",
+        "replace example.com/lib => ../lib",
+      ].join("\n"),
+    })
+
+    expect(result.ids).toEqual(["example.com/lib", "example.com/app"])
+    expect(result.edges).toEqual(["example.com/app>example.com/lib dependency v0.0.0 null"])
+  })
+
+  it("reads PEP 621 and Poetry projects with normalized names", () => {
+    const result = parse(pythonParser, {
+      "pyproject.toml": `[tool.uv.workspace]\nmembers = ["packages/*"]`,
+      "packages/core/pyproject.toml": `[project]\nname = "Acme.Core"\nversion = "1.0.0"`,
+      "packages/api/pyproject.toml": [
+        `[project]\nname = "acme-api"\ndependencies = ["acme_core>=1.0; python_version>'3.9'", "requests[socks]"]`,
+        `[dependency-groups]\ndev = ["acme-core"]`,
+      ].join("\n"),
+      "packages/tools/pyproject.toml": `[tool.poetry]\nname = "acme-tools"\n[tool.poetry.dependencies]\npython = "^3.11"\nacme-core = { path = "../core" }`,
+    })
+
+    expect(result.ids).toEqual(["Acme.Core", "acme-api", "acme-tools"])
+    expect(result.edges).toEqual([
+      "acme-api>Acme.Core dependency >=1.0 null",
+      "acme-api>Acme.Core devDependency * null",
+      "acme-tools>Acme.Core dependency path:../core null",
+    ])
+  })
+
+  it("names Gradle projects by their path from the settings file", () => {
+    const result = parse(gradleParser, {
+      "settings.gradle.kts": `rootProject.name = "acme"\ninclude(":core", ":services:api")`,
+      "build.gradle.kts": "",
+      "core/build.gradle.kts": `version = "2.0.0"`,
+      "services/api/build.gradle": `dependencies {\n  implementation project(':core')\n  testImplementation(projects.core)\n}`,
+    })
+
+    expect(result.ids).toEqual(["acme", ":core", ":services:api"])
+    expect(result.edges).toEqual([":services:api>:core dependency project null", ":services:api>:core devDependency project null"])
+  })
+
+  it("inherits Maven coordinates from the parent and skips managed dependencies", () => {
+    const parent = "<parent><groupId>com.acme</groupId><artifactId>parent</artifactId><version>1.0</version></parent>"
+    const result = parse(mavenParser, {
+      "core/pom.xml": `<project>${parent}<artifactId>core</artifactId></project>`,
+      "app/pom.xml": `<project>${parent}<artifactId>app</artifactId>
+        <dependencyManagement><dependencies><dependency><groupId>com.acme</groupId><artifactId>core</artifactId><version>0.9</version></dependency></dependencies></dependencyManagement>
+        <dependencies>
+          <dependency><groupId>\${project.groupId}</groupId><artifactId>core</artifactId><version>\${project.version}</version></dependency>
+          <dependency><groupId>com.acme</groupId><artifactId>core</artifactId><scope>test</scope></dependency>
+        </dependencies>
+      </project>`,
+    })
+
+    expect(result.ids).toEqual(["com.acme:core", "com.acme:app"])
+    expect(result.edges).toEqual(["com.acme:app>com.acme:core dependency 1.0 true", "com.acme:app>com.acme:core devDependency * null"])
+  })
+
+  it("skips invalid manifests and keeps the first of duplicate names", () => {
+    const result = parse(cargoParser, {
+      "a/Cargo.toml": `[package]\nname = "dup"`,
+      "b/Cargo.toml": `[package]\nname = "dup"`,
+      "c/Cargo.toml": "[package\n",
+    })
+
+    expect(result.ids).toEqual(["dup"])
+    expect(result.skipped).toEqual([expect.objectContaining({ path: "c/Cargo.toml" })])
+  })
+})
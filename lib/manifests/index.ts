@@ -0,0 +1,81 @@
+import { cargoParser } from "@/lib/manifests/cargo"
+import { goParser } from "@/lib/manifests/go"
+import { gradleParser } from "@/lib/manifests/gradle"
+import { mavenParser } from "@/lib/manifests/maven"
+import { pythonParser } from "@/lib/manifests/python"
+import { dirname, joinPath } from "@/lib/workspaces"
+import { DependencyEdge, GraphNode, ManifestPackage, ManifestParser, SkippedFile } from "@/types"
+
+export { cargoParser, goParser, gradleParser, mavenParser, pythonParser }
+
+// Manifest parsers of the ecosystems analyzed next to npm, add new ones here
+export const MANIFEST_PARSERS: ManifestParser[] = [cargoParser, goParser, pythonParser, gradleParser, mavenParser]
+
+// Build output, virtualenvs and vendored dependencies hold manifests of other people's packages
+const IGNORED_DIRECTORIES = new Set(["node_modules", "target", "vendor", ".venv", "venv", "site-packages", "build", ".gradle"])
+
+export const isManifestIgnored = (path: string) => path.split("/").some((segment) => IGNORED_DIRECTORIES.has(segment))
+
+// Parse the manifests of one ecosystem into nodes and the dependency edges between them
+export function parseManifests(parser: ManifestParser, manifests: Map<string, string>) {
+  const normalize = parser.normalize ?? ((name: string) => name)
+  const packages: Array<ManifestPackage & { path: string }> = []
+  const skipped: SkippedFile[] = []
+
+  for (const [path, content] of manifests) {
+    try {
+      packages.push(...parser.parse(path, content, manifests).map((pkg) => ({ ...pkg, path })))
+    } catch (error) {
+      console.error(`Error parsing ${path}:`, error)
+      skipped.push({ path, reason: `Invalid ${parser.ecosystem} manifest: ${error instanceof Error ? error.message : "parse error"}` })
+    }
+  }
+
+  const byName = new Map<string, ManifestPackage & { path: string }>()
+  const byDirectory = new Map<string, ManifestPackage & { path: string }>()
+  for (const pkg of packages) {
+    const existing = byName.get(normalize(pkg.name))
+    if (existing) {
+      console.warn(`Duplicate ${parser.ecosystem} package "${pkg.name}" in ${pkg.path}, keeping ${existing.path}`)
+      continue
+    }
+    byName.set(normalize(pkg.name), pkg)
+    byDirectory.set(dirname(pkg.path), pkg)
+  }
+
+  const nodes: GraphNode[] = Array.from(byName.values(), (pkg) => ({
+    id: pkg.name,
+    label: pkg.label ?? pkg.name,
+    ecosystem: parser.ecosystem,
+    data: {
+      path: pkg.path,
+      directory: dirname(pkg.path),
+      pkg: { name: pkg.name, ...(pkg.version ? { version: pkg.version } : {}) },
+    },
+  }))
+
+  // Only dependencies on packages of the repository become edges, a path reference wins over the name
+  const edges: DependencyEdge[] = []
+  const seen = new Set<string>()
+  for (const pkg of byName.values()) {
+    for (const dependency of pkg.dependencies) {
+      const target =
+        (dependency.path !== undefined ? byDirectory.get(joinPath(dirname(pkg.path), dependency.path)) : undefined) ??
+        byName.get(normalize(dependency.name))
+      const key = `${pkg.name}\u0000${target?.name}\u0000${dependency.kind}`
+      if (!target || target === pkg || seen.has(key)) continue
+      seen.add(key)
+
+      edges.push({
+        source: pkg.name,
+        target: target.name,
+        kind: dependency.kind,
+        range: dependency.range,
+        satisfied: target.version && parser.satisfies ? parser.satisfies(dependency.range, target.version) : null,
+        ecosystem: parser.ecosystem,
+      })
+    }
+  }
+
+  return { nodes, edges, skipped }
+}
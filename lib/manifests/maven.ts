@@ -0,0 +1,50 @@
+import { DependencyKind, ManifestParser } from "@/types"
+
+// Sections whose <dependency> and coordinates elements don't describe the project itself
+const IGNORED_SECTIONS = ["dependencyManagement", "build", "reporting", "profiles", "pluginRepositories", "distributionManagement"]
+
+const element = (xml: string, name: string) => xml.match(new RegExp(`<${name}>\\s*([^<]*?)\\s*</${name}>`))?.[1]
+const removeSection = (xml: string, name: string) => xml.replace(new RegExp(`<${name}>[\\s\\S]*?</${name}>`, "g"), "")
+
+const kindOf = (scope: string | undefined, optional: string | undefined): DependencyKind => {
+  if (optional === "true") return "optionalDependency"
+  if (scope === "test") return "devDependency"
+  // Provided dependencies are expected from the runtime, like npm peers
+  if (scope === "provided") return "peerDependency"
+  return "dependency"
+}
+
+// Maven modules, identified by groupId:artifactId. The groupId and version are inherited from
+// <parent> when the module doesn't set them.
+export const mavenParser: ManifestParser = {
+  ecosystem: "maven",
+  matches: (path) => path.split("/").pop() === "pom.xml",
+  parse(_path, content) {
+    let xml = content.replace(/<!--[\s\S]*?-->/g, "")
+    const parent = xml.match(/<parent>([\s\S]*?)<\/parent>/)?.[1] || ""
+    xml = removeSection(xml, "parent")
+    for (const section of IGNORED_SECTIONS) xml = removeSection(xml, section)
+
+    const project = removeSection(xml, "dependencies")
+    const artifactId = element(project, "artifactId")
+    const groupId = element(project, "groupId") ?? element(parent, "groupId")
+    const version = element(project, "version") ?? element(parent, "version")
+    if (!artifactId || !groupId) return []
+
+    // Sibling modules usually reference each other through the project's own coordinates
+    const resolveProperties = (value: string) =>
+      value
+        .replace(/\$\{(project\.)?groupId\}/g, groupId)
+        .replace(/\$\{(project\.)?version\}/g, (property) => version ?? property)
+
+    const dependencies = Array.from(xml.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g), ([, dependency]) => ({
+      name: resolveProperties(`${element(dependency, "groupId")}:${element(dependency, "artifactId")}`),
+      kind: kindOf(element(dependency, "scope"), element(dependency, "optional")),
+      range: resolveProperties(element(dependency, "version") || "*"),
+    }))
+
+    return [{ name: `${groupId}:${artifactId}`, label: artifactId, version, dependencies }]
+  },
+  // Only exact versions can be checked; ranges ("[1.0,2.0)") and properties ("${project.version}") can't
+  satisfies: (range, version) => (/^[\w.-]+$/.test(range) ? range === version : null),
+}
@@ -0,0 +1,65 @@
+import { parse } from "smol-toml"
+import { DependencyKind, ManifestDependency, ManifestParser } from "@/types"
+
+// PEP 503: names compare case insensitively, with runs of "-", "_" and "." equal
+const normalize = (name: string) => name.toLowerCase().replace(/[-_.]+/g, "-")
+
+// PEP 508 requirement: "requests[socks]>=2.0; python_version<'3.11'" -> requests, ">=2.0"
+function parseRequirement(requirement: string, kind: DependencyKind): ManifestDependency | null {
+  const match = requirement.split(";")[0].match(/^\s*([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*(.*)$/)
+  if (!match) return null
+  return { name: match[1], kind, range: match[2].replace(/^\(|\)$/g, "").trim() || "*" }
+}
+
+const requirements = (list: unknown, kind: DependencyKind) =>
+  (Array.isArray(list) ? list : []).flatMap((item) => (typeof item === "string" ? parseRequirement(item, kind) ?? [] : []))
+
+// Poetry tables map names to a constraint string or a table with version/path
+const poetryDependencies = (table: Record<string, any> | undefined, kind: DependencyKind): ManifestDependency[] =>
+  Object.entries<any>(table || {})
+    .filter(([name]) => name !== "python")
+    .map(([name, value]) =>
+      typeof value === "string"
+        ? { name, kind, range: value }
+        : {
+            name,
+            kind: value?.optional ? "optionalDependency" : kind,
+            range: value?.version ?? (value?.path ? `path:${value.path}` : "*"),
+            path: value?.path,
+          },
+    )
+
+// Python projects declared in pyproject.toml, with PEP 621 metadata ([project], uv and others) or Poetry
+export const pythonParser: ManifestParser = {
+  ecosystem: "python",
+  matches: (path) => path.split("/").pop() === "pyproject.toml",
+  parse(_path, content) {
+    const manifest = parse(content) as Record<string, any>
+    const project = manifest.project || {}
+    const poetry = manifest.tool?.poetry || {}
+    const name = project.name ?? poetry.name
+    // A uv workspace root without [project] only lists its members
+    if (typeof name !== "string") return []
+
+    const dependencies: ManifestDependency[] = [
+      ...requirements(project.dependencies, "dependency"),
+      ...Object.values(project["optional-dependencies"] || {}).flatMap((list) => requirements(list, "optionalDependency")),
+      // PEP 735 dependency groups, "dev" and friends
+      ...Object.values(manifest["dependency-groups"] || {}).flatMap((list) => requirements(list, "devDependency")),
+      ...poetryDependencies(poetry.dependencies, "dependency"),
+      ...poetryDependencies(poetry["dev-dependencies"], "devDependency"),
+      ...Object.values<any>(poetry.group || {}).flatMap((group) => poetryDependencies(group?.dependencies, "devDependency")),
+    ]
+
+    // uv sources say where a dependency comes from: another workspace member or a local path
+    const sources: Record<string, any> = manifest.tool?.uv?.sources || {}
+    for (const dependency of dependencies) {
+      const source = Object.entries(sources).find(([key]) => normalize(key) === normalize(dependency.name))?.[1]
+      if (source?.path && !dependency.path) dependency.path = source.path
+    }
+
+    const version = project.version ?? poetry.version
+    return [{ name, version: typeof version === "string" ? version : undefined, dependencies }]
+  },
+  normalize,
+}
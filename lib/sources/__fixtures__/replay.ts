@@ -0,0 +1,24 @@
+import { FetchLike } from "@/lib/sources/http"
+
+// A response recorded from a provider API, `body` is JSON unless it is a string
+export interface RecordedResponse {
+  status?: number
+  headers?: Record<string, string>
+  body: unknown
+}
+
+// A fetch that answers from recorded responses keyed by URL. URLs without a recording fail, so a
+// test notices when a source starts asking for something else.
+export function replay(recording: Record<string, RecordedResponse>) {
+  const requests: string[] = []
+
+  const fetch: FetchLike = async (url) => {
+    requests.push(url)
+    const recorded = recording[url]
+    if (!recorded) throw new Error(`No recorded response for ${url}`)
+    const body = typeof recorded.body === "string" ? recorded.body : JSON.stringify(recorded.body)
+    return new Response(body, { status: recorded.status ?? 200, headers: recorded.headers })
+  }
+
+  return { fetch, requests }
+}
@@ -0,0 +1,208 @@
+import { Gunzip, unzipSync } from "fflate"
+
+// Archives bigger than this are rejected before extraction
+export const MAX_ARCHIVE_SIZE = 100 * 1024 * 1024
+
+const TAR_BLOCK_SIZE = 512
+
+const decoder = new TextDecoder()
+
+// Read a NUL-terminated string field from a tar header
+const readString = (block: Uint8Array, offset: number, length: number) => {
+  const field = block.subarray(offset, offset + length)
+  const end = field.indexOf(0)
+  return decoder.decode(end === -1 ? field : field.subarray(0, end))
+}
+
+const readOctal = (block: Uint8Array, offset: number, length: number) => parseInt(readString(block, offset, length).trim() || "0", 8)
+
+// Limits of an upload once inflated, a small zip or gzip bomb would otherwise fill the memory
+export const MAX_EXTRACTED_SIZE = 512 * 1024 * 1024
+export const MAX_ARCHIVE_ENTRIES = 100_000
+
+// Gzip input is inflated this much at a time, so no single chunk of output gets huge
+const GUNZIP_CHUNK_SIZE = 16 * 1024
+
+const concat = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length === 0) return b
+  const joined = new Uint8Array(a.length + b.length)
+  joined.set(a)
+  joined.set(b, a.length)
+  return joined
+}
+
+// A file of an archive, `content` is null when it wasn't kept
+export interface ArchiveEntry {
+  size: number
+  content: Uint8Array | null
+}
+
+// Count entries and inflated bytes against the limits, throwing once one is passed
+function extractionLimits() {
+  let entries = 0
+  let bytes = 0
+  return {
+    entry() {
+      if (++entries > MAX_ARCHIVE_ENTRIES) throw new Error(`Archive has more than ${MAX_ARCHIVE_ENTRIES} entries`)
+    },
+    inflate(size: number) {
+      bytes += size
+      if (bytes > MAX_EXTRACTED_SIZE) {
+        throw new Error(`Archive is larger than ${MAX_EXTRACTED_SIZE / 1024 / 1024} MB once extracted`)
+      }
+    },
+  }
+}
+
+// Streaming ustar/pax/GNU reader: fed chunk by chunk, it reports regular files only and
+// holds on to the bodies of the kept ones, the others are skipped as they stream past
+function createTarReader(
+  keep: (path: string) => boolean,
+  onFile: (path: string, entry: ArchiveEntry) => void,
+  limits: ReturnType<typeof extractionLimits>,
+) {
+  let buffer: Uint8Array = new Uint8Array(0)
+  // Bytes of a skipped body and its padding still to come
+  let skip = 0
+  // Entry whose body is being collected
+  let pending: { type: string; path: string; size: number } | null = null
+  let longName: string | null = null
+  let ended = false
+
+  const finishEntry = (type: string, path: string, size: number, body: Uint8Array | null) => {
+    if (type === "L") {
+      // GNU long name for the next entry
+      longName = decoder.decode(body!).replace(/\0+$/, "")
+    } else if (type === "x") {
+      // pax extended header, only the path record matters here
+      const match = decoder.decode(body!).match(/\d+ path=([^\n]*)\n/)
+      if (match) longName = match[1]
+    } else if (type === "0" || type === "7") {
+      onFile(path, { size, content: body })
+    }
+  }
+
+  return (chunk: Uint8Array) => {
+    if (ended) return
+    buffer = concat(buffer, chunk)
+
+    while (true) {
+      if (skip > 0) {
+        const skipped = Math.min(skip, buffer.length)
+        buffer = buffer.subarray(skipped)
+        skip -= skipped
+        if (skip > 0) return
+      }
+
+      if (pending) {
+        const padded = Math.ceil(pending.size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE
+        if (buffer.length < padded) return
+        finishEntry(pending.type, pending.path, pending.size, buffer.slice(0, pending.size))
+        buffer = buffer.subarray(padded)
+        pending = null
+        continue
+      }
+
+      if (buffer.length < TAR_BLOCK_SIZE) return
+      const header = buffer.subarray(0, TAR_BLOCK_SIZE)
+
+      // Two zero blocks mark the end of the archive
+      if (header.every((byte) => byte === 0)) {
+        ended = true
+        return
+      }
+      limits.entry()
+
+      const size = readOctal(header, 124, 12)
+      const type = String.fromCharCode(header[156] || 48)
+      const prefix = readString(header, 345, 155)
+      const name = readString(header, 0, 100)
+      buffer = buffer.subarray(TAR_BLOCK_SIZE)
+
+      let path = ""
+      if (type !== "L" && type !== "x") {
+        path = longName ?? (prefix ? `${prefix}/${name}` : name)
+        longName = null
+      }
+
+      // Long names and pax headers are always read, they name the entry after them
+      const isRegular = type === "0" || type === "7"
+      if (type === "L" || type === "x" || (isRegular && keep(path))) {
+        pending = { type, path, size }
+      } else {
+        if (isRegular) finishEntry(type, path, size, null)
+        skip = Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE
+      }
+    }
+  }
+}
+
+// Inflate a gzip stream piece by piece into `onChunk`, counting the output against the limits
+function gunzip(data: Uint8Array, onChunk: (chunk: Uint8Array) => void, limits: ReturnType<typeof extractionLimits>) {
+  const stream = new Gunzip((chunk) => {
+    limits.inflate(chunk.length)
+    onChunk(chunk)
+  })
+  for (let offset = 0; offset < data.length; offset += GUNZIP_CHUNK_SIZE) {
+    stream.push(data.subarray(offset, offset + GUNZIP_CHUNK_SIZE), offset + GUNZIP_CHUNK_SIZE >= data.length)
+  }
+}
+
+// Drop the single top-level directory most archives wrap the repository in (e.g. "repo-main/")
+function stripCommonRoot(files: Map<string, ArchiveEntry>) {
+  const roots = new Set(Array.from(files.keys(), (path) => (path.includes("/") ? path.split("/")[0] : "")))
+  if (roots.size !== 1 || roots.has("")) return files
+
+  const root = `${Array.from(roots)[0]}/`
+  return new Map(Array.from(files, ([path, entry]) => [path.slice(root.length), entry]))
+}
+
+// Extract a .tar.gz, .tgz, .tar or .zip archive into memory, keyed by repository-relative path.
+// Every file is listed, but only the contents of the files passing `keep` are inflated and kept.
+export function extractArchive(fileName: string, data: Uint8Array, keep: (path: string) => boolean = () => true) {
+  if (data.length > MAX_ARCHIVE_SIZE) {
+    throw new Error(`Archive is larger than ${MAX_ARCHIVE_SIZE / 1024 / 1024} MB`)
+  }
+
+  const lowerName = fileName.toLowerCase()
+  const limits = extractionLimits()
+  const files = new Map<string, ArchiveEntry>()
+  const addFile = (path: string, entry: ArchiveEntry) => files.set(path, entry)
+
+  if (lowerName.endsWith(".zip")) {
+    // The declared size bounds the inflated output, fflate doesn't write past it
+    const sizes = new Map<string, number>()
+    const contents = unzipSync(data, {
+      filter: (file) => {
+        limits.entry()
+        if (file.name.endsWith("/")) return false
+        sizes.set(file.name, file.originalSize)
+        if (!keep(file.name)) return false
+        limits.inflate(file.originalSize)
+        return true
+      },
+    })
+    for (const [path, size] of sizes) addFile(path, { size, content: contents[path] ?? null })
+  } else if (lowerName.endsWith(".tar.gz") || lowerName.endsWith(".tgz")) {
+    gunzip(data, createTarReader(keep, addFile, limits), limits)
+  } else if (lowerName.endsWith(".tar")) {
+    createTarReader(keep, addFile, limits)(data)
+  } else {
+    throw new Error("Unsupported archive format. Please upload a .tar.gz, .tgz, .tar or .zip file.")
+  }
+
+  // Normalize "./" prefixes and ignore metadata that some archivers add
+  const normalized = new Map<string, ArchiveEntry>()
+  for (const [path, entry] of files) {
+    const cleanPath = path.replace(/^\.\//, "")
+    if (cleanPath && !cleanPath.startsWith("__MACOSX/") && !cleanPath.split("/").includes("..")) {
+      normalized.set(cleanPath, entry)
+    }
+  }
+
+  return stripCommonRoot(normalized)
+}
+
+// Repository name derived from the archive file name ("acme-main.tar.gz" -> "acme-main")
+export const archiveBaseName = (fileName: string) =>
+  fileName.replace(/^.*[\\/]/, "").replace(/\.(tar\.gz|tgz|tar|zip)$/i, "") || "archive"
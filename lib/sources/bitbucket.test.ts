@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest"
+
+import { createBitbucketSource, parseBitbucketUrl } from "@/lib/sources/bitbucket"
+import recording from "@/lib/sources/__fixtures__/bitbucket.json"
+import { replay } from "@/lib/sources/__fixtures__/replay"
+
+const source = (refSegments: string[] = [], repo = "platform") =>
+  createBitbucketSource({ owner: "acme", repo, refSegments, headers: {}, fetch: replay(recording).fetch })
+
+describe("parseBitbucketUrl", () => {
+  it("returns the segments after /src/ for the ref and path", () => {
+    expect(parseBitbucketUrl("https://bitbucket.org/acme/platform/src/release/2.x/packages")).toEqual({
+      owner: "acme",
+      repo: "platform",
+      refSegments: ["release", "2.x", "packages"],
+    })
+  })
+
+  it("reads a commit page as a ref", () => {
+    expect(parseBitbucketUrl("bitbucket.org/acme/platform/commits/7c3f5a1").refSegments).toEqual(["7c3f5a1"])
+  })
+})
+
+describe("createBitbucketSource", () => {
+  it("lists the files of the main branch across pages", async () => {
+    const listing = await source().listFiles()
+
+    expect(listing).toEqual({
+      files: [
+        { path: "package.json", size: 61 },
+        { path: "packages/ui/package.json", size: 48 },
+        { path: "packages/ui/src/index.ts", size: 812 },
+      ],
+      ref: "trunk",
+      path: "",
+      commit: "7c3f5a1e9b2d4c6e8f0a1b3c5d7e9f1a3b5c7d9e",
+    })
+  })
+
+  it("lists only the directory named after the ref", async () => {
+    const listing = await source(["release", "2.x", "packages", "ui"]).listFiles()
+
+    expect(listing.ref).toBe("release/2.x")
+    expect(listing.path).toBe("packages/ui")
+    expect(listing.files).toEqual([{ path: "packages/ui/package.json", size: 48 }])
+  })
+
+  it("reads files at the listed commit", async () => {
+    const repo = source()
+    const { files } = await repo.listFiles()
+    const { contents, skipped } = await repo.readFiles(files.filter((file) => file.path.endsWith("package.json")))
+
+    expect(skipped).toEqual([])
+    expect(JSON.parse(contents.get("package.json")!).workspaces).toEqual(["packages/*"])
+    expect(JSON.parse(contents.get("packages/ui/package.json")!).name).toBe("@acme/ui")
+  })
+
+  it("compares a pull request against its merge base", async () => {
+    await expect(source().getPullRequest!(9)).resolves.toEqual({
+      number: 9,
+      title: "Split the design tokens",
+      url: "https://bitbucket.org/acme/platform/pull-requests/9",
+      base: "0a1b2c3d4e5f60718293a4b5c6d7e8f901234567",
+      head: "2e4c6a8b0d1f",
+    })
+  })
+
+  it("explains a denied request", async () => {
+    await expect(source([], "private").listFiles()).rejects.toThrow("Bitbucket API denied access (403)")
+  })
+})
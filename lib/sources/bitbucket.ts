@@ -0,0 +1,120 @@
+import { FetchLike, createHttpClient, readFilesConcurrently, splitRepoUrl } from "@/lib/sources/http"
+import { resolveRefSegments, segmentsAfter } from "@/lib/sources/refs"
+import { RepoFile, RepoSource } from "@/types"
+
+const BITBUCKET_API = "https://api.bitbucket.org/2.0"
+// Depth of the recursive directory listing, deeper files are not discovered
+const MAX_LISTING_DEPTH = 20
+
+interface BitbucketRepository {
+  mainbranch?: { name: string }
+}
+
+interface BitbucketCommit {
+  hash: string
+}
+
+interface BitbucketPullRequest {
+  title: string
+  links: { html: { href: string } }
+  source: { commit: { hash: string } }
+  destination: { commit: { hash: string } }
+}
+
+interface BitbucketSrcPage {
+  values: Array<{ type: "commit_file" | "commit_directory"; path: string; size?: number }>
+  next?: string
+}
+
+// Handle formats like:
+// https://bitbucket.org/workspace/repo
+// https://bitbucket.org/workspace/repo/src/release/2.x/packages
+// https://bitbucket.org/workspace/repo/commits/<sha>
+export function parseBitbucketUrl(url: string) {
+  const { segments } = splitRepoUrl(url)
+  const [owner, repo] = segments
+
+  if (!owner || !repo) {
+    throw new Error("Failed to parse Bitbucket URL. Please use format: https://bitbucket.org/workspace/repo")
+  }
+
+  return { owner, repo, refSegments: segmentsAfter(segments, ["src", "commits"]) }
+}
+
+// App passwords use basic auth, repository/workspace access tokens are bearer tokens
+const bitbucketHeaders = (): Record<string, string> => {
+  if (process.env.BITBUCKET_USERNAME && process.env.BITBUCKET_APP_PASSWORD) {
+    const credentials = Buffer.from(`${process.env.BITBUCKET_USERNAME}:${process.env.BITBUCKET_APP_PASSWORD}`).toString("base64")
+    return { Authorization: `Basic ${credentials}` }
+  }
+  return process.env.BITBUCKET_TOKEN ? { Authorization: `Bearer ${process.env.BITBUCKET_TOKEN}` } : {}
+}
+
+// Read a Bitbucket Cloud repository through the REST API 2.0
+export function createBitbucketSource({
+  owner,
+  repo,
+  refSegments = [],
+  headers = bitbucketHeaders(),
+  fetch,
+}: {
+  owner: string
+  repo: string
+  refSegments?: string[]
+  headers?: Record<string, string>
+  fetch?: FetchLike
+}): RepoSource {
+  const client = createHttpClient({ provider: "Bitbucket", headers, fetch })
+  const repoUrl = `${BITBUCKET_API}/repositories/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`
+  // Commit the listing was taken from, file reads use the same one
+  let commit = ""
+
+  return {
+    provider: "bitbucket",
+    owner,
+    repo,
+    listFiles: async () => {
+      const findCommit = (ref: string) => client.jsonOrNull<BitbucketCommit>(`${repoUrl}/commit/${encodeURIComponent(ref)}`)
+
+      const { ref, path } =
+        refSegments.length > 0
+          ? await resolveRefSegments(refSegments, async (candidate) => Boolean(await findCommit(candidate)))
+          : { ref: (await client.json<BitbucketRepository>(repoUrl)).mainbranch?.name || "HEAD", path: "" }
+
+      const found = await findCommit(ref)
+      if (!found) {
+        throw new Error(`Bitbucket ref "${ref}" not found`)
+      }
+      commit = found.hash
+
+      const files: RepoFile[] = []
+      const directory = path ? `${path.split("/").map(encodeURIComponent).join("/")}/` : ""
+      let url: string | undefined = `${repoUrl}/src/${commit}/${directory}?max_depth=${MAX_LISTING_DEPTH}&pagelen=100`
+
+      while (url) {
+        const page: BitbucketSrcPage = await client.json<BitbucketSrcPage>(url)
+        for (const entry of page.values) {
+          if (entry.type === "commit_file") {
+            files.push({ path: entry.path, size: entry.size })
+          }
+        }
+        url = page.next
+      }
+
+      return { files, ref, path, commit }
+    },
+    readFiles: (files, onFileRead) =>
+      readFilesConcurrently(
+        files,
+        (file) => client.text(`${repoUrl}/src/${commit || "HEAD"}/${file.path.split("/").map(encodeURIComponent).join("/")}`),
+        onFileRead,
+      ),
+    getPullRequest: async (number) => {
+      const pull = await client.json<BitbucketPullRequest>(`${repoUrl}/pullrequests/${number}`)
+      const head = pull.source.commit.hash
+      // The destination commit is the tip of the target branch, compare against the merge base instead
+      const mergeBase = await client.json<BitbucketCommit>(`${repoUrl}/merge-base/${head}..${pull.destination.commit.hash}`)
+      return { number, title: pull.title, url: pull.links.html.href, base: mergeBase.hash, head }
+    },
+  }
+}
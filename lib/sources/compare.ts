@@ -0,0 +1,88 @@
+import { getRepoId, resolveRepoSource } from "@/lib/sources"
+import { PullRequestRefs } from "@/types"
+
+// Path segments that turn a repository URL into a comparison:
+// GitHub /pull/1 and /compare/a...b, GitLab /-/merge_requests/1 and /-/compare/a...b,
+// Gitea /pulls/1 and /compare/a...b, Bitbucket /pull-requests/1
+const PULL_REQUEST_MARKERS = ["pull", "pulls", "merge_requests", "pull-requests"]
+const COMPARE_MARKER = "compare"
+
+// Two refs of one repository to compare
+export interface RepoComparison {
+  repoUrl: string
+  base: string
+  head: string
+  pullRequest?: PullRequestRefs
+}
+
+// Split a pull request or compare URL into the repository URL and what to compare, null for other URLs
+export function parseComparisonUrl(input: string) {
+  const value = input.trim().split("#")[0].split("?")[0]
+  const scheme = value.match(/^[a-z]+:\/\//i)?.[0] || ""
+  const parts = value.slice(scheme.length).split("/")
+
+  // The host (if any), owner and repo come first. GitLab puts "-" between the project and its pages,
+  // so a group named "compare" isn't mistaken for a marker.
+  const first = scheme || parts[0].includes(".") ? 3 : 2
+  const separator = parts.indexOf("-")
+  const index = parts.findIndex(
+    (part, i) =>
+      i >= first &&
+      (separator === -1 || i === separator + 1) &&
+      (PULL_REQUEST_MARKERS.includes(part) || part === COMPARE_MARKER),
+  )
+  if (index === -1) return null
+
+  const repoUrl = scheme + parts.slice(0, parts[index - 1] === "-" ? index - 1 : index).join("/")
+  const rest = parts.slice(index + 1).filter(Boolean)
+
+  if (parts[index] === COMPARE_MARKER) {
+    // Branch names may contain slashes, so the spec is everything after the marker
+    const spec = rest.map((part) => decodeURIComponent(part)).join("/")
+    const [base, head] = spec.includes("...") ? spec.split("...") : spec.split("..")
+    if (!base || !head) {
+      throw new Error("Compare URLs need two refs, e.g. https://github.com/owner/repo/compare/main...feature")
+    }
+    return { repoUrl, base, head }
+  }
+
+  const number = Number(rest[0])
+  if (!Number.isInteger(number) || number <= 0) {
+    throw new Error(`Invalid pull request number "${rest[0] ?? ""}"`)
+  }
+  return { repoUrl, pullRequest: number }
+}
+
+export const isComparisonUrl = (input: string) => {
+  try {
+    return parseComparisonUrl(input) !== null
+  } catch {
+    // Malformed comparison URLs are still comparisons, resolveComparison reports the problem
+    return true
+  }
+}
+
+// Resolve a pull request or compare URL to the two refs to analyze
+export async function resolveComparison(input: string): Promise<RepoComparison> {
+  const target = parseComparisonUrl(input)
+  if (!target) {
+    throw new Error("Not a pull request or compare URL")
+  }
+
+  if (target.pullRequest === undefined) {
+    return { repoUrl: target.repoUrl, base: target.base, head: target.head }
+  }
+
+  const source = await resolveRepoSource(target.repoUrl)
+  if (!source.getPullRequest) {
+    throw new Error(`Pull requests are not supported for ${source.provider} repositories`)
+  }
+
+  const pullRequest = await source.getPullRequest(target.pullRequest)
+  return { repoUrl: target.repoUrl, base: pullRequest.base, head: pullRequest.head, pullRequest }
+}
+
+// Pull requests are keyed by commit, so new pushes are analyzed again
+export async function getComparisonCacheKey(comparison: RepoComparison) {
+  return `compare:${await getRepoId(comparison.repoUrl)}@${comparison.base}...${comparison.head}`
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest"
+
+import recording from "@/lib/sources/__fixtures__/gitea.json"
+import { replay } from "@/lib/sources/__fixtures__/replay"
+import { createGiteaSource, parseGiteaUrl } from "@/lib/sources/gitea"
+
+const source = (refSegments: string[] = []) =>
+  createGiteaSource({
+    origin: "https://codeberg.org",
+    owner: "acme",
+    repo: "platform",
+    refSegments,
+    token: "",
+    fetch: replay(recording).fetch,
+  })
+
+describe("parseGiteaUrl", () => {
+  it("drops the kind of ref after /src/", () => {
+    expect(parseGiteaUrl("https://git.acme.dev/acme/platform/src/branch/release/2.x/packages")).toEqual({
+      origin: "https://git.acme.dev",
+      owner: "acme",
+      repo: "platform",
+      refSegments: ["release", "2.x", "packages"],
+    })
+  })
+
+  it("reads a commit page as a ref", () => {
+    expect(parseGiteaUrl("https://codeberg.org/acme/platform/commit/5e2b8f1").refSegments).toEqual(["5e2b8f1"])
+  })
+})
+
+describe("createGiteaSource", () => {
+  it("lists the blobs of the default branch across truncated pages", async () => {
+    const listing = await source().listFiles()
+
+    expect(listing).toEqual({
+      files: [
+        { path: "package.json", sha: "3b18e512dba79e4c8300dd08aeb37f8e728b8dad", size: 55 },
+        { path: "packages/ui/package.json", sha: "ce013625030ba8dba906f756967f9e9ca394464a", size: 44 },
+      ],
+      ref: "main",
+      path: "",
+      commit: "5e2b8f1c7a3d9e0b4c6a8f2d1e3b5c7a9f0d2e4b",
+    })
+  })
+
+  it("splits a tag with a slash from the path", async () => {
+    const listing = await source(["v2", "rc", "packages"]).listFiles()
+
+    expect(listing.ref).toBe("v2/rc")
+    expect(listing.path).toBe("packages")
+    expect(listing.commit).toBe("8a6c4e2f0b1d3c5e7a9b0d2f4e6a8c1b3d5f7e90")
+  })
+
+  it("decodes base64 blobs", async () => {
+    const { files } = await source().listFiles()
+    const { contents, skipped } = await source().readFiles(files)
+
+    expect(skipped).toEqual([])
+    expect(contents.get("package.json")).toBe('{\n  "name": "platform",\n  "workspaces": ["packages/*"]\n}\n')
+  })
+
+  it("resolves a pull request to its merge base and head", async () => {
+    await expect(source().getPullRequest!(12)).resolves.toEqual({
+      number: 12,
+      title: "Theme tokens",
+      url: "https://codeberg.org/acme/platform/pulls/12",
+      base: "5e2b8f1c7a3d9e0b4c6a8f2d1e3b5c7a9f0d2e4b",
+      head: "8a6c4e2f0b1d3c5e7a9b0d2f4e6a8c1b3d5f7e90",
+    })
+  })
+
+  it("fails for a ref that doesn't exist", async () => {
+    await expect(source(["v2"]).listFiles()).rejects.toThrow('Could not find a branch, tag or commit named "v2"')
+  })
+})
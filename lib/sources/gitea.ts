@@ -0,0 +1,134 @@
+import { FetchLike, createHttpClient, readFilesConcurrently, splitRepoUrl } from "@/lib/sources/http"
+import { resolveRefSegments, segmentsAfter } from "@/lib/sources/refs"
+import { RepoFile, RepoSource } from "@/types"
+
+// Entries per page of the recursive tree listing
+const TREE_PAGE_SIZE = 1000
+
+interface GiteaRepository {
+  default_branch: string
+}
+
+interface GiteaCommit {
+  sha: string
+}
+
+interface GiteaPullRequest {
+  title: string
+  html_url: string
+  merge_base: string
+  head: { sha: string }
+}
+
+interface GiteaTreePage {
+  tree: Array<{ path: string; type: "blob" | "tree" | "commit"; sha: string; size: number }>
+  truncated: boolean
+  total_count: number
+}
+
+interface GiteaBlob {
+  content: string
+  encoding: string
+}
+
+// Handle formats like:
+// https://codeberg.org/owner/repo
+// https://git.acme.dev/owner/repo/src/branch/release/2.x/packages
+// https://git.acme.dev/owner/repo/src/commit/<sha>
+export function parseGiteaUrl(url: string) {
+  const { origin, segments } = splitRepoUrl(url)
+  const [owner, repo] = segments
+
+  if (!owner || !repo) {
+    throw new Error("Failed to parse Gitea URL. Please use format: https://gitea.example.com/owner/repo")
+  }
+
+  // "src/branch/<ref>", "src/tag/<ref>" and "src/commit/<sha>" name the kind of ref, plain "commit/<sha>" is a commit page
+  const afterSrc = segmentsAfter(segments, ["src"])
+  const refSegments = ["branch", "tag", "commit"].includes(afterSrc[0])
+    ? afterSrc.slice(1)
+    : segmentsAfter(segments, ["commit"])
+
+  return { origin, owner, repo, refSegments }
+}
+
+// Read a Gitea or Forgejo repository through the REST API v1
+export function createGiteaSource({
+  origin,
+  owner,
+  repo,
+  refSegments = [],
+  token = process.env.GITEA_TOKEN,
+  fetch,
+}: {
+  origin: string
+  owner: string
+  repo: string
+  refSegments?: string[]
+  token?: string
+  fetch?: FetchLike
+}): RepoSource {
+  const client = createHttpClient({
+    provider: "Gitea",
+    headers: token ? { Authorization: `token ${token}` } : {},
+    fetch,
+  })
+  const repoUrl = `${origin}/api/v1/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`
+
+  return {
+    provider: "gitea",
+    owner,
+    repo,
+    listFiles: async () => {
+      // The commit list accepts branches, tags and SHAs alike
+      const findCommit = async (ref: string) =>
+        (await client.jsonOrNull<GiteaCommit[]>(
+          `${repoUrl}/commits?sha=${encodeURIComponent(ref)}&limit=1&stat=false&verification=false&files=false`,
+        ))?.[0] ?? null
+
+      const { ref, path } =
+        refSegments.length > 0
+          ? await resolveRefSegments(refSegments, async (candidate) => Boolean(await findCommit(candidate)))
+          : { ref: (await client.json<GiteaRepository>(repoUrl)).default_branch, path: "" }
+
+      const commit = await findCommit(ref)
+      if (!commit) {
+        throw new Error(`Gitea ref "${ref}" not found`)
+      }
+
+      const files: RepoFile[] = []
+      let seen = 0
+
+      for (let page = 1; ; page++) {
+        const data = await client.json<GiteaTreePage>(
+          `${repoUrl}/git/trees/${commit.sha}?recursive=true&per_page=${TREE_PAGE_SIZE}&page=${page}`,
+        )
+        seen += data.tree.length
+
+        for (const item of data.tree) {
+          if (item.type === "blob") {
+            files.push({ path: item.path, sha: item.sha, size: item.size })
+          }
+        }
+
+        // Gitea sets truncated while more pages are available
+        if (!data.truncated || data.tree.length === 0 || seen >= data.total_count) break
+      }
+
+      return { files, ref, path, commit: commit.sha }
+    },
+    readFiles: (files, onFileRead) =>
+      readFilesConcurrently(
+        files,
+        async (file) => {
+          const blob = await client.json<GiteaBlob>(`${repoUrl}/git/blobs/${file.sha}`)
+          return Buffer.from(blob.content, blob.encoding === "base64" ? "base64" : "utf-8").toString("utf-8")
+        },
+        onFileRead,
+      ),
+    getPullRequest: async (number) => {
+      const pull = await client.json<GiteaPullRequest>(`${repoUrl}/pulls/${number}`)
+      return { number, title: pull.title, url: pull.html_url, base: pull.merge_base, head: pull.head.sha }
+    },
+  }
+}
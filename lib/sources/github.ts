@@ -0,0 +1,286 @@
+import { Octokit } from "octokit"
+import { mapWithConcurrency, delay } from "@/lib/concurrency"
+import { resolveRefSegments, segmentsAfter } from "@/lib/sources/refs"
+import { PullRequestRefs, RepoFile, RepoSource, SkippedFile } from "@/types"
+
+// Concurrent blob requests; GitHub asks clients to keep this low to avoid secondary rate limits
+const BLOB_CONCURRENCY = 8
+// Blobs larger than this are skipped, the lockfiles of large monorepos run to tens of MB
+const MAX_BLOB_SIZE = 50 * 1024 * 1024
+// Longest pause we accept while waiting for the rate limit window to reset
+const MAX_RATE_LIMIT_WAIT = 60 * 1000
+// Below this share of the quota, remaining requests are spread out until the window resets
+const RATE_LIMIT_SLOWDOWN_RATIO = 0.1
+
+// Latest x-ratelimit-* values reported by GitHub, shared by all requests of this process
+const rateLimitState = {
+  limit: 0,
+  remaining: Number.POSITIVE_INFINITY,
+  reset: 0,
+}
+
+function recordRateLimit(headers: Record<string, string | number | undefined>) {
+  const limit = Number(headers["x-ratelimit-limit"])
+  const remaining = Number(headers["x-ratelimit-remaining"])
+  const reset = Number(headers["x-ratelimit-reset"])
+
+  if (Number.isFinite(limit) && Number.isFinite(remaining) && Number.isFinite(reset)) {
+    rateLimitState.limit = limit
+    rateLimitState.remaining = remaining
+    rateLimitState.reset = reset * 1000
+  }
+}
+
+// Wait before the next request when the quota is running low
+async function throttle() {
+  const { limit, remaining, reset } = rateLimitState
+  const untilReset = reset - Date.now()
+
+  if (limit === 0 || untilReset <= 0) return
+
+  if (remaining <= 0) {
+    if (untilReset > MAX_RATE_LIMIT_WAIT) {
+      throw new Error("GitHub API rate limit exceeded. Please try again later.")
+    }
+    console.log(`GitHub rate limit exhausted, waiting ${Math.ceil(untilReset / 1000)}s for the reset`)
+    await delay(untilReset)
+    return
+  }
+
+  if (remaining < limit * RATE_LIMIT_SLOWDOWN_RATIO) {
+    await delay(Math.min(untilReset / remaining, MAX_RATE_LIMIT_WAIT))
+  }
+}
+
+// Initialize Octokit with the GitHub token
+const getOctokit = () => {
+  const token = process.env.GITHUB_TOKEN
+  if (!token) {
+    throw new Error("GitHub token not found. Please add a GITHUB_TOKEN environment variable.")
+  }
+
+  const octokit = new Octokit({
+    auth: token,
+    throttle: {
+      // Retry once if the primary quota resets soon, otherwise fail fast instead of hanging for up to an hour
+      onRateLimit: (retryAfter: number, options: { method: string; url: string }, _octokit: unknown, retryCount: number) => {
+        console.warn(`GitHub rate limit hit for ${options.method} ${options.url}, retry after ${retryAfter}s`)
+        return retryCount < 1 && retryAfter * 1000 <= MAX_RATE_LIMIT_WAIT
+      },
+      // Secondary limits are short-lived, back off and retry a few times
+      onSecondaryRateLimit: (retryAfter: number, options: { method: string; url: string }, _octokit: unknown, retryCount: number) => {
+        console.warn(`GitHub secondary rate limit hit for ${options.method} ${options.url}, retry after ${retryAfter}s`)
+        return retryCount < 3
+      },
+    },
+  })
+
+  octokit.hook.after("request", (response) => recordRateLimit(response.headers))
+
+  return octokit
+}
+
+const isRateLimitError = (error: unknown) =>
+  error instanceof Error &&
+  ((("status" in error) && (error.status === 429 || (error.status === 403 && /rate limit/i.test(error.message)))) ||
+    error.message.includes("rate limit exceeded"))
+
+// Turn an Octokit error into a message that can be shown to the user
+function describeGitHubError(error: unknown) {
+  if (error instanceof Error && "status" in error && error.status === 429) {
+    return "Too many requests to GitHub API. Please try again later."
+  }
+
+  if (isRateLimitError(error)) {
+    return "GitHub API rate limit exceeded. Please try again later."
+  }
+
+  return error instanceof Error ? error.message : "Unknown error"
+}
+
+export async function parseGitHubUrl(url: string) {
+  // Handle formats like:
+  // https://github.com/owner/repo
+  // https://github.com/owner/repo/tree/release/2.x/packages
+  // https://github.com/owner/repo/commit/<sha>
+  // github.com/owner/repo
+  // owner/repo
+
+  try {
+    // Remove any hash or query params
+    const path = url.trim().split("#")[0].split("?")[0]
+    const parts = (path.includes("github.com") ? path.split("github.com/")[1] : path)
+      .split("/")
+      .filter(Boolean)
+      .map((part) => decodeURIComponent(part))
+
+    const owner = parts[0]
+    const repo = parts[1]?.replace(/\.git$/, "")
+
+    if (!owner || !repo) {
+      throw new Error("Invalid GitHub repository URL format")
+    }
+
+    return { owner, repo, refSegments: segmentsAfter(parts, ["tree", "commit"]) }
+  } catch (error) {
+    console.error("Error parsing GitHub URL:", error)
+    throw new Error("Failed to parse GitHub URL. Please use format: owner/repo")
+  }
+}
+
+// Resolve a branch, tag or SHA to a commit SHA, null when it doesn't exist
+async function resolveCommit(octokit: ReturnType<typeof getOctokit>, owner: string, repo: string, ref: string) {
+  try {
+    // The sha media type returns just the commit SHA instead of the full commit with its diff
+    const { data } = await octokit.rest.repos.getCommit({
+      owner,
+      repo,
+      ref,
+      mediaType: { format: "sha" },
+    })
+    return String(data).trim()
+  } catch (error: unknown) {
+    if (error instanceof Error && "status" in error && (error.status === 404 || error.status === 422)) {
+      return null
+    }
+    throw error
+  }
+}
+
+export async function fetchRepoTree(owner: string, repo: string, refSegments: string[] = []) {
+  const octokit = getOctokit()
+
+  try {
+    // Get the default branch unless the URL named a ref
+    const { ref, path } =
+      refSegments.length > 0
+        ? await resolveRefSegments(refSegments, async (candidate) => Boolean(await resolveCommit(octokit, owner, repo, candidate)))
+        : { ref: (await octokit.rest.repos.get({ owner, repo })).data.default_branch, path: "" }
+
+    const commit = await resolveCommit(octokit, owner, repo, ref)
+    if (!commit) {
+      throw new Error(`Ref "${ref}" not found`)
+    }
+
+    // Get the tree recursively
+    const { data: treeData } = await octokit.rest.git.getTree({
+      owner,
+      repo,
+      tree_sha: commit,
+      recursive: "1",
+    })
+
+    if (treeData.truncated) {
+      console.warn(`Tree of ${owner}/${repo}@${ref} was truncated by GitHub, some packages may be missing`)
+    }
+
+    // Keep every file, workspace discovery decides which ones are packages
+    const files: RepoFile[] = treeData.tree
+      .filter((item) => item.type === "blob" && item.path)
+      .map((item) => ({
+        path: item.path as string,
+        sha: item.sha as string,
+        size: item.size,
+      }))
+
+    return { files, truncated: treeData.truncated, ref, path, commit }
+  } catch (error: unknown) {
+    console.error("Error fetching repo tree:", error)
+    throw new Error(`Failed to fetch repository tree: ${describeGitHubError(error)}`)
+  }
+}
+
+// Download file contents by blob SHA with bounded concurrency. Files that can't be read are reported in `skipped`.
+export async function fetchBlobs(owner: string, repo: string, files: RepoFile[], onFileRead?: () => void) {
+  const octokit = getOctokit()
+  const contents = new Map<string, string>()
+  const skipped: SkippedFile[] = []
+  // Once the quota is gone there is no point in firing the remaining requests
+  let exhaustedReason: string | null = null
+
+  const readBlob = async (file: RepoFile) => {
+    if (exhaustedReason) {
+      skipped.push({ path: file.path, reason: exhaustedReason })
+      return
+    }
+
+    if (!file.sha) {
+      skipped.push({ path: file.path, reason: "Missing blob SHA" })
+      return
+    }
+
+    if (file.size && file.size > MAX_BLOB_SIZE) {
+      skipped.push({ path: file.path, reason: `File is larger than ${MAX_BLOB_SIZE / 1024 / 1024} MB` })
+      return
+    }
+
+    try {
+      await throttle()
+
+      const { data } = await octokit.rest.git.getBlob({
+        owner,
+        repo,
+        file_sha: file.sha,
+      })
+
+      // GitHub API returns blob content as base64 encoded
+      contents.set(file.path, Buffer.from(data.content, data.encoding === "base64" ? "base64" : "utf-8").toString("utf-8"))
+    } catch (error: unknown) {
+      const reason = describeGitHubError(error)
+      if (isRateLimitError(error)) {
+        exhaustedReason = reason
+      }
+      console.error(`Error fetching blob for ${file.path}:`, error)
+      skipped.push({ path: file.path, reason })
+    }
+  }
+
+  await mapWithConcurrency(files, BLOB_CONCURRENCY, async (file) => {
+    await readBlob(file)
+    onFileRead?.()
+  })
+
+  console.log(`Fetched ${contents.size} of ${files.length} files from ${owner}/${repo}, ${skipped.length} skipped`)
+
+  return { contents, skipped }
+}
+
+// Resolve a pull request to its head commit and the merge base with its target branch
+export async function fetchPullRequest(owner: string, repo: string, number: number): Promise<PullRequestRefs> {
+  const octokit = getOctokit()
+
+  try {
+    const { data: pull } = await octokit.rest.pulls.get({ owner, repo, pull_number: number })
+
+    // Commits of pull requests from forks are reachable from the base repository as well
+    const { data: comparison } = await octokit.rest.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${pull.base.sha}...${pull.head.sha}`,
+      per_page: 1,
+    })
+
+    return {
+      number,
+      title: pull.title,
+      url: pull.html_url,
+      base: comparison.merge_base_commit.sha,
+      head: pull.head.sha,
+    }
+  } catch (error: unknown) {
+    console.error("Error fetching pull request:", error)
+    throw new Error(`Failed to fetch pull request #${number}: ${describeGitHubError(error)}`)
+  }
+}
+
+// Read a GitHub repository through the REST API, optionally at a ref and below a path (see parseGitHubUrl)
+export function createGitHubSource(owner: string, repo: string, refSegments: string[] = []): RepoSource {
+  return {
+    provider: "github",
+    owner,
+    repo,
+    listFiles: () => fetchRepoTree(owner, repo, refSegments),
+    readFiles: (files, onFileRead) => fetchBlobs(owner, repo, files, onFileRead),
+    getPullRequest: (number) => fetchPullRequest(owner, repo, number),
+  }
+}
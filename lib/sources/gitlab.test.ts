@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from "vitest"
+
+import recording from "@/lib/sources/__fixtures__/gitlab.json"
+import { replay } from "@/lib/sources/__fixtures__/replay"
+import { createGitLabSource, parseGitLabUrl } from "@/lib/sources/gitlab"
+
+const source = (refSegments: string[] = []) =>
+  createGitLabSource({
+    origin: "https://gitlab.com",
+    owner: "acme/web",
+    repo: "platform",
+    refSegments,
+    token: "",
+    fetch: replay(recording).fetch,
+  })
+
+describe("parseGitLabUrl", () => {
+  it("keeps nested groups in the owner", () => {
+    expect(parseGitLabUrl("https://gitlab.com/acme/web/platform")).toEqual({
+      origin: "https://gitlab.com",
+      owner: "acme/web",
+      repo: "platform",
+      refSegments: [],
+    })
+  })
+
+  it("returns the segments after /-/tree/ for the ref and path", () => {
+    const { owner, repo, refSegments } = parseGitLabUrl("https://gitlab.acme.dev/acme/platform/-/tree/release/2.x/packages")
+    expect([owner, repo, refSegments]).toEqual(["acme", "platform", ["release", "2.x", "packages"]])
+  })
+
+  it("rejects URLs without a project", () => {
+    expect(() => parseGitLabUrl("https://gitlab.com/acme")).toThrow("Failed to parse GitLab URL")
+  })
+})
+
+describe("createGitLabSource", () => {
+  it("lists the blobs of the default branch across keyset pages", async () => {
+    const listing = await source().listFiles()
+
+    expect(listing).toEqual({
+      files: [
+        { path: "package.json", sha: "e69de29bb2d1d6434b8b29ae775ad8c2e48c5391" },
+        { path: "pnpm-workspace.yaml", sha: "f2ad6c76f0115a6ba5b00456a849810e7ec0af20" },
+        { path: "packages/ui/package.json", sha: "d1e8a70b5ccab1dc2f56bbf7e99f064a660c08a3" },
+      ],
+      ref: "main",
+      path: "",
+      commit: "4b825dc642cb6eb9a060e54bf8d69288fbee4904",
+    })
+  })
+
+  it("splits a ref with a slash from the path", async () => {
+    const listing = await source(["release", "2.x", "packages"]).listFiles()
+
+    expect(listing.ref).toBe("release/2.x")
+    expect(listing.path).toBe("packages")
+    expect(listing.commit).toBe("1d2f0e3a9b8c7d6e5f4a3b2c1d0e9f8a7b6c5d4e")
+    expect(listing.files.map((file) => file.path)).toEqual(["packages/ui/package.json"])
+  })
+
+  it("reads raw blobs by SHA and reports every file", async () => {
+    const onFileRead = vi.fn()
+    const { files } = await source().listFiles()
+    const { contents, skipped } = await source().readFiles(
+      files.filter((file) => file.path.endsWith("package.json")),
+      onFileRead,
+    )
+
+    expect(skipped).toEqual([])
+    expect(JSON.parse(contents.get("packages/ui/package.json")!).name).toBe("@acme/ui")
+    expect(onFileRead).toHaveBeenCalledTimes(2)
+  })
+
+  it("resolves a merge request to its diff refs", async () => {
+    await expect(source().getPullRequest!(17)).resolves.toEqual({
+      number: 17,
+      title: "Move tokens into @acme/ui",
+      url: "https://gitlab.com/acme/web/platform/-/merge_requests/17",
+      base: "4b825dc642cb6eb9a060e54bf8d69288fbee4904",
+      head: "1d2f0e3a9b8c7d6e5f4a3b2c1d0e9f8a7b6c5d4e",
+    })
+  })
+
+  it("fails for a merge request GitLab hasn't prepared yet", async () => {
+    await expect(source().getPullRequest!(18)).rejects.toThrow("has no diff yet")
+  })
+})
@@ -0,0 +1,131 @@
+import { FetchLike, createHttpClient, readFilesConcurrently, splitRepoUrl } from "@/lib/sources/http"
+import { resolveRefSegments } from "@/lib/sources/refs"
+import { RepoFile, RepoSource } from "@/types"
+
+interface GitLabProject {
+  default_branch: string
+}
+
+interface GitLabCommit {
+  id: string
+}
+
+interface GitLabMergeRequest {
+  title: string
+  web_url: string
+  diff_refs: { base_sha: string; head_sha: string } | null
+}
+
+interface GitLabTreeItem {
+  id: string
+  path: string
+  type: "blob" | "tree" | "commit"
+}
+
+// Handle formats like:
+// https://gitlab.com/group/project
+// https://gitlab.acme.dev/group/subgroup/project/-/tree/release/2.x/packages
+export function parseGitLabUrl(url: string) {
+  const { origin, segments } = splitRepoUrl(url)
+
+  // Everything before the "/-/" separator is the (possibly nested) project path
+  const separator = segments.indexOf("-")
+  const projectPath = separator === -1 ? segments : segments.slice(0, separator)
+
+  if (projectPath.length < 2) {
+    throw new Error("Failed to parse GitLab URL. Please use format: https://gitlab.com/group/project")
+  }
+
+  // "/-/tree/<ref>/<path>" or "/-/commit/<sha>"
+  const rest = separator === -1 ? [] : segments.slice(separator + 1)
+
+  return {
+    origin,
+    owner: projectPath.slice(0, -1).join("/"),
+    repo: projectPath[projectPath.length - 1],
+    refSegments: ["tree", "commit"].includes(rest[0]) ? rest.slice(1) : [],
+  }
+}
+
+// GitLab paginates with a Link header
+const nextPageUrl = (link: string | null) => link?.match(/<([^>]+)>;\s*rel="next"/)?.[1] ?? null
+
+// Read a GitLab (gitlab.com or self-hosted) project through the REST API v4
+export function createGitLabSource({
+  origin,
+  owner,
+  repo,
+  refSegments = [],
+  token = process.env.GITLAB_TOKEN,
+  fetch,
+}: {
+  origin: string
+  owner: string
+  repo: string
+  refSegments?: string[]
+  token?: string
+  fetch?: FetchLike
+}): RepoSource {
+  const client = createHttpClient({
+    provider: "GitLab",
+    headers: token ? { "PRIVATE-TOKEN": token } : {},
+    fetch,
+  })
+  const projectUrl = `${origin}/api/v4/projects/${encodeURIComponent(`${owner}/${repo}`)}`
+
+  return {
+    provider: "gitlab",
+    owner,
+    repo,
+    listFiles: async () => {
+      const findCommit = (ref: string) =>
+        client.jsonOrNull<GitLabCommit>(`${projectUrl}/repository/commits/${encodeURIComponent(ref)}`)
+
+      const { ref, path } =
+        refSegments.length > 0
+          ? await resolveRefSegments(refSegments, async (candidate) => Boolean(await findCommit(candidate)))
+          : { ref: (await client.json<GitLabProject>(projectUrl)).default_branch, path: "" }
+
+      const commit = await findCommit(ref)
+      if (!commit) {
+        throw new Error(`GitLab ref "${ref}" not found`)
+      }
+
+      // List the commit rather than the ref so the files can't change between listing and reading
+      const files: RepoFile[] = []
+      let url: string | null =
+        `${projectUrl}/repository/tree?recursive=true&per_page=100&pagination=keyset` +
+        `&ref=${commit.id}` +
+        (path ? `&path=${encodeURIComponent(path)}` : "")
+
+      while (url) {
+        const response = await client.request(url)
+        const items = (await response.json()) as GitLabTreeItem[]
+        for (const item of items) {
+          if (item.type === "blob") {
+            files.push({ path: item.path, sha: item.id })
+          }
+        }
+        url = nextPageUrl(response.headers.get("link"))
+      }
+
+      return { files, ref, path, commit: commit.id }
+    },
+    readFiles: (files, onFileRead) =>
+      readFilesConcurrently(files, (file) => client.text(`${projectUrl}/repository/blobs/${file.sha}/raw`), onFileRead),
+    getPullRequest: async (number) => {
+      const mergeRequest = await client.json<GitLabMergeRequest>(`${projectUrl}/merge_requests/${number}`)
+      // diff_refs is missing while GitLab is still preparing a new merge request
+      if (!mergeRequest.diff_refs) {
+        throw new Error(`GitLab merge request !${number} has no diff yet, try again in a moment`)
+      }
+      return {
+        number,
+        title: mergeRequest.title,
+        url: mergeRequest.web_url,
+        base: mergeRequest.diff_refs.base_sha,
+        head: mergeRequest.diff_refs.head_sha,
+      }
+    },
+  }
+}
@@ -0,0 +1,133 @@
+import { delay, mapWithConcurrency } from "@/lib/concurrency"
+import { RepoFile, SkippedFile } from "@/types"
+
+// Anything with the signature of the global fetch, so recorded responses can be replayed instead of the network
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>
+
+// Retries for 429/503 responses before giving up
+const MAX_RETRIES = 3
+// Longest Retry-After we are willing to wait for
+const MAX_RETRY_WAIT = 60 * 1000
+// Concurrent file downloads per analysis
+const READ_CONCURRENCY = 8
+// Files larger than this are not downloaded
+export const MAX_REMOTE_FILE_SIZE = 1024 * 1024
+
+// JSON/text client for the REST APIs of the non-GitHub providers
+export function createHttpClient({
+  provider,
+  headers = {},
+  fetch = globalThis.fetch,
+}: {
+  provider: string
+  headers?: Record<string, string>
+  fetch?: FetchLike
+}) {
+  async function request(url: string, attempt = 0): Promise<Response> {
+    const response = await fetch(url, { headers, cache: "no-store" })
+
+    if (response.status === 429 || response.status === 503) {
+      const retryAfter = Number(response.headers.get("retry-after")) * 1000 || 2 ** attempt * 1000
+      if (attempt < MAX_RETRIES && retryAfter <= MAX_RETRY_WAIT) {
+        console.warn(`${provider} API returned ${response.status} for ${url}, retrying in ${retryAfter}ms`)
+        await delay(retryAfter)
+        return request(url, attempt + 1)
+      }
+      throw new Error(`${provider} API rate limit exceeded. Please try again later.`)
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(`${provider} API denied access (${response.status}). Check the access token for this host.`)
+    }
+
+    if (response.status === 404) {
+      throw new Error(`${provider} repository or file not found: ${url}`)
+    }
+
+    if (!response.ok) {
+      throw new Error(`${provider} API request failed with status ${response.status}: ${url}`)
+    }
+
+    return response
+  }
+
+  // JSON of a resource that may not exist, null on 404/422 (used to probe refs)
+  async function jsonOrNull<T>(url: string) {
+    const response = await fetch(url, { headers, cache: "no-store" })
+    if (response.status === 404 || response.status === 422) return null
+    // Everything else goes through the usual retries and error messages
+    return (response.ok ? response : await request(url)).json() as Promise<T>
+  }
+
+  return {
+    request,
+    jsonOrNull,
+    json: async <T>(url: string) => (await request(url)).json() as Promise<T>,
+    text: async (url: string) => (await request(url)).text(),
+  }
+}
+
+// Download files with bounded concurrency, stopping early once the provider's rate limit is exhausted
+export async function readFilesConcurrently(
+  files: RepoFile[],
+  read: (file: RepoFile) => Promise<string>,
+  onFileRead?: () => void,
+) {
+  const contents = new Map<string, string>()
+  const skipped: SkippedFile[] = []
+  let exhaustedReason: string | null = null
+
+  const readFile = async (file: RepoFile) => {
+    if (exhaustedReason) {
+      skipped.push({ path: file.path, reason: exhaustedReason })
+      return
+    }
+
+    if (file.size && file.size > MAX_REMOTE_FILE_SIZE) {
+      skipped.push({ path: file.path, reason: `File is larger than ${MAX_REMOTE_FILE_SIZE / 1024} KB` })
+      return
+    }
+
+    try {
+      contents.set(file.path, await read(file))
+    } catch (error: unknown) {
+      const reason = error instanceof Error ? error.message : "Unknown error"
+      if (reason.includes("rate limit")) {
+        exhaustedReason = reason
+      }
+      console.error(`Error fetching ${file.path}:`, error)
+      skipped.push({ path: file.path, reason })
+    }
+  }
+
+  await mapWithConcurrency(files, READ_CONCURRENCY, async (file) => {
+    await readFile(file)
+    onFileRead?.()
+  })
+
+  return { contents, skipped }
+}
+
+// Split "https://host/a/b/c" into its origin and path segments, accepting URLs without a scheme
+export function splitRepoUrl(url: string) {
+  const value = url.trim()
+  const parsed = new URL(/^[a-z]+:\/\//i.test(value) ? value : `https://${value}`)
+  const segments = parsed.pathname
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => decodeURIComponent(segment))
+
+  // "repo.git" clone URLs
+  if (segments.length > 0) {
+    segments[segments.length - 1] = segments[segments.length - 1].replace(/\.git$/, "")
+  }
+
+  return { origin: parsed.origin, host: parsed.host.toLowerCase(), segments }
+}
+
+// Hosts listed in a comma separated environment variable, e.g. GITLAB_HOSTS="gitlab.acme.dev,git.internal"
+export const hostsFromEnv = (value: string | undefined) =>
+  (value || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase().replace(/^https?:\/\//, "").replace(/\/+$/, ""))
+    .filter(Boolean)
@@ -0,0 +1,93 @@
+import { createBitbucketSource, parseBitbucketUrl } from "@/lib/sources/bitbucket"
+import { createGiteaSource, parseGiteaUrl } from "@/lib/sources/gitea"
+import { createGitHubSource, parseGitHubUrl } from "@/lib/sources/github"
+import { createGitLabSource, parseGitLabUrl } from "@/lib/sources/gitlab"
+import { hostsFromEnv, splitRepoUrl } from "@/lib/sources/http"
+import { createDirectorySource } from "@/lib/sources/local"
+import { isLocalPath } from "@/lib/sources/paths"
+import { RepoSource } from "@/types"
+
+export { createGitHubSource } from "@/lib/sources/github"
+export { createArchiveSource, createDirectorySource } from "@/lib/sources/local"
+export { isLocalPath } from "@/lib/sources/paths"
+
+export type RepoProvider = "github" | "gitlab" | "bitbucket" | "gitea" | "local"
+
+// Public instances of each provider, self-hosted ones are configured with GITLAB_HOSTS / GITEA_HOSTS
+const GITLAB_HOSTS = ["gitlab.com"]
+const BITBUCKET_HOSTS = ["bitbucket.org"]
+const GITEA_HOSTS = ["codeberg.org", "gitea.com"]
+
+// Work out which provider hosts a repository reference
+export function detectProvider(input: string): RepoProvider {
+  const value = input.trim()
+
+  if (isLocalPath(value)) return "local"
+
+  // "owner/repo" shorthand, kept for GitHub
+  if (!/^[a-z]+:\/\//i.test(value) && !value.split("/")[0].includes(".")) return "github"
+
+  const { host } = splitRepoUrl(value)
+  if (host === "github.com" || host === "www.github.com") return "github"
+  if ([...GITLAB_HOSTS, ...hostsFromEnv(process.env.GITLAB_HOSTS)].includes(host)) return "gitlab"
+  if (BITBUCKET_HOSTS.includes(host)) return "bitbucket"
+  if ([...GITEA_HOSTS, ...hostsFromEnv(process.env.GITEA_HOSTS)].includes(host)) return "gitea"
+
+  throw new Error(
+    `Unsupported repository host "${host}". Add self-hosted instances to GITLAB_HOSTS or GITEA_HOSTS.`,
+  )
+}
+
+// Owner, repo and the ref/path segments of a remote repository URL
+async function parseRepoInput(value: string) {
+  const provider = detectProvider(value)
+
+  switch (provider) {
+    case "gitlab":
+      return { provider, ...parseGitLabUrl(value) }
+    case "bitbucket":
+      return { provider, ...parseBitbucketUrl(value) }
+    case "gitea":
+      return { provider, ...parseGiteaUrl(value) }
+    case "local":
+      throw new Error("Local directories are not remote repositories")
+    default:
+      return { provider, ...(await parseGitHubUrl(value)) }
+  }
+}
+
+// Pick the source for a user supplied repository reference, `refSegments` overrides the ref named in the URL
+export async function resolveRepoSource(input: string, refSegments?: string[]): Promise<RepoSource> {
+  const value = input.trim()
+
+  if (detectProvider(value) === "local") {
+    return createDirectorySource(value)
+  }
+
+  const parsed = await parseRepoInput(value)
+  const refs = refSegments ?? parsed.refSegments
+
+  switch (parsed.provider) {
+    case "gitlab":
+      return createGitLabSource({ ...parsed, refSegments: refs })
+    case "bitbucket":
+      return createBitbucketSource({ ...parsed, refSegments: refs })
+    case "gitea":
+      return createGiteaSource({ ...parsed, refSegments: refs })
+    default:
+      return createGitHubSource(parsed.owner, parsed.repo, refs)
+  }
+}
+
+// Stable identifier of a remote repository, e.g. "github:vercel/next.js"
+export async function getRepoId(input: string) {
+  const { provider, owner, repo } = await parseRepoInput(input.trim())
+  return `${provider}:${owner.toLowerCase()}/${repo.toLowerCase()}`
+}
+
+// Cache key for a remote repository reference. URLs that name the same repository, ref and path share a key,
+// refs and paths keep their case since git treats them case sensitively.
+export async function getRepoCacheKey(input: string) {
+  const { refSegments } = await parseRepoInput(input.trim())
+  return `repo:${await getRepoId(input)}@${refSegments.join("/") || "default"}`
+}
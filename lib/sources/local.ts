@@ -0,0 +1,131 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { mapWithConcurrency } from "@/lib/concurrency"
+import { archiveBaseName, extractArchive } from "@/lib/sources/archive"
+import { RepoFile, RepoSource, SkippedFile } from "@/types"
+
+// Directories that never contain workspace packages and can be huge
+const IGNORED_DIRECTORIES = new Set([".git", "node_modules", ".next", ".turbo", ".yarn"])
+// Files larger than this are not read, the lockfiles of large monorepos run to tens of MB
+const MAX_FILE_SIZE = 50 * 1024 * 1024
+// Concurrent filesystem reads
+const READ_CONCURRENCY = 16
+
+const decoder = new TextDecoder()
+
+// Local analysis is opt-in: the server only reads directories below LOCAL_REPOS_ROOT
+export function resolveLocalPath(input: string) {
+  const root = process.env.LOCAL_REPOS_ROOT
+  if (!root) {
+    throw new Error("Local analysis is disabled. Set the LOCAL_REPOS_ROOT environment variable to enable it.")
+  }
+
+  const requested = input.replace(/^(local:|file:\/\/)/, "")
+  const resolvedRoot = path.resolve(root)
+  const resolved = path.resolve(resolvedRoot, requested)
+
+  if (resolved !== resolvedRoot && !resolved.startsWith(resolvedRoot + path.sep)) {
+    throw new Error(`Path ${requested} is outside of LOCAL_REPOS_ROOT`)
+  }
+
+  return resolved
+}
+
+async function walkDirectory(root: string) {
+  const files: RepoFile[] = []
+  const pending = [""]
+
+  while (pending.length > 0) {
+    const relativeDir = pending.pop() as string
+    const entries = await fs.readdir(path.join(root, relativeDir), { withFileTypes: true })
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name
+
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.has(entry.name)) pending.push(relativePath)
+      } else if (entry.isFile()) {
+        files.push({ path: relativePath })
+      }
+    }
+  }
+
+  return files
+}
+
+// Read a repository checked out on the server's filesystem
+export async function createDirectorySource(input: string): Promise<RepoSource> {
+  const root = resolveLocalPath(input)
+
+  const stats = await fs.stat(root).catch(() => null)
+  if (!stats?.isDirectory()) {
+    throw new Error(`Local repository not found: ${input}`)
+  }
+
+  return {
+    provider: "local",
+    owner: "local",
+    repo: path.basename(root),
+    listFiles: async () => ({ files: await walkDirectory(root) }),
+    readFiles: async (files, onFileRead) => {
+      const contents = new Map<string, string>()
+      const skipped: SkippedFile[] = []
+
+      await mapWithConcurrency(files, READ_CONCURRENCY, async (file) => {
+        try {
+          const fullPath = path.join(root, file.path)
+          const { size } = await fs.stat(fullPath)
+          if (size > MAX_FILE_SIZE) {
+            skipped.push({ path: file.path, reason: `File is larger than ${MAX_FILE_SIZE / 1024 / 1024} MB` })
+            return
+          }
+          contents.set(file.path, await fs.readFile(fullPath, "utf-8"))
+        } catch (error: unknown) {
+          skipped.push({ path: file.path, reason: error instanceof Error ? error.message : "Unknown error" })
+        } finally {
+          onFileRead?.()
+        }
+      })
+
+      return { contents, skipped }
+    },
+  }
+}
+
+// Read a repository from an uploaded .tar.gz/.tgz/.tar/.zip archive, kept in memory. Only the
+// contents of the files passing `keep` are extracted, the rest is listed by path and size.
+export function createArchiveSource(fileName: string, data: Uint8Array, keep?: (path: string) => boolean): RepoSource {
+  const entries = extractArchive(fileName, data, keep)
+  console.log(`Extracted ${entries.size} files from ${fileName}`)
+
+  return {
+    provider: "archive",
+    owner: "local",
+    repo: archiveBaseName(fileName),
+    listFiles: async () => ({
+      files: Array.from(entries, ([path, { size }]) => ({ path, size })).filter(
+        (file) => !file.path.split("/").some((segment) => IGNORED_DIRECTORIES.has(segment)),
+      ),
+    }),
+    readFiles: async (files, onFileRead) => {
+      const contents = new Map<string, string>()
+      const skipped: SkippedFile[] = []
+
+      for (const file of files) {
+        const content = entries.get(file.path)?.content
+        if (content === undefined) {
+          skipped.push({ path: file.path, reason: "File not found in archive" })
+        } else if (content === null) {
+          skipped.push({ path: file.path, reason: "File was not extracted from the archive" })
+        } else if (content.length > MAX_FILE_SIZE) {
+          skipped.push({ path: file.path, reason: `File is larger than ${MAX_FILE_SIZE / 1024 / 1024} MB` })
+        } else {
+          contents.set(file.path, decoder.decode(content))
+        }
+        onFileRead?.()
+      }
+
+      return { contents, skipped }
+    },
+  }
+}
@@ -0,0 +1,3 @@
+// Local paths are written as "local:<path>", "file://<path>" or an absolute path. Kept apart from
+// the sources so the browser can tell them apart too.
+export const isLocalPath = (input: string) => /^(local:|file:\/\/|\/)/.test(input.trim())
@@ -0,0 +1,19 @@
+// Tree URLs put the ref and the path in one string ("/tree/release/2.x/packages/ui"), and refs may contain
+// slashes, so the split point has to be found by asking the provider which prefix is an existing ref.
+// Shorter prefixes are tried first since most branch names don't contain slashes.
+export async function resolveRefSegments(segments: string[], refExists: (ref: string) => Promise<boolean>) {
+  for (let i = 1; i <= segments.length; i++) {
+    const ref = segments.slice(0, i).join("/")
+    if (await refExists(ref)) {
+      return { ref, path: segments.slice(i).join("/") }
+    }
+  }
+
+  throw new Error(`Could not find a branch, tag or commit named "${segments.join("/")}"`)
+}
+
+// Segments that follow a marker like "tree" in a URL path, e.g. ["o", "r", "tree", "main", "pkg"] -> ["main", "pkg"]
+export function segmentsAfter(segments: string[], markers: string[]) {
+  const index = segments.findIndex((segment, i) => i >= 2 && markers.includes(segment))
+  return index === -1 ? [] : segments.slice(index + 1)
+}
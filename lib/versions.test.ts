@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest"
+
+import { declaredRange, satisfiesRange } from "@/lib/versions"
+
+describe("declaredRange", () => {
+  it("keeps registry ranges", () => {
+    expect(declaredRange("^1.2.0")).toBe("^1.2.0")
+    expect(declaredRange(" >=2 <4 ")).toBe(">=2 <4")
+  })
+
+  it("resolves workspace and alias protocols", () => {
+    expect(declaredRange("workspace:*")).toBe("*")
+    expect(declaredRange("workspace:^", "1.4.0")).toBe("^1.4.0")
+    expect(declaredRange("workspace:~")).toBe("*")
+    expect(declaredRange("workspace:^2.0.0")).toBe("^2.0.0")
+    expect(declaredRange("npm:react@^18")).toBe("^18")
+    expect(declaredRange("npm:@types/node@20.1.0")).toBe("20.1.0")
+  })
+
+  it("treats latest and empty specifiers as any version", () => {
+    expect(declaredRange("latest")).toBe("*")
+    expect(declaredRange("")).toBe("*")
+  })
+
+  it("returns null for specifiers that aren't ranges", () => {
+    expect(declaredRange("file:../ui")).toBeNull()
+    expect(declaredRange("github:acme/ui#main")).toBeNull()
+    expect(declaredRange("next")).toBeNull()
+  })
+})
+
+describe("satisfiesRange", () => {
+  it("checks the version against the declared range, prereleases included", () => {
+    expect(satisfiesRange("^1.2.0", "1.5.0")).toBe(true)
+    expect(satisfiesRange("^1.2.0", "2.0.0")).toBe(false)
+    expect(satisfiesRange("^2.0.0", "2.1.0-beta.1")).toBe(true)
+    expect(satisfiesRange("workspace:^", "3.0.0")).toBe(true)
+  })
+
+  it("can't decide without a version or a range", () => {
+    expect(satisfiesRange("^1.0.0")).toBeNull()
+    expect(satisfiesRange("^1.0.0", "unversioned")).toBeNull()
+    expect(satisfiesRange("link:../ui", "1.0.0")).toBeNull()
+  })
+})
@@ -0,0 +1,29 @@
+import semver from "semver"
+
+// Semver range behind a dependency specifier, null when it isn't a range (paths, git URLs, tags):
+// "^1.2.0" -> "^1.2.0", "workspace:*" -> "*", "workspace:^" -> "^<version>", "npm:react@^18" -> "^18"
+export function declaredRange(spec: string, version?: string) {
+  let range = spec.trim()
+
+  if (range.startsWith("workspace:")) {
+    range = range.slice("workspace:".length)
+    // "workspace:^" and "workspace:~" publish as the current version with that operator
+    if (range === "^" || range === "~") return version ? `${range}${version}` : "*"
+  }
+
+  // Aliases: "npm:name@range" and "workspace:name@range"
+  if (range.startsWith("npm:")) range = range.slice("npm:".length)
+  const alias = range.match(/^(@?[^@]+)@(.*)$/)
+  if (alias && !semver.validRange(range)) range = alias[2] || "*"
+
+  if (range === "" || range === "latest") return "*"
+  return semver.validRange(range) ? range : null
+}
+
+// Whether the version of a workspace package satisfies the range another package declares for it,
+// null when that can't be decided (no version, or a specifier that isn't a range)
+export function satisfiesRange(spec: string, version?: string) {
+  const range = declaredRange(spec, version)
+  if (range === null || !version || !semver.valid(version)) return null
+  return semver.satisfies(version, range, { includePrerelease: true })
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest"
+
+import { collectWorkspacePatterns, parsePnpmWorkspaceYaml, resolveWorkspacePackages } from "@/lib/workspaces"
+
+describe("parsePnpmWorkspaceYaml", () => {
+  it("reads a block list", () => {
+    expect(parsePnpmWorkspaceYaml("packages:\n  - packages/*\n  - apps/**\n")).toEqual(["packages/*", "apps/**"])
+  })
+
+  it("reads a flow list with quoted globs", () => {
+    expect(parsePnpmWorkspaceYaml(`packages: ['packages/*', "apps/*", "!**/test/**"]`)).toEqual([
+      "packages/*",
+      "apps/*",
+      "!**/test/**",
+    ])
+  })
+
+  it("ignores other keys and comments", () => {
+    const content = "# workspace\npackages:\n  - 'libs/*' # shared\ncatalog:\n  react: ^19\n"
+    expect(parsePnpmWorkspaceYaml(content)).toEqual(["libs/*"])
+  })
+
+  it("returns nothing for invalid YAML", () => {
+    expect(parsePnpmWorkspaceYaml("packages: [unclosed")).toEqual([])
+  })
+})
+
+describe("resolveWorkspacePackages", () => {
+  const paths = [
+    "package.json",
+    "packages/ui/package.json",
+    "packages/ui/test/fixture/package.json",
+    "packages/legacy/package.json",
+    "examples/demo/package.json",
+  ]
+
+  it("keeps the packages of the pnpm globs and drops the excluded ones", () => {
+    const configs = { "pnpm-workspace.yaml": "packages:\n  - 'packages/**'\n  - '!packages/legacy'\n  - '!**/test/**'\n" }
+    const discovery = resolveWorkspacePackages(paths, configs)
+
+    expect(discovery.tools).toEqual(["pnpm"])
+    expect(discovery.packageFiles).toEqual(["packages/ui/package.json"])
+    expect(discovery.ignored).toEqual([
+      "package.json",
+      "packages/ui/test/fixture/package.json",
+      "packages/legacy/package.json",
+      "examples/demo/package.json",
+    ])
+  })
+
+  it("uses every package.json without a workspace config", () => {
+    const discovery = resolveWorkspacePackages(paths, {})
+    expect(discovery).toEqual({ tools: [], patterns: [], packageFiles: paths, projectFiles: [], ignored: [] })
+  })
+
+  it("returns Nx projects that only have a project.json", () => {
+    const nxPaths = [
+      "package.json",
+      "apps/web/package.json",
+      "apps/web/project.json",
+      "libs/auth/project.json",
+      "libs/old/project.json",
+      "node_modules/nx/project.json",
+    ]
+    const configs = {
+      "nx.json": JSON.stringify({ workspaceLayout: { appsDir: "apps", libsDir: "libs" } }),
+      "package.json": JSON.stringify({ workspaces: ["!libs/old"] }),
+    }
+    const discovery = resolveWorkspacePackages(nxPaths, configs)
+
+    expect(discovery.packageFiles).toEqual(["apps/web/package.json"])
+    expect(discovery.projectFiles).toEqual(["libs/auth/project.json"])
+  })
+})
+
+describe("collectWorkspacePatterns", () => {
+  it("merges the globs of every tool", () => {
+    const configs = {
+      "package.json": JSON.stringify({ workspaces: { packages: ["packages/*"] } }),
+      "pnpm-workspace.yaml": "packages: ['packages/*', 'tools/*']",
+      "lerna.json": "{}",
+      "turbo.json": "{}",
+    }
+    expect(collectWorkspacePatterns(configs)).toEqual({
+      tools: ["workspaces", "pnpm", "lerna", "turbo"],
+      patterns: ["packages/*", "tools/*"],
+    })
+  })
+})
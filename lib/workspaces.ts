@@ -0,0 +1,255 @@
+import { parse } from "yaml"
+import { WorkspaceDiscovery } from "@/types"
+
+// Root-level files that can declare which directories are workspace packages
+export const WORKSPACE_CONFIG_FILES = ["package.json", "pnpm-workspace.yaml", "lerna.json", "nx.json", "turbo.json"]
+
+// Lerna falls back to this when lerna.json doesn't list any packages
+const LERNA_DEFAULT_PACKAGES = ["packages/*"]
+
+// Directory of a file path, "" for files in the root
+export function dirname(path: string) {
+  const index = path.lastIndexOf("/")
+  return index === -1 ? "" : path.slice(0, index)
+}
+
+const isInNodeModules = (path: string) => path.split("/").includes("node_modules")
+
+// Convert a workspace glob (e.g. "packages/*", "apps/**", "libs/{a,b}") to a regular expression
+export function globToRegExp(glob: string): RegExp {
+  // Normalize "./packages/*" and "packages/*/" to "packages/*"
+  const pattern = glob.trim().replace(/^\.\//, "").replace(/\/+$/, "")
+  let source = ""
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" matches zero or more directories, a trailing "**" matches everything below
+        if (pattern[i + 2] === "/") {
+          source += "(?:.*/)?"
+          i += 2
+        } else {
+          source += ".*"
+          i += 1
+        }
+      } else {
+        source += "[^/]*"
+      }
+    } else if (char === "?") {
+      source += "[^/]"
+    } else if (char === "{") {
+      const end = pattern.indexOf("}", i)
+      if (end === -1) {
+        source += "\\{"
+        continue
+      }
+      const options = pattern.slice(i + 1, end).split(",")
+      source += `(?:${options.map((option) => globToRegExp(option).source.slice(1, -1)).join("|")})`
+      i = end
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i)
+      if (end === -1) {
+        source += "\\["
+        continue
+      }
+      source += pattern.slice(i, end + 1).replace("[!", "[^")
+      i = end
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, "\\$&")
+    }
+  }
+
+  return new RegExp(`^${source}$`)
+}
+
+// The "packages" list of pnpm-workspace.yaml, which is all we need from it
+export function parsePnpmWorkspaceYaml(content: string): string[] {
+  try {
+    const packages = parse(content)?.packages
+    return Array.isArray(packages) ? packages.filter((pattern): pattern is string => typeof pattern === "string") : []
+  } catch (error) {
+    console.warn("Failed to parse pnpm-workspace.yaml:", error)
+    return []
+  }
+}
+
+const safeParseJson = (content: string | undefined, file: string) => {
+  if (!content) return null
+  try {
+    return JSON.parse(content)
+  } catch (error) {
+    console.warn(`Failed to parse ${file}:`, error)
+    return null
+  }
+}
+
+// Collect workspace globs from the root configuration files of the supported tools
+export function collectWorkspacePatterns(configs: Record<string, string>) {
+  const tools: string[] = []
+  const patterns: string[] = []
+
+  const rootPkg = safeParseJson(configs["package.json"], "package.json")
+  const npmWorkspaces = Array.isArray(rootPkg?.workspaces) ? rootPkg.workspaces : rootPkg?.workspaces?.packages
+  if (Array.isArray(npmWorkspaces) && npmWorkspaces.length > 0) {
+    tools.push("workspaces")
+    patterns.push(...npmWorkspaces)
+  }
+
+  if (configs["pnpm-workspace.yaml"]) {
+    tools.push("pnpm")
+    patterns.push(...parsePnpmWorkspaceYaml(configs["pnpm-workspace.yaml"]))
+  }
+
+  const lerna = safeParseJson(configs["lerna.json"], "lerna.json")
+  if (lerna) {
+    tools.push("lerna")
+    if (Array.isArray(lerna.packages) && lerna.packages.length > 0) {
+      patterns.push(...lerna.packages)
+    } else if (!lerna.useWorkspaces && patterns.length === 0) {
+      patterns.push(...LERNA_DEFAULT_PACKAGES)
+    }
+  }
+
+  const nx = safeParseJson(configs["nx.json"], "nx.json")
+  if (nx) {
+    tools.push("nx")
+    const layout = nx.workspaceLayout || {}
+    if (layout.appsDir) patterns.push(`${layout.appsDir}/*`)
+    if (layout.libsDir) patterns.push(`${layout.libsDir}/*`)
+  }
+
+  if (configs["turbo.json"]) {
+    // Turborepo reuses the package manager's workspaces, plus per-package turbo.json files
+    tools.push("turbo")
+  }
+
+  return { tools, patterns: Array.from(new Set(patterns.map((pattern) => pattern.trim()).filter(Boolean))) }
+}
+
+// Pick the package.json files that belong to real workspace packages
+export function resolveWorkspacePackages(paths: string[], configs: Record<string, string>): WorkspaceDiscovery {
+  const { tools, patterns } = collectWorkspacePatterns(configs)
+  const packageFiles = paths.filter((path) => path.split("/").pop() === "package.json" && !isInNodeModules(path))
+
+  // Not a recognized monorepo: keep every package.json that isn't vendored
+  if (tools.length === 0) {
+    return { tools, patterns, packageFiles, projectFiles: [], ignored: [] }
+  }
+
+  const includes = patterns.filter((pattern) => !pattern.startsWith("!")).map(globToRegExp)
+  const excludes = patterns.filter((pattern) => pattern.startsWith("!")).map((pattern) => globToRegExp(pattern.slice(1)))
+
+  const workspaceDirs = new Set<string>()
+
+  for (const file of packageFiles) {
+    const dir = dirname(file)
+    if (dir && includes.some((regex) => regex.test(dir))) {
+      workspaceDirs.add(dir)
+    }
+  }
+
+  // Nx infers projects from project.json, Turborepo from per-package turbo.json. Nx projects
+  // without a package.json are returned as projectFiles below.
+  const markerFiles = [tools.includes("nx") && "project.json", tools.includes("turbo") && "turbo.json"].filter(Boolean)
+  for (const path of paths) {
+    const dir = dirname(path)
+    if (dir && !isInNodeModules(path) && markerFiles.includes(path.split("/").pop() || "")) {
+      workspaceDirs.add(dir)
+    }
+  }
+
+  // A config without any usable globs (e.g. a bare turbo.json) shouldn't hide the whole repository
+  if (workspaceDirs.size === 0) {
+    console.warn(`No workspace packages matched ${tools.join(", ")} configuration, using every package.json`)
+    return { tools, patterns, packageFiles, projectFiles: [], ignored: [] }
+  }
+
+  const selected = packageFiles.filter((file) => {
+    const dir = dirname(file)
+    return workspaceDirs.has(dir) && !excludes.some((regex) => regex.test(dir))
+  })
+  const selectedSet = new Set(selected)
+  const ignored = packageFiles.filter((file) => !selectedSet.has(file))
+
+  // Nx projects don't need a package.json, their project.json is the only manifest
+  const packageDirs = new Set(packageFiles.map(dirname))
+  const projectFiles = tools.includes("nx")
+    ? paths.filter((path) => {
+        const dir = dirname(path)
+        return (
+          dir &&
+          path.split("/").pop() === "project.json" &&
+          !isInNodeModules(path) &&
+          !packageDirs.has(dir) &&
+          !excludes.some((regex) => regex.test(dir))
+        )
+      })
+    : []
+
+  return { tools, patterns, packageFiles: selected, projectFiles, ignored }
+}
+
+// Join a relative path onto a directory, resolving "." and ".." segments ("" is the root)
+export function joinPath(dir: string, relative: string) {
+  const segments = relative.startsWith("/") ? [] : dir.split("/").filter(Boolean)
+
+  for (const segment of relative.split("/")) {
+    if (!segment || segment === ".") continue
+    if (segment === "..") {
+      segments.pop()
+    } else {
+      segments.push(segment)
+    }
+  }
+
+  return segments.join("/")
+}
+
+// Protocols whose value is a path to another directory in the repository
+const PATH_PROTOCOLS = ["file:", "link:", "portal:"]
+
+const isPathLike = (value: string) => value.startsWith(".") || value.startsWith("/") || (!value.startsWith("@") && value.includes("/"))
+
+// Strip the version from an alias target like "@acme/ui@^1.0.0" or "lodash@4"
+const aliasName = (value: string) => {
+  const versionIndex = value.indexOf("@", value.startsWith("@") ? 1 : 0)
+  return versionIndex === -1 ? value : value.slice(0, versionIndex)
+}
+
+/**
+ * Resolve a dependency declared as `name: spec` in the package at `fromDir` to a workspace package.
+ * Handles plain names (including scoped ones), the `workspace:` protocol with ranges, aliases and paths,
+ * `npm:` aliases and `file:`/`link:`/`portal:` paths. Returns the package name, or null for external dependencies.
+ */
+export function resolveWorkspaceDependency(
+  name: string,
+  spec: unknown,
+  fromDir: string,
+  packageNames: Set<string>,
+  directories: Map<string, string>,
+): string | null {
+  const value = typeof spec === "string" ? spec.trim() : ""
+  const byName = (candidate: string) => (packageNames.has(candidate) ? candidate : null)
+  const byPath = (path: string) => directories.get(joinPath(fromDir, path)) ?? directories.get(joinPath("", path)) ?? null
+
+  if (value.startsWith("npm:")) {
+    return byName(aliasName(value.slice("npm:".length)))
+  }
+
+  if (value.startsWith("workspace:")) {
+    const target = value.slice("workspace:".length)
+    if (isPathLike(target)) return byPath(target)
+    // pnpm alias form: "workspace:@acme/ui@*"
+    if (/^(@[^/]+\/)?[^@/]+@/.test(target)) return byName(aliasName(target))
+    return byName(name)
+  }
+
+  const protocol = PATH_PROTOCOLS.find((prefix) => value.startsWith(prefix))
+  if (protocol) {
+    return byPath(value.slice(protocol.length))
+  }
+
+  return byName(name)
+}
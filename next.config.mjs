@@ -13,6 +13,10 @@ const nextConfig = {
     webpackBuildWorker: true,
     parallelServerBuildTraces: true,
     parallelServerCompiles: true,
+    serverActions: {
+      // Uploaded repository archives
+      bodySizeLimit: "100mb",
+    },
   },
   transpilePackages: ["geist"], 
 }
@@ -1,28 +1,386 @@
 // Interfaces for the graph data structure
 export interface GraphNode {
+  // Package name from package.json (directory path for unnamed packages)
   id: string;
+  // Short name to display in the visualization
+  label?: string;
+  // Package manager the package belongs to, "npm" when missing
+  ecosystem?: Ecosystem;
   data?: {
     path?: string;
+    directory?: string;
     packageJson?: string;
     pkg?: Record<string, any>;
+    // External dependencies as installed according to the repository's lockfile
+    resolved?: ResolvedDependencies;
     [key: string]: any;
   };
 }
 
-export interface GraphEdge {
+export type Ecosystem = "npm" | "cargo" | "go" | "python" | "gradle" | "maven";
+
+// A package declared by a manifest of another ecosystem than npm (Cargo.toml, go.mod, ...)
+export interface ManifestPackage {
+  // Unique name within the ecosystem: crate, module path, Gradle project path, groupId:artifactId
+  name: string;
+  label?: string;
+  version?: string;
+  dependencies: ManifestDependency[];
+}
+
+export interface ManifestDependency {
+  name: string;
+  kind: DependencyKind;
+  range: string;
+  // Local path reference, relative to the directory of the manifest
+  path?: string;
+}
+
+// Reads the manifests of one ecosystem, see lib/manifests
+export interface ManifestParser {
+  ecosystem: Ecosystem;
+  // Whether a file of the tree needs to be read
+  matches: (path: string) => boolean;
+  // Packages declared by one manifest; every matched file is passed in `manifests` for context
+  parse: (path: string, content: string, manifests: Map<string, string>) => ManifestPackage[];
+  // Canonical form of a dependency name, e.g. PEP 503 normalization for Python
+  normalize?: (name: string) => string;
+  // Whether a version satisfies a declared range, null when that can't be decided
+  satisfies?: (range: string, version: string) => boolean | null;
+}
+
+export type LockfileFormat = "pnpm" | "yarn" | "yarn-berry" | "npm";
+
+// External dependencies of a workspace package as the lockfile resolves them. Only the package's own
+// dependencies count, what it gets through other workspace packages is on their nodes.
+export interface ResolvedDependencies {
+  // Installed version of each direct external dependency
+  direct: Record<string, string>;
+  // Every version installed for the package, direct and transitive, by package name
+  installed: Record<string, string[]>;
+  // Number of distinct package versions installed for the package
+  footprint: number;
+}
+
+// Lockfile read during the analysis (see lib/lockfiles)
+export interface LockfileSummary {
+  file: string;
+  format: LockfileFormat;
+  // Distinct external package versions in the lockfile
+  packages: number;
+  // External packages installed at more than one version
+  duplicates: DuplicatePackage[];
+}
+
+// Lockfile reduced to what the analysis needs, the same for every package manager
+export interface ParsedLockfile {
+  format: LockfileFormat;
+  // Direct external dependencies of each workspace directory ("" for the root), name -> package key
+  importers: Map<string, Record<string, string>>;
+  // Installed package versions by a key unique to the lockfile format
+  packages: Map<string, LockfilePackage>;
+}
+
+export interface LockfilePackage {
+  name: string;
+  version: string;
+  // Keys of the packages it depends on
+  dependencies: string[];
+}
+
+export interface DuplicatePackage {
+  name: string;
+  // Each installed version with the workspace packages that pull it in
+  versions: Array<{ version: string; dependents: string[] }>;
+}
+
+// package.json fields that declare dependencies, by the edge kind they produce
+export type DependencyKind =
+  | "dependency"
+  | "devDependency"
+  | "peerDependency"
+  | "optionalDependency"
+  | "bundledDependency";
+
+// Imports found in the sources in deep mode: "source-import" for a declared dependency,
+// "undeclared-import" for a workspace package missing from package.json
+export type ImportKind = "source-import" | "undeclared-import";
+
+export type EdgeKind = DependencyKind | ImportKind;
+
+// A workspace dependency declared in package.json
+export interface DependencyEdge {
+  source: string;
+  target: string;
+  kind: DependencyKind;
+  // Specifier as written, e.g. "^1.2.0" or "workspace:*"
+  range: string;
+  // Whether the target's current version satisfies the range; null for specifiers that aren't ranges
+  // (file:, link:, git URLs) or targets without a version
+  satisfied: boolean | null;
+  // Deep mode found no import of this dependency
+  unused?: boolean;
+  ecosystem?: Ecosystem;
+}
+
+// Imports of one package by another, found in the sources in deep mode
+export interface ImportEdge {
   source: string;
   target: string;
+  kind: ImportKind;
+  // Import sites behind the edge
+  count: number;
 }
 
+export type GraphEdge = DependencyEdge | ImportEdge;
+
 export interface Graph {
   nodes: GraphNode[];
   edges: GraphEdge[];
+  conflicts?: PackageNameConflict[];
+}
+
+// Several package.json files declaring the same name; only the first one becomes a node
+export interface PackageNameConflict {
+  name: string;
+  paths: string[];
 }
 
 export interface AnalysisData {
+  // Where the repository was read from, e.g. "github" or "local"
+  provider?: string;
   owner: string;
   repo: string;
   graph: Graph;
+  workspace?: Omit<WorkspaceDiscovery, "packageFiles" | "projectFiles" | "ignored">;
+  skipped?: SkippedFile[];
+  // Branch, tag or SHA that was analyzed, the commit it pointed to and the subdirectory, when scoped
+  revision?: RepoRevision;
+  // Edges include imports parsed from the sources (see AnalyzeOptions.deep)
+  deep?: boolean;
+  drift?: DriftReport;
+  lockfile?: LockfileSummary;
+  // Architecture rules declared in the repository and the dependencies that break them
+  architecture?: ArchitectureReport;
+  // Set when this is the head of a comparison between two refs
+  comparison?: GraphComparison;
+}
+
+// A constraint on which packages may depend on which, read from .monocloud.json or Nx depConstraints.
+// Selectors are globs on the package directory or name, or "tag:<glob>" for project tags.
+export interface ArchitectureRule {
+  // e.g. "packages/ui-* may not depend on packages/server-*"
+  description: string;
+  from: string;
+  // Only these targets are allowed
+  allow?: string[];
+  // These targets are never allowed
+  disallow?: string[];
+  // Edge kinds the rule applies to, every kind when missing
+  kinds?: EdgeKind[];
+  // File the rule was declared in
+  file: string;
+}
+
+export interface RuleViolation {
+  // Index in ArchitectureReport.rules
+  rule: number;
+  source: string;
+  target: string;
+  kind: EdgeKind;
+}
+
+export interface ArchitectureReport {
+  rules: ArchitectureRule[];
+  violations: RuleViolation[];
+}
+
+// Circular dependencies of a graph (see lib/graph/cycles.ts)
+export interface CycleReport {
+  // Strongly connected components with more than one package, largest first
+  components: StronglyConnectedComponent[];
+  // Enumerating elementary cycles stopped at the limit, some cycles are missing
+  truncated: boolean;
+}
+
+// Packages that all depend on each other, directly or through the others
+export interface StronglyConnectedComponent {
+  nodes: string[];
+  // Elementary cycles, each starting at its smallest package id
+  cycles: string[][];
+  // Fewest dependencies whose removal makes the component acyclic
+  breakEdges: Array<{ source: string; target: string }>;
+  // False when the component was too large to prove breakEdges is the smallest set
+  minimal: boolean;
+}
+
+// Result of the dependency drift pass (see lib/drift.ts)
+export interface DriftReport {
+  external: DependencyDrift[];
+  internal: InternalRangeMismatch[];
+}
+
+// An external dependency that workspaces declare at different ranges
+export interface DependencyDrift {
+  dependency: string;
+  // Distinct ranges, the columns of the package × range matrix
+  ranges: string[];
+  // Lowest major version of each range, more than one means the workspaces disagree on the major
+  majors: number[];
+  severity: "major" | "range";
+  declarations: Array<{ package: string; field: string; range: string }>;
+}
+
+// A workspace dependency whose declared range excludes the package's current version
+export interface InternalRangeMismatch {
+  package: string;
+  dependency: string;
+  kind: DependencyKind;
+  range: string;
+  version: string;
+}
+
+// A pull/merge request resolved to the two commits that are compared
+export interface PullRequestRefs {
+  number: number;
+  title?: string;
+  url?: string;
+  // Merge base with the target branch, so only the changes of the pull request show up
+  base: string;
+  head: string;
+}
+
+// The dependency graph at two refs and what changed between them
+export interface GraphComparison {
+  base: RepoRevision;
+  head: RepoRevision;
+  pullRequest?: PullRequestRefs;
+  diff: GraphDiff;
+}
+
+export type DiffStatus = "added" | "removed";
+
+export interface GraphDiff {
+  addedPackages: GraphNode[];
+  removedPackages: GraphNode[];
+  addedEdges: GraphEdge[];
+  removedEdges: GraphEdge[];
+  // Cycles that exist at head but not at base, and the other way round
+  newCycles: string[][];
+  resolvedCycles: string[][];
+  versionChanges: ExternalVersionChange[];
+}
+
+// An external (non-workspace) dependency that was added, removed or changed its range in a package
+export interface ExternalVersionChange {
+  package: string;
+  dependency: string;
+  field: "dependencies" | "devDependencies" | "peerDependencies" | "optionalDependencies";
+  from?: string;
+  to?: string;
+}
+
+export interface AnalyzeOptions {
+  // Also parse the TS/JS sources of every package and resolve their imports
+  deep?: boolean;
+  // Called as the analysis moves from one stage to the next
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+// Steps of an analysis, in order (see ANALYSIS_STAGES)
+export type AnalysisStage = "listing" | "packages" | "imports" | "lockfile" | "manifests" | "architecture";
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  message: string;
+  // Rough share of the analysis done, 0 to 100
+  percent: number;
+  // Files of the stage read so far, in stages that read files
+  done?: number;
+  total?: number;
+  // Packages and dependencies found so far, without their manifests, whenever the graph grew
+  graph?: Graph;
+}
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+// A job of an in-process queue (see lib/jobs), timestamps are ISO strings
+export interface Job<Input, Result, Progress> {
+  id: string;
+  status: JobStatus;
+  input: Input;
+  progress: Progress | null;
+  result?: Result;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface AnalysisJobInput {
+  repo: string;
+  deep: boolean;
+  // Address of the landing page visitor who enqueued it, API jobs have none
+  client?: string;
+}
+
+export interface AnalysisJobResult {
+  data: AnalysisData;
+  fromCache: boolean;
+}
+
+export type AnalysisJob = Job<AnalysisJobInput, AnalysisJobResult, AnalysisProgress>;
+
+// A file in the repository tree
+export interface RepoFile {
+  path: string;
+  sha?: string;
+  size?: number;
+}
+
+// Which revision of the repository was read, and the subdirectory the analysis is scoped to
+export interface RepoRevision {
+  ref?: string;
+  commit?: string;
+  path?: string;
+}
+
+// Files of one revision of a repository. Paths are always relative to the repository root.
+export interface RepoListing extends RepoRevision {
+  files: RepoFile[];
+  truncated?: boolean;
+}
+
+// Where a repository is read from. Every source lists its files and reads them in bulk,
+// the analyzer does the rest so all sources produce the same AnalysisData.
+export interface RepoSource {
+  provider: string;
+  owner: string;
+  repo: string;
+  listFiles: () => Promise<RepoListing>;
+  // `onFileRead` is called once per file, read or skipped, so callers can report progress
+  readFiles: (
+    files: RepoFile[],
+    onFileRead?: () => void,
+  ) => Promise<{ contents: Map<string, string>; skipped: SkippedFile[] }>;
+  // Hosted providers resolve pull/merge request numbers to the commits to compare
+  getPullRequest?: (number: number) => Promise<PullRequestRefs>;
+}
+
+// A file the analysis could not read, with a human readable reason
+export interface SkippedFile {
+  path: string;
+  reason: string;
+}
+
+// Result of reading the workspace configuration (package.json workspaces, pnpm, lerna, nx, turbo)
+export interface WorkspaceDiscovery {
+  tools: string[];
+  patterns: string[];
+  packageFiles: string[];
+  // project.json files of Nx projects without a package.json
+  projectFiles: string[];
+  ignored: string[];
 }
 
 // Interfaces for API responses and actions
@@ -49,6 +407,9 @@ export interface ErrorResponse {
 
 export type RepositoryAnalysisResponse = SuccessResponse | ErrorResponse;
 
+// Answer of the action that enqueues an analysis job for the landing page
+export type StartAnalysisResponse = { success: true; id: string } | ErrorResponse;
+
 // Interfaces for specific components
 
 // For GraphVisualization
@@ -57,6 +418,146 @@ export interface GraphVisualizationProps {
   onSelectNode: (nodeId: string) => void;
   isDetailView?: boolean;
   selectedModule?: string | null;
+  edgeKinds: EdgeKind[];
+  onEdgeKindsChange: (kinds: EdgeKind[]) => void;
+  viewState: GraphViewState;
+  onViewStateChange: (state: GraphViewState) => void;
+}
+
+// Where the 3D camera is and what it looks at
+export interface CameraPose {
+  position: [number, number, number];
+  target: [number, number, number];
+}
+
+// How the graph is shown, kept by the page so a link can restore it
+export interface GraphViewState {
+  layout: GraphLayout;
+  view: GraphViewMode;
+  filter: GraphFilter;
+  // Last settled camera pose of the 3D view, restored when it mounts
+  camera: CameraPose | null;
+}
+
+// What was analyzed, so a link can analyze it again. Uploaded archives have none.
+export interface AnalysisSource {
+  url: string;
+  deep: boolean;
+}
+
+// Everything a shareable link encodes, see lib/deep-link
+export interface DeepLink {
+  source: AnalysisSource;
+  module: string | null;
+  tab: InsightsTab | null;
+  edgeKinds: EdgeKind[];
+  viewState: GraphViewState;
+}
+
+// For EdgeKindFilter
+export interface EdgeKindFilterProps {
+  edges: GraphEdge[];
+  value: EdgeKind[];
+  onChange: (kinds: EdgeKind[]) => void;
+  className?: string;
+}
+
+export interface DependencyFootprintProps {
+  nodes: GraphNode[];
+  lockfile: LockfileSummary;
+  isDark?: boolean;
+  onSelectPackage?: (id: string) => void;
+}
+
+// Structure metrics of one package, over the dependencies picked in the edge filter
+export interface PackageMetrics {
+  id: string;
+  // Longest chain of dependencies below the package, 0 when it depends on nothing
+  layer: number;
+  // Longest chain of dependents above the package, 0 when nothing depends on it
+  depth: number;
+  // Afferent coupling (Ca): packages that depend on this one
+  afferent: number;
+  // Efferent coupling (Ce): packages this one depends on
+  efferent: number;
+  // Martin's instability Ce / (Ca + Ce), null for packages without any coupling
+  instability: number | null;
+  betweenness: number;
+}
+
+export interface GraphMetrics {
+  packages: PackageMetrics[];
+  layers: number;
+  // Packages of the longest dependency chain from the top down, a cycle is one step of several packages
+  longestChain: string[][];
+  averageDepth: number;
+}
+
+// Files the graph can be exported to, see lib/export
+export type ExportFormat = "json" | "graphml" | "dot" | "mermaid" | "csv-nodes" | "csv-edges";
+
+export interface GraphExport {
+  content: string;
+  mimeType: string;
+  filename: string;
+}
+
+// What every serializer gets: the exported edges and the metrics computed over them
+export interface ExportContext {
+  // "owner/repo", with the ref when one was analyzed
+  name: string;
+  data: AnalysisData;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  metrics: GraphMetrics;
+  metricsOf: Map<string, PackageMetrics>;
+}
+
+// Images and scenes of what the graph view draws, see lib/export/image and lib/export/scene
+export type ViewExportFormat = "png" | "png-transparent" | "svg" | "glb";
+
+// Set by the 2D and the 3D view, with the formats the view can be exported to
+export interface ViewExporter {
+  formats: ViewExportFormat[];
+  exportView: (format: ViewExportFormat) => Promise<Blob>;
+}
+
+// A package of the 3D scene as exported to glTF
+export interface SceneExportNode {
+  id: string;
+  label: string;
+  position: [number, number, number];
+  scale: number;
+  color: string;
+  glowColor: string;
+  opacity: number;
+}
+
+export interface SceneExportProps {
+  nodes: SceneExportNode[];
+  edges: BatchedEdge[];
+  onChange?: (exporter: ViewExporter | null) => void;
+}
+
+export interface ExportMenuProps {
+  analysisData: AnalysisData;
+  // Only edges of these kinds are exported, like the graph shows them
+  edgeKinds: EdgeKind[];
+  // Image and scene exports of the current view, when it has any
+  viewExporter?: ViewExporter | null;
+  className?: string;
+}
+
+export interface PackageMetricsProps {
+  metrics: GraphMetrics;
+  isDark?: boolean;
+  onSelectPackage?: (id: string) => void;
+}
+
+export interface DriftReportProps {
+  report: DriftReport;
+  isDark?: boolean;
+  onSelectPackage?: (id: string) => void;
 }
 
 export interface Dimensions {
@@ -88,11 +589,33 @@ export interface InsightsPanelProps {
   onBackToVisualization: () => void;
   isCollapsed?: boolean;
   onToggleCollapse: (collapsed: boolean) => void;
+  edgeKinds: EdgeKind[];
+  onEdgeKindsChange: (kinds: EdgeKind[]) => void;
+  // Tab to open with, from a link, and every tab change after that
+  initialTab?: InsightsTab | null;
+  onTabChange?: (tab: InsightsTab) => void;
 }
 
+export type InsightsTab = "ai" | "stats" | "metrics" | "modules" | "drift";
+
 // For Hero
 export interface HeroProps {
-  onAnalysisComplete: (data: AnalysisData) => void;
+  onAnalysisComplete: (data: AnalysisData, source?: AnalysisSource) => void;
+}
+
+// Live view of a streamed analysis on the landing page
+export interface AnalysisProgressPanelProps {
+  progress: AnalysisProgress | null;
+  // One line per step, a file counter updated in place
+  log: string[];
+  // Packages and dependencies found so far
+  graph: Graph | null;
+  isDark: boolean;
+}
+
+export interface AnalysisPreviewProps {
+  graph: Graph;
+  isDark: boolean;
 }
 
 // For useTextToSpeech
@@ -128,20 +651,61 @@ export interface Position3D {
 
 export interface ThreeNode {
   id: string;
+  diffStatus?: DiffStatus;
   [key: string]: any;
 }
 
 export interface ThreeEdge {
   source: string;
   target: string;
+  kind?: EdgeKind;
+  diffStatus?: DiffStatus;
   [key: string]: any;
 }
 
+// Members of circular dependencies among the shown edges, their edges and the edges that would break them
+export interface CycleHighlights {
+  members: Set<string>;
+  edges: Set<string>;
+  breaks: Set<string>;
+}
+
+export interface GraphLegendProps {
+  comparison?: GraphComparison;
+  ecosystems: Ecosystem[];
+  cycles: CycleHighlights;
+  violations: Set<string>;
+  glowColor: string;
+  isDark: boolean;
+}
+
+// Layout engines of the 3D and 2D views
+export type GraphLayout = "force" | "layered" | "clustered" | "sphere";
+
+export type LayoutPositions = Record<string, [number, number, number]>;
+
+// What a layout engine needs of a package: its id and its scope or directory group
+export interface LayoutNode {
+  id: string;
+  group: string;
+}
+
+// Input of a layout, posted as is to the layout worker for large graphs
+export interface LayoutRequest {
+  layout: GraphLayout;
+  nodes: LayoutNode[];
+  edges: Array<{ source: string; target: string }>;
+  // Earlier positions the force layout starts from, so adding a package doesn't reshuffle the rest
+  seeds: LayoutPositions;
+  // Every package at z = 0, for the 2D view
+  flat?: boolean;
+}
+
 export interface ThreeGlobalState {
-  positions: Record<string, [number, number, number]>;
+  // Positions of every layout computed so far, switching back to one doesn't compute it again
+  positions: Partial<Record<GraphLayout, LayoutPositions>>;
   selectedNode: string | null;
   selectedNodePosition: [number, number, number] | null;
-  initialized: boolean;
 }
 
 export interface ThreeVisualizationProps {
@@ -151,6 +715,61 @@ export interface ThreeVisualizationProps {
   selectedModule?: string | null;
   dimensions?: { width: number; height: number };
   theme?: string;
+  // Kinds of edges to draw
+  edgeKinds?: EdgeKind[];
+  layout?: GraphLayout;
+  filter?: GraphFilter;
+  // Pose to start from instead of framing the whole graph, and the pose whenever the camera settles
+  camera?: CameraPose | null;
+  onCameraChange?: (camera: CameraPose) => void;
+  onExporterChange?: (exporter: ViewExporter | null) => void;
+}
+
+// Which packages the graph views show, see lib/graph/filter
+export interface GraphFilter {
+  // Glob on the package directory or name, e.g. "packages/ui-*", empty for every package
+  directory: string;
+  // Scopes or parent directories (see nodeGroup) and tags to keep, empty for all of them
+  scopes: string[];
+  tags: string[];
+  // Only the packages at most this many dependencies up or down from the selected one,
+  // Infinity for its whole closure, null when focus mode is off
+  focusHops: number | null;
+}
+
+export interface GraphFilterMenuProps {
+  nodes: GraphNode[];
+  value: GraphFilter;
+  onChange: (filter: GraphFilter) => void;
+  // Focus mode needs a selected package
+  canFocus: boolean;
+  className?: string;
+}
+
+export interface GraphSearchProps {
+  nodes: GraphNode[];
+  onSelect: (nodeId: string) => void;
+  className?: string;
+}
+
+// 3D scene or flat SVG graph
+export type GraphViewMode = "3d" | "2d";
+
+export interface Graph2DProps {
+  analysisData: AnalysisData | null;
+  onSelectNode: (nodeId: string) => void;
+  selectedModule?: string | null;
+  theme?: string;
+  edgeKinds?: EdgeKind[];
+  layout?: GraphLayout;
+  filter?: GraphFilter;
+  onExporterChange?: (exporter: ViewExporter | null) => void;
+}
+
+export interface LayoutPickerProps {
+  value: GraphLayout;
+  onChange: (layout: GraphLayout) => void;
+  className?: string;
 }
 
 export interface PulsingLightProps {
@@ -162,6 +781,46 @@ export interface PulsingLightProps {
   distance?: number;
 }
 
+// A package cube of InstancedNodes, all of them are drawn in two draw calls
+export interface InstancedNode {
+  id: string;
+  position: [number, number, number];
+  scale: number;
+  glowColor: string;
+}
+
+export interface InstancedNodesProps {
+  nodes: InstancedNode[];
+  color: string;
+  // Transmission (glass) material, which renders the scene once more every frame: small graphs only
+  glass?: boolean;
+  onSelectNode: (nodeId: string, position: [number, number, number]) => void;
+  onHoverNode?: (nodeId: string | null) => void;
+}
+
+// A dependency of EdgeBatches, a quadratic curve from start to end bent towards mid
+export interface BatchedEdge {
+  start: [number, number, number];
+  mid: [number, number, number];
+  end: [number, number, number];
+  color: string;
+  opacity: number;
+  dashed: boolean;
+}
+
+export interface EdgeBatchesProps {
+  edges: BatchedEdge[];
+  // In pixels
+  lineWidth: number;
+}
+
+export interface NodeLabelsProps {
+  nodes: Array<{ id: string; label: string; position: [number, number, number]; scale: number }>;
+  // Labeled wherever they are, like the package under the pointer
+  pinned: string[];
+  isDark: boolean;
+}
+
 export interface FaceTextProps {
   text?: string;
   size?: number;
@@ -178,6 +837,12 @@ export interface CameraFocusProps {
   graphRef: React.RefObject<any>;
 }
 
+export interface CameraSyncProps {
+  pose: CameraPose | null;
+  onChange?: (pose: CameraPose) => void;
+  controlsRef: React.RefObject<any>;
+}
+
 export interface InternalGlowProps {
   scale: number;
   color: string;